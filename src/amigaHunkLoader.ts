@@ -212,11 +212,21 @@ export class AmigaHunkLoader {
   /**
    * Create a program entry point setup
    * Sets up registers and jumps to program start
+   *
+   * @param stackPointer Stack pointer to start with, to restart a program. Otherwise the current user stack is used.
    */
-  async setupProgramEntry(program: LoadedProgram): Promise<void> {
-    // Jump pc to entrypoint
+  async setupProgramEntry(
+    program: LoadedProgram,
+    stackPointer?: number,
+  ): Promise<void> {
+    // Jump pc to entrypoint. This also clears SR, switching to user mode.
     await this.vAmiga.jump(program.entryPoint);
-    // TODO: set initial register state, stack etc?
+    if (stackPointer !== undefined) {
+      await this.vAmiga.setRegister("a7", stackPointer);
+      program.stackPointer = stackPointer;
+    } else {
+      program.stackPointer = Number((await this.vAmiga.getCpuInfo()).a7);
+    }
     console.log(
       `Program entry point set to $${program.entryPoint.toString(16)}`,
     );
@@ -229,6 +239,7 @@ export class AmigaHunkLoader {
 export async function loadAmigaProgram(
   vAmiga: VAmiga,
   hunks: Hunk[],
+  stackPointer?: number,
 ): Promise<LoadedProgram> {
   console.log(`Loading Amiga program with ${hunks.length} hunks`);
 
@@ -236,7 +247,7 @@ export async function loadAmigaProgram(
   const program = await loader.loadProgram(hunks);
 
   // Set up program entry point
-  await loader.setupProgramEntry(program);
+  await loader.setupProgramEntry(program, stackPointer);
 
   return program;
 }
@@ -33,6 +33,17 @@ export interface LoadedProgram {
   entryPoint: number;
   allocations: AllocatedHunk[];
   totalSize: number;
+  /** Stack pointer the program was started with */
+  stackPointer?: number;
+}
+
+export interface ProcessInfo {
+  /** Address of the Process structure */
+  address: number;
+  /** Command name for CLI processes, or task name */
+  name: string;
+  /** Start addresses of the loaded segments, after the segment list pointers */
+  segments: number[];
 }
 
 // Amiga memory attributes
@@ -46,6 +57,7 @@ export const MEMF_KICK = 0x00000400;
 
 // Node types
 export const NT_MEMORY = 10;
+export const NT_PROCESS = 13;
 
 export class AmigaMemoryMapper {
   constructor(private vAmiga: VAmiga) {}
@@ -400,4 +412,208 @@ export class AmigaMemoryMapper {
       `Address ${address.toString(16)} not found in any memory region`,
     );
   }
+
+  /**
+   * Find a running process by program name, and the segments it was loaded into.
+   *
+   * Matches the command name for processes started from a CLI, or the task name for programs started from
+   * Workbench. Any device or directory part of the name is ignored, and the comparison is case insensitive.
+   * Returns undefined until the program has been loaded.
+   */
+  async findProcess(name: string): Promise<ProcessInfo | undefined> {
+    const execBase = await this.getExecBase();
+    const wanted = baseName(name);
+
+    const tasks = [await this.vAmiga.peek32(execBase + 0x114)]; // ThisTask
+    for (const listOffset of [0x196, 0x1a4]) {
+      // TaskReady, TaskWait
+      await this.walkList(execBase + listOffset, tasks);
+    }
+
+    for (const task of tasks) {
+      if (!task || (await this.vAmiga.peek8(task + 0x08)) !== NT_PROCESS) {
+        continue;
+      }
+      let processName: string;
+      let segList: number;
+      const cli = (await this.vAmiga.peek32(task + 0xac)) << 2; // pr_CLI
+      if (cli) {
+        // Command currently run by the CLI
+        processName = await this.readBString(
+          (await this.vAmiga.peek32(cli + 0x10)) << 2, // cli_CommandName
+        );
+        segList = await this.vAmiga.peek32(cli + 0x3c); // cli_Module
+      } else {
+        // Started from Workbench - the program's segments are the fourth entry in the process segment array
+        processName = await this.readString(
+          await this.vAmiga.peek32(task + 0x0a), // ln_Name
+        );
+        const segArray = (await this.vAmiga.peek32(task + 0x80)) << 2; // pr_SegList
+        segList = segArray ? await this.vAmiga.peek32(segArray + 12) : 0;
+      }
+      if (baseName(processName) === wanted && segList) {
+        return {
+          address: task,
+          name: processName,
+          segments: await this.readSegList(segList),
+        };
+      }
+    }
+  }
+
+  /**
+   * Find the segments of a library or device loaded from a file, by name.
+   *
+   * The segment list isn't kept in the Library structure, so the first segment is located from the function table
+   * instead. A function in the first hunk is preceded by the segment header, containing the size LoadSeg allocated.
+   *
+   * @param name File name of the library or device
+   * @param hunkSizes Size in bytes of each hunk in the file
+   */
+  async findLibrarySegments(
+    name: string,
+    hunkSizes: number[],
+  ): Promise<number[] | undefined> {
+    const execBase = await this.getExecBase();
+    const wanted = baseName(name);
+
+    const libraries: number[] = [];
+    for (const listOffset of [0x17a, 0x15e]) {
+      // LibList, DeviceList
+      await this.walkList(execBase + listOffset, libraries);
+    }
+
+    for (const library of libraries) {
+      const libraryName = await this.readString(
+        await this.vAmiga.peek32(library + 0x0a), // ln_Name
+      );
+      if (baseName(libraryName) !== wanted) {
+        continue;
+      }
+      const negSize = await this.vAmiga.peek16(library + 0x10); // lib_NegSize
+      const vectors = await this.vAmiga.readMemory(library - negSize, negSize);
+      // Check the first few vectors, starting from Open at -6
+      for (let offset = negSize - 6; offset >= negSize - 48; offset -= 6) {
+        // Each vector is a JMP to an absolute address
+        if (offset < 0 || vectors.readUInt16BE(offset) !== 0x4ef9) {
+          continue;
+        }
+        const target = vectors.readUInt32BE(offset + 2);
+        const segment = await this.findSegmentHeader(target, hunkSizes[0]);
+        if (segment) {
+          const segments = await this.readSegList(segment >> 2);
+          if (segments.length === hunkSizes.length) {
+            return segments;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Find the segments of a program or library loaded at runtime, as a process or in the exec library lists.
+   *
+   * @param name File name of the program or library
+   * @param hunkSizes Size in bytes of each hunk in the file
+   */
+  async findModuleSegments(
+    name: string,
+    hunkSizes: number[],
+  ): Promise<number[] | undefined> {
+    const process = await this.findProcess(name);
+    if (process?.segments.length === hunkSizes.length) {
+      return process.segments;
+    }
+    return this.findLibrarySegments(name, hunkSizes);
+  }
+
+  /**
+   * Add the nodes in an exec List to an array
+   */
+  private async walkList(listAddr: number, nodes: number[]) {
+    let node = await this.vAmiga.peek32(listAddr); // lh_Head
+    let safetyCounter = 0;
+    while (node !== 0 && safetyCounter < 100) {
+      const next = await this.vAmiga.peek32(node); // ln_Succ
+      // The tail node has no successor
+      if (next === 0) {
+        break;
+      }
+      nodes.push(node);
+      node = next;
+      safetyCounter++;
+    }
+  }
+
+  /**
+   * Find the start of the segment containing an address, from the size stored before it by LoadSeg
+   *
+   * @param address Address in the segment
+   * @param size Size of the hunk loaded into the segment
+   * @returns Address of the segment's next pointer, before the data
+   */
+  private async findSegmentHeader(
+    address: number,
+    size: number,
+  ): Promise<number | undefined> {
+    const end = address & ~3;
+    const start = Math.max(end - size - 8, 0);
+    const block = await this.vAmiga.readMemory(start, end - start + 4);
+    for (let data = end; data - 8 >= start; data -= 4) {
+      // Allocation size includes the size and next pointer longwords
+      if (
+        block.readUInt32BE(data - 8 - start) === size + 8 &&
+        address < data + size
+      ) {
+        return data - 4;
+      }
+    }
+  }
+
+  /**
+   * Get the start address of each segment in a DOS segment list
+   *
+   * @param segList BPTR to the first segment, as returned by LoadSeg
+   */
+  async readSegList(segList: number): Promise<number[]> {
+    const segments: number[] = [];
+    let bptr = segList;
+    while (bptr !== 0 && segments.length < 100) {
+      const addr = bptr << 2;
+      segments.push(addr + 4); // Data follows the next segment pointer
+      bptr = await this.vAmiga.peek32(addr);
+    }
+    return segments;
+  }
+
+  /**
+   * Read a null terminated string
+   */
+  private async readString(address: number): Promise<string> {
+    if (!address) {
+      return "";
+    }
+    const buffer = await this.vAmiga.readMemory(address, 256);
+    const end = buffer.indexOf(0);
+    return buffer.toString("latin1", 0, end === -1 ? buffer.length : end);
+  }
+
+  /**
+   * Read a BCPL string, which starts with a length byte
+   */
+  private async readBString(address: number): Promise<string> {
+    if (!address) {
+      return "";
+    }
+    const length = await this.vAmiga.peek8(address);
+    const buffer = await this.vAmiga.readMemory(address + 1, length);
+    return buffer.toString("latin1");
+  }
+}
+
+/**
+ * Get the file part of an Amiga path, in lower case
+ */
+function baseName(path: string): string {
+  return (path.split(/[:/]/).pop() ?? "").toLowerCase();
 }
@@ -2,8 +2,17 @@ import { DebugProtocol } from "@vscode/debugprotocol";
 import { logger } from "@vscode/debugadapter";
 import { VAmiga, CpuInfo, StopMessage } from "./vAmiga";
 import { SourceMap } from "./sourceMap";
-import { formatHex } from "./numbers";
-import { exceptionBreakpointFilters } from "./hardware";
+import { formatAddress, formatHex, u16, u32, u8 } from "./numbers";
+import {
+  customAddresses,
+  exceptionBreakpointFilters,
+  IRQ_VECTOR,
+  TRAP_VECTOR,
+  vectors,
+} from "./hardware";
+import { parseRegister } from "./amigaRegisterParsers";
+import { EvaluateManager } from "./evaluateManager";
+import { ExceptionFrame, readExceptionFrame } from "./exceptionFrame";
 
 /**
  * Internal reference to a breakpoint set in the emulator.
@@ -13,6 +22,62 @@ export interface BreakpointRef {
   id: number;
   /** Memory address where the breakpoint is set */
   address: number;
+  /** Optional expression which must evaluate as true for the breakpoint to stop */
+  condition?: string;
+  /** Optional logpoint message, with `{expression}` placeholders. Logged instead of stopping. */
+  logMessage?: string;
+  /** Optional hit count condition */
+  hitCondition?: HitCondition;
+  /** Number of times the breakpoint has been hit, with its condition met */
+  hitCount: number;
+  /** Source line for source breakpoints */
+  line?: number;
+  /** Symbol name for function breakpoints */
+  name?: string;
+}
+
+/**
+ * Data breakpoint on a memory address, filtered by access type.
+ */
+export interface DataBreakpointRef extends BreakpointRef {
+  /** Name of the watched variable, for stop messages */
+  name: string;
+  /** Kind of access which stops execution */
+  accessType: DebugProtocol.DataBreakpointAccessType;
+  /** Size of the watched value in bytes */
+  size: number;
+  /** Value at the address after the last hit, for detecting changes */
+  value: number;
+  /** Only stop when the value changes to this */
+  changesTo?: number;
+}
+
+/**
+ * Data breakpoint on writes to a custom chip register, by the CPU or copper.
+ */
+export interface RegisterBreakpointRef extends BreakpointRef {
+  /** Register name e.g. `DMACON` */
+  name: string;
+  /** Long registers are written as two words, so both are watched */
+  long: boolean;
+}
+
+/**
+ * Memory accesses made by an instruction
+ */
+export interface InstructionAccess {
+  read: boolean;
+  write: boolean;
+}
+
+/**
+ * Parsed breakpoint hit count condition e.g. `>= 10`, `% 50`
+ */
+export interface HitCondition {
+  /** Comparison applied to the hit count */
+  operator: ">" | ">=" | "<" | "<=" | "==" | "%";
+  /** Value to compare the hit count with */
+  value: number;
 }
 
 /**
@@ -26,6 +91,227 @@ export interface TmpBreakpoint {
   address: number;
 }
 
+/**
+ * Function breakpoint name for a copper breakpoint e.g. `copper CopperList+8`
+ */
+const COPPER_BREAKPOINT_PATTERN = /^copper\s+(.+)$/i;
+
+/**
+ * Function breakpoint name for a beamtrap e.g. `beam 100,0x40`
+ */
+const BEAMTRAP_PATTERN = /^beam\s+([^,]+),(.+)$/i;
+
+/**
+ * Data breakpoint condition which is just a value e.g. `$10`, `0x10` or `16`
+ */
+const VALUE_CONDITION_PATTERN = /^\s*(\$[0-9a-f]+|0x[0-9a-f]+|-?\d+)\s*$/i;
+
+/** Instructions which only read their operands */
+const READ_ONLY_MNEMONICS = [
+  "tst",
+  "cmp",
+  "cmpa",
+  "cmpi",
+  "cmpm",
+  "cmp2",
+  "btst",
+  "chk",
+  "chk2",
+];
+
+/** Instructions which write their destination without reading it */
+const WRITE_ONLY_MNEMONICS = [
+  "move",
+  "movea",
+  "movem",
+  "movep",
+  "clr",
+  ...["t", "f", "hi", "ls", "cc", "cs", "ne", "eq"].map((cc) => "s" + cc),
+  ...["vc", "vs", "pl", "mi", "ge", "lt", "gt", "le"].map((cc) => "s" + cc),
+];
+
+/** Instructions with memory operands which are addresses rather than data */
+const NO_DATA_MNEMONICS = ["jmp", "jsr", "lea", "pea"];
+
+/** Register or register list operand e.g. `d0`, `d0-d7/a0-a6`, `sr` */
+const REGISTER_OPERAND_PATTERN =
+  /^((([da][0-7]|sp)(-([da][0-7]|sp))?)(\/([da][0-7]|sp)(-([da][0-7]|sp))?)*|sr|ccr|usp|vbr)$/i;
+
+/**
+ * Determines whether an instruction reads or writes memory, from its disassembly.
+ *
+ * Only instructions with a single memory operand can be decoded, as the address
+ * of each operand isn't known.
+ *
+ * @param instruction Disassembled instruction e.g. `move.w d0,($1234).l`
+ * @returns Accesses made, or undefined if they can't be determined
+ */
+export function instructionAccess(
+  instruction: string,
+): InstructionAccess | undefined {
+  const match = instruction.trim().match(/^([a-z0-9]+)(\.[a-z])?\s*(.*)$/i);
+  if (!match) {
+    return;
+  }
+  const mnemonic = match[1].toLowerCase();
+  if (NO_DATA_MNEMONICS.includes(mnemonic)) {
+    return;
+  }
+  // Split on commas outside of parentheses
+  const operands: string[] = [];
+  let depth = 0;
+  let operand = "";
+  for (const char of match[3]) {
+    if (char === "," && depth === 0) {
+      operands.push(operand.trim());
+      operand = "";
+      continue;
+    }
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    operand += char;
+  }
+  if (operand.trim()) {
+    operands.push(operand.trim());
+  }
+  const isMemory = (op: string) =>
+    !op.startsWith("#") && !REGISTER_OPERAND_PATTERN.test(op);
+
+  const destination = operands[operands.length - 1];
+  const sourceInMemory = operands.slice(0, -1).some(isMemory);
+  const destinationInMemory =
+    destination !== undefined && isMemory(destination);
+
+  if (READ_ONLY_MNEMONICS.includes(mnemonic)) {
+    return { read: true, write: false };
+  }
+  if (sourceInMemory === destinationInMemory) {
+    // No explicit memory operand, or can't tell which one was accessed
+    return;
+  }
+  if (sourceInMemory) {
+    return { read: true, write: false };
+  }
+  if (WRITE_ONLY_MNEMONICS.includes(mnemonic)) {
+    return { read: false, write: true };
+  }
+  // Read-modify-write e.g. add, not, bset
+  return { read: true, write: true };
+}
+
+/**
+ * Gets the addresses of each word of a custom register.
+ */
+function registerWordAddresses(ref: RegisterBreakpointRef): number[] {
+  return ref.long ? [ref.address, ref.address + 2] : [ref.address];
+}
+
+/**
+ * Formats a custom register value with its decoded bit fields e.g.
+ * `0x8200 (ENABLE_ALL, BITPLANES=...)`. Flags are listed if set.
+ */
+function formatRegisterValue(
+  ref: RegisterBreakpointRef,
+  value: number,
+  sourceMap: SourceMap,
+): string {
+  if (ref.long) {
+    return formatAddress(value, sourceMap);
+  }
+  const fields = parseRegister(ref.name, value)
+    .filter((field) => field.value !== false)
+    .map((field) => {
+      // Strip bit numbers e.g. `14-12: BITPLANES`
+      const name = field.name.replace(/^[\d-]+:\s*/, "");
+      return field.value === true ? name : `${name}=${field.value}`;
+    });
+  const hex = formatHex(value, 4);
+  return fields.length ? `${hex} (${fields.join(", ")})` : hex;
+}
+
+/**
+ * Gets the exception vectors selected by an exception breakpoint filter.
+ *
+ * @param filterId Vector number, or "trap" / "irq" for TRAP numbers / interrupt levels
+ * @param condition List of numbers or ranges e.g. `1-3,6` for the conditional filters. All if empty.
+ */
+export function filterVectors(filterId: string, condition?: string): number[] {
+  if (filterId === "trap") {
+    return parseNumberList(condition, 0, 15, "TRAP number").map(
+      (n) => TRAP_VECTOR + n,
+    );
+  }
+  if (filterId === "irq") {
+    return parseNumberList(condition, 1, 7, "Interrupt level").map(
+      (n) => IRQ_VECTOR + n - 1,
+    );
+  }
+  const vector = Number(filterId);
+  if (!Number.isInteger(vector) || vector < 0 || vector >= vectors.length) {
+    throw new Error(`Unknown exception filter: ${filterId}`);
+  }
+  return [vector];
+}
+
+function parseNumberList(
+  list: string | undefined,
+  min: number,
+  max: number,
+  description: string,
+): number[] {
+  if (!list?.trim()) {
+    return Array.from({ length: max - min + 1 }, (_, i) => min + i);
+  }
+  const numbers = new Set<number>();
+  for (const part of list.split(",")) {
+    const match = part.trim().match(/^#?(\d+)(?:\s*-\s*#?(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${description.toLowerCase()} list: ${list}`);
+    }
+    const from = Number(match[1]);
+    const to = match[2] !== undefined ? Number(match[2]) : from;
+    if (from < min || to > max || from > to) {
+      throw new Error(`${description} must be ${min}-${max}: ${part.trim()}`);
+    }
+    for (let n = from; n <= to; n++) {
+      numbers.add(n);
+    }
+  }
+  return [...numbers];
+}
+
+/**
+ * Gets a description of an exception vector e.g. `TRAP #3 (TRAP_03)`
+ */
+export function exceptionName(vector: number): string {
+  const name = vectors[vector] ?? `VECTOR_${vector}`;
+  let label: string | undefined;
+  if (vector >= TRAP_VECTOR && vector < TRAP_VECTOR + 16) {
+    label = `TRAP #${vector - TRAP_VECTOR}`;
+  } else if (vector >= IRQ_VECTOR && vector < IRQ_VECTOR + 7) {
+    label = `Level ${vector - IRQ_VECTOR + 1} interrupt`;
+  } else {
+    label = exceptionBreakpointFilters.find(
+      (f) => Number(f.filter) === vector,
+    )?.label;
+  }
+  return label ? `${label} (${name})` : name;
+}
+
+/** Last line of a PAL long frame */
+const MAX_VPOS = 312;
+/** Last color clock of a long line */
+const MAX_HPOS = 0xe3;
+
+/**
+ * Source breakpoint in a file with no code loaded yet
+ */
+interface PendingSourceBreakpoint {
+  /** ID reported to the client */
+  id: number;
+  breakpoint: DebugProtocol.SourceBreakpoint;
+}
+
 /**
  * Result of handling a breakpoint stop event
  */
@@ -33,6 +319,16 @@ export interface BreakpointStopResult {
   reason: string;
   text?: string;
   hitBreakpointIds?: number[];
+  /** Emulator should be resumed without reporting a stop e.g. breakpoint condition not met */
+  resume?: boolean;
+  /** Text to write to the debug console e.g. from a logpoint */
+  output?: string;
+  /** Breakpoints with updated state to send to the client e.g. new hit count */
+  changedBreakpoints?: DebugProtocol.Breakpoint[];
+  /** Last instruction executed before an exception was taken */
+  exceptionInstruction?: { address: number; isSupervisor: boolean };
+  /** Stack frame pushed by an exception */
+  exceptionFrame?: ExceptionFrame;
 }
 
 /**
@@ -44,15 +340,27 @@ export interface BreakpointStopResult {
  * - Exception breakpoints: Break on specific CPU exceptions/interrupts
  * - Data breakpoints: Break on memory read/write access
  * - Function breakpoints: Break when entering named functions
+ * - Copper breakpoints: Function breakpoints named `copper <address>`, which break when the copper reaches an instruction
+ * - Beamtraps: Function breakpoints named `beam <vpos>,<hpos>`, which break when the raster beam reaches a position
+ * - Logpoints: Source breakpoints which log a message instead of stopping
  * - Temporary breakpoints: Internal breakpoints for stepping operations
  */
 export class BreakpointManager {
   private sourceBreakpoints: Map<string, BreakpointRef[]> = new Map();
+  private pendingSourceBreakpoints: Map<string, PendingSourceBreakpoint[]> =
+    new Map();
   private instructionBreakpoints: BreakpointRef[] = [];
   private exceptionBreakpoints: BreakpointRef[] = [];
-  private dataBreakpoints: BreakpointRef[] = [];
+  private dataBreakpoints: DataBreakpointRef[] = [];
+  private registerBreakpoints: RegisterBreakpointRef[] = [];
   private functionBreakpoints: BreakpointRef[] = [];
+  private copperBreakpoints: BreakpointRef[] = [];
+  /** Address is the beam position encoded as `(vpos << 16) | hpos`, as reported by the emulator */
+  private beamtraps: BreakpointRef[] = [];
   private tmpBreakpoints: TmpBreakpoint[] = [];
+  private tmpCopperBreakpoints: TmpBreakpoint[] = [];
+  /** Address is the beam position encoded as `(vpos << 16) | hpos` */
+  private tmpBeamtraps: TmpBreakpoint[] = [];
   private bpId = 0;
 
   /**
@@ -60,31 +368,87 @@ export class BreakpointManager {
    *
    * @param vAmiga VAmiga instance for setting hardware breakpoints
    * @param sourceMap Source map for resolving source locations to addresses
+   * @param evaluateManager Evaluate manager for breakpoint conditions
    */
   constructor(
     private vAmiga: VAmiga,
     private sourceMap: SourceMap,
+    private evaluateManager: EvaluateManager,
   ) {}
 
   /**
-   * Parses a hit condition and returns the number of times to ignore the breakpoint.
-   * Currently supports numeric values, but can be extended to support expressions.
+   * Parses a hit count condition.
+   *
+   * Supports an optional comparison operator followed by a number:
+   * - `>= 10`, `> 10`, `<= 10`, `< 10`, `== 10`: compare hit count with value
+   * - `% 10`: stop on every 10th hit
+   * - `10`: equivalent to `>= 10`
    *
    * @param hitCondition The hit condition string from the breakpoint
-   * @returns Number of times to ignore the breakpoint (0 if invalid)
+   * @returns Parsed condition, or undefined if no condition is set
+   * @throws Error if the condition can't be parsed
    */
-  private parseHitCondition(hitCondition: string | undefined): number {
-    if (!hitCondition) {
-      return 0;
+  private parseHitCondition(
+    hitCondition: string | undefined,
+  ): HitCondition | undefined {
+    if (!hitCondition?.trim()) {
+      return undefined;
+    }
+    const match = hitCondition.match(/^\s*(>=|<=|==|=|>|<|%)?\s*(\d+)\s*$/);
+    if (!match) {
+      throw new Error(`Invalid hit condition '${hitCondition}'`);
+    }
+    const value = Number(match[2]);
+    let operator = (match[1] ?? ">=") as HitCondition["operator"] | "=";
+    if (operator === "=") {
+      operator = "==";
     }
+    if (operator === "%" && value === 0) {
+      throw new Error(`Invalid hit condition '${hitCondition}'`);
+    }
+    return { operator, value };
+  }
 
-    // For now, support numeric values only
-    // TODO: Extend to support expressions when needed
-    const ignores = Number(hitCondition) - 1;
-    if (isNaN(ignores) || ignores < 0) {
-      return 0;
+  /**
+   * Checks whether a hit count satisfies a hit condition.
+   */
+  private matchesHitCondition(
+    condition: HitCondition,
+    hitCount: number,
+  ): boolean {
+    switch (condition.operator) {
+      case ">":
+        return hitCount > condition.value;
+      case ">=":
+        return hitCount >= condition.value;
+      case "<":
+        return hitCount < condition.value;
+      case "<=":
+        return hitCount <= condition.value;
+      case "==":
+        return hitCount === condition.value;
+      case "%":
+        return hitCount % condition.value === 0;
+    }
+  }
+
+  /**
+   * Checks that a breakpoint condition expression can be parsed.
+   *
+   * @param condition The condition expression from the breakpoint
+   * @throws Error with a description of the syntax error
+   */
+  private validateCondition(condition: string | undefined): void {
+    if (!condition) {
+      return;
+    }
+    try {
+      this.evaluateManager.validateCondition(condition);
+    } catch (error) {
+      throw new Error(
+        `Invalid condition '${condition}': ${error instanceof Error ? error.message : String(error)}`,
+      );
     }
-    return ignores;
   }
 
   /**
@@ -97,50 +461,50 @@ export class BreakpointManager {
     logger.log(`Set breakpoints request: ${path}`);
 
     // Remove existing breakpoints for source
+    // Hit counts are kept for breakpoints which are set again on the same line
     const existing = this.sourceBreakpoints.get(path);
+    const previousHitCounts = new Map<number, number>();
     if (existing) {
       for (const ref of existing) {
         logger.log(
           `Breakpoint #${ref.id} removed at ${formatHex(ref.address)}`,
         );
-        this.vAmiga.removeBreakpoint(ref.address);
+        this.removeUserBreakpoint(ref.address);
+        if (ref.line !== undefined) {
+          previousHitCounts.set(ref.line, ref.hitCount);
+        }
       }
     }
 
-    const refs: BreakpointRef[] = [];
-    this.sourceBreakpoints.set(path, refs);
+    this.sourceBreakpoints.set(path, []);
     const resultBreakpoints: DebugProtocol.Breakpoint[] = [];
 
     // Add new breakpoints
+    const pending: PendingSourceBreakpoint[] = [];
+    this.pendingSourceBreakpoints.set(path, pending);
     for (const bp of breakpoints) {
+      const id = this.bpId++;
       try {
-        const location = this.sourceMap.lookupSourceLine(path, bp.line);
-        const address = location.address;
-        const instructionReference = formatHex(address);
-        const id = this.bpId++;
-        const ignores = this.parseHitCondition(bp.hitCondition);
-
-        refs.push({ id, address });
-        this.vAmiga.setBreakpoint(address, ignores);
-        logger.log(
-          `Breakpoint #${id} at ${path}:${bp.line} set at ${instructionReference}`,
+        resultBreakpoints.push(
+          this.addSourceBreakpoint(
+            path,
+            bp,
+            id,
+            previousHitCounts.get(bp.line) ?? 0,
+          ),
         );
-
-        resultBreakpoints.push({
-          id,
-          instructionReference,
-          verified: true,
-          line: bp.line,
-          column: bp.column,
-        });
       } catch (error) {
         logger.log(`Failed to set breakpoint at ${path}:${bp.line} - ${error}`);
+        // Code for the file could be loaded later
+        if (!this.sourceMap.hasSourceLocations(path)) {
+          pending.push({ id, breakpoint: bp });
+        }
         resultBreakpoints.push({
-          id: this.bpId++,
+          id,
           verified: false,
           line: bp.line,
           column: bp.column,
-          message: `Cannot set breakpoint: ${error}`,
+          message: `Cannot set breakpoint: ${error instanceof Error ? error.message : error}`,
         });
       }
     }
@@ -148,6 +512,181 @@ export class BreakpointManager {
     return resultBreakpoints;
   }
 
+  /**
+   * Sets source breakpoints in files which had no code loaded when they were added, now that a module with their
+   * code has been loaded.
+   *
+   * @returns Breakpoints which are now verified, to update in the client
+   */
+  public resolvePendingBreakpoints(): DebugProtocol.Breakpoint[] {
+    const resolved: DebugProtocol.Breakpoint[] = [];
+    for (const [path, pending] of this.pendingSourceBreakpoints) {
+      if (!pending.length || !this.sourceMap.hasSourceLocations(path)) {
+        continue;
+      }
+      this.pendingSourceBreakpoints.set(path, []);
+      for (const { id, breakpoint } of pending) {
+        try {
+          resolved.push(this.addSourceBreakpoint(path, breakpoint, id, 0));
+        } catch (error) {
+          logger.log(
+            `Failed to set breakpoint at ${path}:${breakpoint.line} - ${error}`,
+          );
+        }
+      }
+    }
+    return resolved;
+  }
+
+  /**
+   * Moves breakpoints to their locations in a reloaded program, keeping their IDs and hit counts.
+   *
+   * Source and function breakpoints are looked up again in the new source map. Others are set at fixed addresses,
+   * and stay where they are, except data and copper breakpoints in the old program's memory. These are removed and
+   * reported as unverified, as the memory was freed.
+   *
+   * @param sourceMap Source map of the reloaded program
+   * @param evaluateManager Evaluate manager for the reloaded program
+   * @param freed Memory ranges of the old program
+   * @returns Breakpoints with updated state to send to the client
+   */
+  public relocate(
+    sourceMap: SourceMap,
+    evaluateManager: EvaluateManager,
+    freed: Array<{ address: number; size: number }> = [],
+  ): DebugProtocol.Breakpoint[] {
+    this.clearTmpBreakpoints();
+    // Remove everything first, in case a new address is shared with an old one
+    for (const refs of this.sourceBreakpoints.values()) {
+      for (const ref of refs) {
+        this.vAmiga.removeBreakpoint(ref.address);
+      }
+    }
+    for (const ref of this.functionBreakpoints) {
+      this.vAmiga.removeBreakpoint(ref.address);
+    }
+    this.sourceMap = sourceMap;
+    this.evaluateManager = evaluateManager;
+
+    const changed: DebugProtocol.Breakpoint[] = [];
+    for (const [path, refs] of this.sourceBreakpoints) {
+      const relocated: BreakpointRef[] = [];
+      for (const ref of refs) {
+        try {
+          const { address } = sourceMap.lookupSourceLine(path, ref.line ?? 0);
+          relocated.push({ ...ref, address });
+          this.vAmiga.setBreakpoint(address);
+          changed.push({
+            id: ref.id,
+            verified: true,
+            line: ref.line,
+            instructionReference: formatHex(address),
+          });
+        } catch (error) {
+          changed.push({
+            id: ref.id,
+            verified: false,
+            line: ref.line,
+            message: `Cannot set breakpoint: ${error instanceof Error ? error.message : error}`,
+          });
+        }
+      }
+      this.sourceBreakpoints.set(path, relocated);
+    }
+
+    const functionBreakpoints = this.functionBreakpoints;
+    this.functionBreakpoints = [];
+    for (const ref of functionBreakpoints) {
+      const address = ref.name ? sourceMap.getSymbols()[ref.name] : undefined;
+      if (address !== undefined) {
+        this.functionBreakpoints.push({ ...ref, address });
+        this.vAmiga.setBreakpoint(address);
+        changed.push({ id: ref.id, verified: true });
+      } else {
+        changed.push({
+          id: ref.id,
+          verified: false,
+          message: `Symbol '${ref.name}' not found`,
+        });
+      }
+    }
+
+    const isFreed = (address: number, size = 1) =>
+      freed.some(
+        (r) => address < r.address + r.size && address + size > r.address,
+      );
+    const unverified = (ref: BreakpointRef) => ({
+      id: ref.id,
+      verified: false,
+      message: `Memory at ${formatHex(ref.address)} was freed when the program was reloaded`,
+    });
+    const dataBreakpoints = this.dataBreakpoints;
+    this.dataBreakpoints = dataBreakpoints.filter(
+      (ref) => !isFreed(ref.address, ref.size),
+    );
+    for (const ref of dataBreakpoints) {
+      if (isFreed(ref.address, ref.size)) {
+        this.vAmiga.removeWatchpoint(ref.address);
+        changed.push(unverified(ref));
+      }
+    }
+    const copperBreakpoints = this.copperBreakpoints;
+    this.copperBreakpoints = copperBreakpoints.filter(
+      (ref) => !isFreed(ref.address),
+    );
+    for (const ref of copperBreakpoints) {
+      if (isFreed(ref.address)) {
+        if (!this.hasCopperBreakpoint(ref.address)) {
+          this.vAmiga.removeCopperBreakpoint(ref.address);
+        }
+        changed.push(unverified(ref));
+      }
+    }
+
+    changed.push(...this.resolvePendingBreakpoints());
+    return changed;
+  }
+
+  /**
+   * Sets a source breakpoint in the emulator and adds it to the file's breakpoints.
+   *
+   * @throws Error if the condition is invalid or the line has no code
+   */
+  private addSourceBreakpoint(
+    path: string,
+    bp: DebugProtocol.SourceBreakpoint,
+    id: number,
+    hitCount: number,
+  ): DebugProtocol.Breakpoint {
+    this.validateCondition(bp.condition);
+    const hitCondition = this.parseHitCondition(bp.hitCondition);
+    const location = this.sourceMap.lookupSourceLine(path, bp.line);
+    const address = location.address;
+    const instructionReference = formatHex(address);
+
+    this.sourceBreakpoints.get(path)?.push({
+      id,
+      address,
+      condition: bp.condition,
+      logMessage: bp.logMessage,
+      hitCondition,
+      hitCount,
+      line: bp.line,
+    });
+    this.vAmiga.setBreakpoint(address);
+    logger.log(
+      `Breakpoint #${id} at ${path}:${bp.line} set at ${instructionReference}`,
+    );
+
+    return {
+      id,
+      instructionReference,
+      verified: true,
+      line: bp.line,
+      column: bp.column,
+    };
+  }
+
   /**
    * Sets instruction breakpoints at memory addresses
    */
@@ -159,7 +698,7 @@ export class BreakpointManager {
       logger.log(
         `Instruction breakpoint #${ref.id} removed at ${formatHex(ref.address)}`,
       );
-      this.vAmiga.removeBreakpoint(ref.address);
+      this.removeUserBreakpoint(ref.address);
     }
     this.instructionBreakpoints = [];
 
@@ -169,10 +708,29 @@ export class BreakpointManager {
     for (const bp of breakpoints) {
       const address = Number(bp.instructionReference) + (bp.offset ?? 0);
       const id = this.bpId++;
-      const ignores = this.parseHitCondition(bp.hitCondition);
 
-      this.instructionBreakpoints.push({ id, address });
-      this.vAmiga.setBreakpoint(address, ignores);
+      let hitCondition: HitCondition | undefined;
+      try {
+        this.validateCondition(bp.condition);
+        hitCondition = this.parseHitCondition(bp.hitCondition);
+      } catch (error) {
+        resultBreakpoints.push({
+          id,
+          verified: false,
+          message: `Cannot set breakpoint: ${error instanceof Error ? error.message : error}`,
+          ...bp,
+        });
+        continue;
+      }
+
+      this.instructionBreakpoints.push({
+        id,
+        address,
+        condition: bp.condition,
+        hitCondition,
+        hitCount: 0,
+      });
+      this.vAmiga.setBreakpoint(address);
       logger.log(
         `Instruction breakpoint #${id} set at ${bp.instructionReference}`,
       );
@@ -189,18 +747,36 @@ export class BreakpointManager {
 
   /**
    * Sets function breakpoints by symbol name
+   *
+   * Names in the form `copper <address>` set copper breakpoints, where the address can be any expression.
+   * Names in the form `beam <vpos>,<hpos>` set beamtraps.
    */
-  public setFunctionBreakpoints(
+  public async setFunctionBreakpoints(
     breakpoints: DebugProtocol.FunctionBreakpoint[],
-  ): DebugProtocol.Breakpoint[] {
+  ): Promise<DebugProtocol.Breakpoint[]> {
     // Remove existing
     for (const ref of this.functionBreakpoints) {
       logger.log(
         `Function breakpoint #${ref.id} removed at ${formatHex(ref.address)}`,
       );
-      this.vAmiga.removeBreakpoint(ref.address);
+      this.removeUserBreakpoint(ref.address);
     }
     this.functionBreakpoints = [];
+    const copperBreakpoints = this.copperBreakpoints;
+    this.copperBreakpoints = [];
+    for (const ref of copperBreakpoints) {
+      logger.log(
+        `Copper breakpoint #${ref.id} removed at ${formatHex(ref.address)}`,
+      );
+      if (!this.hasCopperBreakpoint(ref.address)) {
+        this.vAmiga.removeCopperBreakpoint(ref.address);
+      }
+    }
+    for (const ref of this.beamtraps) {
+      logger.log(`Beamtrap #${ref.id} removed`);
+      this.vAmiga.removeBeamtrap(ref.address >> 16, ref.address & 0xffff);
+    }
+    this.beamtraps = [];
 
     const resultBreakpoints: DebugProtocol.Breakpoint[] = [];
 
@@ -209,11 +785,52 @@ export class BreakpointManager {
       const id = this.bpId++;
       const address = this.sourceMap.getSymbols()?.[bp.name];
 
-      if (address) {
-        const ignores = this.parseHitCondition(bp.hitCondition);
+      let hitCondition: HitCondition | undefined;
+      try {
+        this.validateCondition(bp.condition);
+        hitCondition = this.parseHitCondition(bp.hitCondition);
+      } catch (error) {
+        resultBreakpoints.push({
+          id,
+          verified: false,
+          message: `Cannot set breakpoint: ${error instanceof Error ? error.message : error}`,
+          ...bp,
+        });
+        continue;
+      }
+
+      const copperMatch = bp.name.match(COPPER_BREAKPOINT_PATTERN);
+      if (copperMatch) {
+        resultBreakpoints.push(
+          await this.addCopperBreakpoint(id, copperMatch[1], bp, hitCondition),
+        );
+        continue;
+      }
+
+      const beamMatch = bp.name.match(BEAMTRAP_PATTERN);
+      if (beamMatch) {
+        resultBreakpoints.push(
+          await this.addBeamtrap(
+            id,
+            beamMatch[1].trim(),
+            beamMatch[2].trim(),
+            bp,
+            hitCondition,
+          ),
+        );
+        continue;
+      }
 
-        this.functionBreakpoints.push({ id, address });
-        this.vAmiga.setBreakpoint(address, ignores);
+      if (address) {
+        this.functionBreakpoints.push({
+          id,
+          address,
+          name: bp.name,
+          condition: bp.condition,
+          hitCondition,
+          hitCount: 0,
+        });
+        this.vAmiga.setBreakpoint(address);
         logger.log(
           `Function breakpoint #${id} set at ${formatHex(address)} for ${bp.name}`,
         );
@@ -230,6 +847,103 @@ export class BreakpointManager {
     return resultBreakpoints;
   }
 
+  /**
+   * Sets a copper breakpoint from a function breakpoint
+   *
+   * @param id Breakpoint ID
+   * @param expression Expression for copper instruction address
+   * @param bp Function breakpoint from client
+   * @param hitCondition Parsed hit condition
+   */
+  private async addCopperBreakpoint(
+    id: number,
+    expression: string,
+    bp: DebugProtocol.FunctionBreakpoint,
+    hitCondition?: HitCondition,
+  ): Promise<DebugProtocol.Breakpoint> {
+    try {
+      const value = await this.evaluateManager.evaluateNumber(expression);
+      if (value & 1) {
+        throw new Error(
+          `Copper instructions must be word aligned: ${formatHex(value)}`,
+        );
+      }
+      if (!this.hasCopperBreakpoint(value)) {
+        this.vAmiga.setCopperBreakpoint(value);
+      }
+      this.copperBreakpoints.push({
+        id,
+        address: value,
+        condition: bp.condition,
+        hitCondition,
+        hitCount: 0,
+      });
+      logger.log(`Copper breakpoint #${id} set at ${formatHex(value)}`);
+      return { id, verified: true, ...bp };
+    } catch (error) {
+      return {
+        id,
+        verified: false,
+        message: `Cannot set copper breakpoint: ${error instanceof Error ? error.message : error}`,
+        ...bp,
+      };
+    }
+  }
+
+  /**
+   * Sets a beamtrap from a function breakpoint
+   *
+   * @param id Breakpoint ID
+   * @param vposExpression Expression for vertical position
+   * @param hposExpression Expression for horizontal position
+   * @param bp Function breakpoint from client
+   * @param hitCondition Parsed hit condition
+   */
+  private async addBeamtrap(
+    id: number,
+    vposExpression: string,
+    hposExpression: string,
+    bp: DebugProtocol.FunctionBreakpoint,
+    hitCondition?: HitCondition,
+  ): Promise<DebugProtocol.Breakpoint> {
+    try {
+      const vpos = await this.evaluateManager.evaluateNumber(vposExpression);
+      const hpos = await this.evaluateManager.evaluateNumber(hposExpression);
+      if (vpos < 0 || vpos > MAX_VPOS) {
+        throw new Error(`Vertical position must be 0-${MAX_VPOS}`);
+      }
+      if (hpos < 0 || hpos > MAX_HPOS) {
+        throw new Error(
+          `Horizontal position must be 0-${formatHex(MAX_HPOS, 2)}`,
+        );
+      }
+      this.vAmiga.setBeamtrap(vpos, hpos);
+      this.beamtraps.push({
+        id,
+        address: (vpos << 16) | hpos,
+        condition: bp.condition,
+        hitCondition,
+        hitCount: 0,
+      });
+      logger.log(`Beamtrap #${id} set at ${vpos},${formatHex(hpos, 2)}`);
+      return { id, verified: true, ...bp };
+    } catch (error) {
+      return {
+        id,
+        verified: false,
+        message: `Cannot set beamtrap: ${error instanceof Error ? error.message : error}`,
+        ...bp,
+      };
+    }
+  }
+
+  /**
+   * Gets all user copper breakpoints
+   */
+  public getCopperBreakpoints(): BreakpointRef[] {
+    return this.copperBreakpoints;
+  }
+
   /**
    * Gets data breakpoint info for a variable
    */
@@ -244,6 +958,14 @@ export class BreakpointManager {
         canPersist: boolean;
       }
     | undefined {
+    if (scope === "custom" && name in customAddresses) {
+      return {
+        dataId: `custom:${name}`,
+        description: `Break on writes to ${name}`,
+        accessTypes: ["write"],
+        canPersist: true,
+      };
+    }
     // Handle variables that have memory references
     if (scope === "registers" || scope === "symbols") {
       // For registers and symbols, we can create data breakpoints
@@ -251,7 +973,7 @@ export class BreakpointManager {
       return {
         dataId,
         description: `Break on access to ${name}`,
-        accessTypes: ["readWrite"],
+        accessTypes: ["read", "write", "readWrite"],
         canPersist: false,
       };
     }
@@ -259,6 +981,11 @@ export class BreakpointManager {
 
   /**
    * Sets data breakpoints (watchpoints)
+   *
+   * The emulator stops on any access to a watched address, so the access type
+   * is checked when the watchpoint is hit. A condition which is just a value
+   * e.g. `$10` stops only when the value changes to it. Any other condition is
+   * evaluated as an expression.
    */
   public async setDataBreakpoints(
     breakpoints: DebugProtocol.DataBreakpoint[],
@@ -273,33 +1000,65 @@ export class BreakpointManager {
       this.vAmiga.removeWatchpoint(ref.address);
     }
     this.dataBreakpoints = [];
+    this.removeRegisterBreakpoints();
 
     const resultBreakpoints: DebugProtocol.Breakpoint[] = [];
 
     // Add new data breakpoints
     for (const bp of breakpoints) {
       try {
+        if (bp.dataId.startsWith("custom:")) {
+          resultBreakpoints.push(this.addRegisterBreakpoint(bp));
+          continue;
+        }
         let address: number | undefined;
+        let size = 4;
         const parts = bp.dataId.split(":");
+        const name = parts[1] ?? bp.dataId;
 
         if (parts.length === 2) {
-          const [type, name] = parts;
+          const [type] = parts;
           if (type === "registers") {
             const cpuInfo = await this.vAmiga.getCpuInfo();
             address = Number(cpuInfo[name as keyof CpuInfo]);
           } else if (type === "symbols") {
             const symbols = this.sourceMap.getSymbols();
             address = symbols?.[name];
+            const length = this.sourceMap.getSymbolLengths()?.[name];
+            if (length === 1 || length === 2) {
+              size = length;
+            }
           }
         }
 
         if (address !== undefined) {
           const id = this.bpId++;
-          const accessType = bp.accessType || "access";
-          this.dataBreakpoints.push({ id, address });
-          const ignores = this.parseHitCondition(bp.hitCondition);
+          const accessType = bp.accessType || "readWrite";
+          const hitCondition = this.parseHitCondition(bp.hitCondition);
+          const valueMatch = bp.condition?.match(VALUE_CONDITION_PATTERN);
+          const condition = valueMatch ? undefined : bp.condition?.trim();
+          if (condition) {
+            this.evaluateManager.validateCondition(condition);
+          }
+          const ref: DataBreakpointRef = {
+            id,
+            address,
+            name,
+            accessType,
+            size,
+            value: await this.readValue(address, size),
+            condition: condition || undefined,
+            hitCondition,
+            hitCount: 0,
+          };
+          if (valueMatch) {
+            const value = Number(valueMatch[1].replace("$", "0x"));
+            ref.changesTo =
+              size === 1 ? u8(value) : size === 2 ? u16(value) : u32(value);
+          }
+          this.dataBreakpoints.push(ref);
 
-          this.vAmiga.setWatchpoint(address, ignores);
+          this.vAmiga.setWatchpoint(address);
           logger.log(
             `Data breakpoint #${id} set at ${formatHex(address)} (${accessType})`,
           );
@@ -319,7 +1078,7 @@ export class BreakpointManager {
         resultBreakpoints.push({
           id: this.bpId++,
           verified: false,
-          message: `Error setting data breakpoint: ${error}`,
+          message: `Error setting data breakpoint: ${error instanceof Error ? error.message : error}`,
         });
       }
     }
@@ -327,11 +1086,62 @@ export class BreakpointManager {
     return resultBreakpoints;
   }
 
+  /**
+   * Adds a data breakpoint on writes to a custom register, with both CPU and copper watchpoints.
+   */
+  private addRegisterBreakpoint(
+    bp: DebugProtocol.DataBreakpoint,
+  ): DebugProtocol.Breakpoint {
+    const name = bp.dataId.replace("custom:", "");
+    const custom = customAddresses[name];
+    if (!custom) {
+      return {
+        id: this.bpId++,
+        verified: false,
+        message: `Unknown custom register ${name}`,
+      };
+    }
+    const condition = bp.condition?.trim();
+    if (condition) {
+      this.evaluateManager.validateCondition(condition);
+    }
+    const ref: RegisterBreakpointRef = {
+      id: this.bpId++,
+      address: custom.address,
+      name,
+      long: custom.long,
+      condition: condition || undefined,
+      hitCondition: this.parseHitCondition(bp.hitCondition),
+      hitCount: 0,
+    };
+    for (const address of registerWordAddresses(ref)) {
+      this.vAmiga.setWatchpoint(address);
+      this.vAmiga.setCopperWatchpoint(address);
+    }
+    this.registerBreakpoints.push(ref);
+    logger.log(`Register breakpoint #${ref.id} set on ${name}`);
+    return { id: ref.id, verified: true };
+  }
+
+  private removeRegisterBreakpoints(): void {
+    for (const ref of this.registerBreakpoints) {
+      for (const address of registerWordAddresses(ref)) {
+        this.vAmiga.removeWatchpoint(address);
+        this.vAmiga.removeCopperWatchpoint(address);
+      }
+    }
+    this.registerBreakpoints = [];
+  }
+
   /**
    * Sets exception breakpoints
+   *
+   * Filters are either a vector number or one of the conditional filters "trap" and "irq", where
+   * the condition from the filter options selects TRAP numbers or interrupt levels.
    */
   public setExceptionBreakpoints(
     filters: string[],
+    filterOptions: DebugProtocol.ExceptionFilterOptions[] = [],
   ): DebugProtocol.Breakpoint[] {
     for (const ref of this.exceptionBreakpoints) {
       this.vAmiga.removeCatchpoint(ref.address);
@@ -339,12 +1149,30 @@ export class BreakpointManager {
     this.exceptionBreakpoints = [];
 
     const breakpoints: DebugProtocol.Breakpoint[] = [];
+    const options: DebugProtocol.ExceptionFilterOptions[] = [
+      ...filters.map((filterId) => ({ filterId })),
+      ...filterOptions,
+    ];
 
-    for (const filter of filters) {
-      const vector = Number(filter);
+    for (const { filterId, condition } of options) {
       const id = this.bpId++;
-      this.vAmiga.setCatchpoint(vector);
-      this.exceptionBreakpoints.push({ id, address: vector });
+      let exceptionVectors: number[];
+      try {
+        exceptionVectors = filterVectors(filterId, condition);
+      } catch (err) {
+        breakpoints.push({
+          id,
+          verified: false,
+          message: err instanceof Error ? err.message : String(err),
+        });
+        continue;
+      }
+      for (const vector of exceptionVectors) {
+        if (!this.exceptionBreakpoints.some((bp) => bp.address === vector)) {
+          this.vAmiga.setCatchpoint(vector);
+        }
+        this.exceptionBreakpoints.push({ id, address: vector, hitCount: 0 });
+      }
       breakpoints.push({ id, verified: true });
     }
 
@@ -361,49 +1189,148 @@ export class BreakpointManager {
    * @param reason Description of why the breakpoint was set (e.g., "step", "entry")
    */
   public setTmpBreakpoint(address: number, reason: string): void {
-    const existing = this.findSourceBreakpoint(address);
-    if (existing) {
-      logger.log(`Breakpoint already exists at ${formatHex(address)}`);
-      return;
-    }
     logger.log(
       `Setting temporary breakpoint at ${formatHex(address)} (${reason})`,
     );
     this.tmpBreakpoints.push({ address, reason });
+    // A user breakpoint at this address will already stop the emulator.
+    // The tmp breakpoint is still tracked so that it takes precedence over any condition.
+    if (this.findUserBreakpoint(address)) {
+      logger.log(`Breakpoint already exists at ${formatHex(address)}`);
+      return;
+    }
     this.vAmiga.setBreakpoint(address);
   }
 
+  /**
+   * Sets a temporary beamtrap, to limit how long a step operation can run.
+   *
+   * Temporary beamtraps are removed along with temporary breakpoints when either is hit.
+   *
+   * @param vpos Vertical beam position
+   * @param hpos Horizontal beam position in color clocks
+   * @param reason Description of why the beamtrap was set
+   */
+  public setTmpBeamtrap(vpos: number, hpos: number, reason: string): void {
+    const address = (vpos << 16) | hpos;
+    logger.log(`Setting temporary beamtrap at ${vpos},${hpos} (${reason})`);
+    this.tmpBeamtraps.push({ address, reason });
+    if (!this.beamtraps.some((bp) => bp.address === address)) {
+      this.vAmiga.setBeamtrap(vpos, hpos);
+    }
+  }
+
+  /**
+   * Removes all temporary breakpoints and beamtraps e.g. when a step operation is stopped by something else.
+   */
+  public clearTmpBreakpoints(): void {
+    for (const tmp of this.tmpBreakpoints) {
+      if (!this.findUserBreakpoint(tmp.address)) {
+        this.vAmiga.removeBreakpoint(tmp.address);
+      }
+    }
+    this.tmpBreakpoints = [];
+    for (const tmp of this.tmpBeamtraps) {
+      if (!this.beamtraps.some((bp) => bp.address === tmp.address)) {
+        this.vAmiga.removeBeamtrap(tmp.address >> 16, tmp.address & 0xffff);
+      }
+    }
+    this.tmpBeamtraps = [];
+  }
+
+  /**
+   * Sets a temporary copper breakpoint at the specified address.
+   *
+   * Used for copper single stepping. All temporary copper breakpoints are removed
+   * when any of them is hit.
+   *
+   * @param address Memory address of the copper instruction
+   * @param reason Description of why the breakpoint was set
+   */
+  public setTmpCopperBreakpoint(address: number, reason: string): void {
+    logger.log(
+      `Setting temporary copper breakpoint at ${formatHex(address)} (${reason})`,
+    );
+    if (!this.hasCopperBreakpoint(address)) {
+      this.vAmiga.setCopperBreakpoint(address);
+    }
+    this.tmpCopperBreakpoints.push({ address, reason });
+  }
+
   /**
    * Handles a breakpoint stop event from the emulator
    */
-  public handleBreakpointStop(message: StopMessage): BreakpointStopResult {
+  public async handleBreakpointStop(
+    message: StopMessage,
+  ): Promise<BreakpointStopResult> {
     let bpMatch: BreakpointRef | undefined;
 
     if (message.name === "WATCHPOINT_REACHED") {
       const result: BreakpointStopResult = {
         reason: "data breakpoint",
       };
-      bpMatch = this.dataBreakpoints.find(
+      const registerMatch = this.registerBreakpoints.find((bp) =>
+        registerWordAddresses(bp).includes(message.payload.pc),
+      );
+      if (registerMatch) {
+        return this.evaluateRegisterHit(registerMatch, false);
+      }
+      const dataMatch = this.dataBreakpoints.find(
         (bp) => bp.address === message.payload.pc,
       );
-      if (bpMatch) {
-        result.hitBreakpointIds = [bpMatch.id];
+      if (dataMatch) {
+        return this.evaluateDataHit(dataMatch, result);
       }
       return result;
     }
 
     if (message.name === "CATCHPOINT_REACHED") {
-      const result: BreakpointStopResult = {
-        reason: "exception",
-      };
-      result.text = exceptionBreakpointFilters.find(
-        (f) => Number(f.filter) === message.payload.vector,
-      )?.label;
-      bpMatch = this.exceptionBreakpoints.find(
-        (bp) => bp.address === message.payload.vector,
+      return this.handleCatchpointStop(message.payload.vector);
+    }
+
+    if (message.name === "COPPERWP_REACHED") {
+      // Copper moves address registers by offset from the custom chip base
+      const offset = message.payload.pc & 0x1fe;
+      const registerMatch = this.registerBreakpoints.find((bp) =>
+        registerWordAddresses(bp).some(
+          (address) => (address & 0x1fe) === offset,
+        ),
       );
+      if (registerMatch) {
+        return this.evaluateRegisterHit(registerMatch, true);
+      }
+      return { reason: "data breakpoint" };
+    }
+
+    if (message.name === "COPPERBP_REACHED") {
+      return this.handleCopperBreakpointStop(message.payload.pc);
+    }
+
+    if (message.name === "BEAMTRAP_REACHED") {
+      const position = message.payload.pc;
+      const text = `Beam position ${position >> 16},${formatHex(position & 0xffff, 2)}`;
+      const tmpMatch = this.tmpBeamtraps.find((bp) => bp.address === position);
+      // A user beamtrap at the same position takes precedence over the step limit, which ends the step either way
+      const bpMatch = this.beamtraps.find((bp) => bp.address === position);
+      let result: BreakpointStopResult = { reason: "beamtrap", text };
       if (bpMatch) {
-        result.hitBreakpointIds = [bpMatch.id];
+        result = await this.evaluateHit(bpMatch, {
+          ...result,
+          hitBreakpointIds: [bpMatch.id],
+        });
+      }
+      if (tmpMatch) {
+        logger.log(`Matched tmp beamtrap at ${formatHex(position)}`);
+        this.clearTmpBreakpoints();
+        if (!bpMatch || result.resume) {
+          return {
+            reason: tmpMatch.reason,
+            output: [result.output, "Step did not complete within a frame"]
+              .filter((line) => line !== undefined)
+              .join("\n"),
+            changedBreakpoints: result.changedBreakpoints,
+          };
+        }
       }
       return result;
     }
@@ -418,10 +1345,7 @@ export class BreakpointManager {
         logger.log(
           `Matched tmp breakpoint at ${formatHex(message.payload.pc)}`,
         );
-        this.vAmiga.removeBreakpoint(tmpMatch.address);
-        this.tmpBreakpoints = this.tmpBreakpoints.filter(
-          (bp) => bp.address !== message.payload.pc,
-        );
+        this.clearTmpBreakpoints();
         return {
           reason: tmpMatch.reason,
         };
@@ -431,10 +1355,10 @@ export class BreakpointManager {
           (bp) => bp.address === message.payload.pc,
         );
         if (bpMatch) {
-          return {
+          return this.evaluateHit(bpMatch, {
             reason: "instruction breakpoint",
             hitBreakpointIds: [bpMatch.id],
-          };
+          });
         }
 
         // check function breakpoints
@@ -442,19 +1366,19 @@ export class BreakpointManager {
           (bp) => bp.address === message.payload.pc,
         );
         if (bpMatch) {
-          return {
+          return this.evaluateHit(bpMatch, {
             reason: "function breakpoint",
             hitBreakpointIds: [bpMatch.id],
-          };
+          });
         }
 
         // check source breakpoints
         bpMatch = this.findSourceBreakpoint(message.payload.pc);
         if (bpMatch) {
-          return {
+          return this.evaluateHit(bpMatch, {
             reason: "breakpoint",
             hitBreakpointIds: [bpMatch.id],
-          };
+          });
         }
       }
     }
@@ -465,6 +1389,310 @@ export class BreakpointManager {
     };
   }
 
+  /**
+   * Handles the copper reaching a breakpoint.
+   *
+   * The stop text includes the beam position, as this is generally more useful than the CPU location.
+   *
+   * @param address Address of copper instruction
+   */
+  private async handleCopperBreakpointStop(
+    address: number,
+  ): Promise<BreakpointStopResult> {
+    let text = `Copper at ${formatHex(address, 6)}`;
+    try {
+      const { vpos, hpos } = await this.vAmiga.getBeamPosition();
+      text += `, beam position ${vpos},${formatHex(hpos, 2)}`;
+    } catch (error) {
+      logger.log(`Failed to get beam position: ${error}`);
+    }
+
+    const tmpMatch = this.tmpCopperBreakpoints.find(
+      (bp) => bp.address === address,
+    );
+    if (tmpMatch) {
+      // Remove all tmp copper breakpoints - only one of the possible next instructions will be reached
+      const tmpBreakpoints = this.tmpCopperBreakpoints;
+      this.tmpCopperBreakpoints = [];
+      for (const tmp of tmpBreakpoints) {
+        if (!this.hasCopperBreakpoint(tmp.address)) {
+          this.vAmiga.removeCopperBreakpoint(tmp.address);
+        }
+      }
+      return { reason: tmpMatch.reason, text };
+    }
+
+    const bpMatch = this.copperBreakpoints.find((bp) => bp.address === address);
+    if (bpMatch) {
+      return this.evaluateHit(bpMatch, {
+        reason: "copper breakpoint",
+        text,
+        hitBreakpointIds: [bpMatch.id],
+      });
+    }
+    return { reason: "copper breakpoint", text };
+  }
+
+  /**
+   * Determines the outcome of hitting a user breakpoint, based on its condition, hit count and log message.
+   *
+   * If the condition is false, the result is flagged to resume execution.
+   * Evaluation errors stop the emulator and are reported in the stop text.
+   * Hits where the condition is met are counted, and the hit condition is checked against the new count.
+   * Logpoints produce console output and always resume.
+   *
+   * @param ref Breakpoint which was hit
+   * @param result Stop result to return if the breakpoint should stop
+   */
+  private async evaluateHit(
+    ref: BreakpointRef,
+    result: BreakpointStopResult,
+  ): Promise<BreakpointStopResult> {
+    if (ref.condition) {
+      try {
+        const matched = await this.evaluateManager.evaluateCondition(
+          ref.condition,
+        );
+        if (!matched) {
+          logger.log(
+            `Breakpoint #${ref.id} condition '${ref.condition}' not met - resuming`,
+          );
+          return { ...result, resume: true };
+        }
+      } catch (error) {
+        return {
+          ...result,
+          text: `Error evaluating condition '${ref.condition}': ${error instanceof Error ? error.message : error}`,
+        };
+      }
+    }
+
+    ref.hitCount++;
+    result = {
+      ...result,
+      changedBreakpoints: [
+        {
+          id: ref.id,
+          verified: true,
+          line: ref.line,
+          message: `Hit count: ${ref.hitCount}`,
+        },
+      ],
+    };
+    if (
+      ref.hitCondition &&
+      !this.matchesHitCondition(ref.hitCondition, ref.hitCount)
+    ) {
+      logger.log(
+        `Breakpoint #${ref.id} hit count ${ref.hitCount} doesn't match condition - resuming`,
+      );
+      return { ...result, resume: true };
+    }
+
+    if (ref.logMessage) {
+      const output = await this.formatLogMessage(ref.logMessage);
+      return { ...result, output, resume: true };
+    }
+    return result;
+  }
+
+  /**
+   * Handles an exception catchpoint.
+   *
+   * The PC has already moved to the exception handler, so the faulting address
+   * is taken from the last instruction in the emulator's CPU log. The stack frame
+   * pushed by the CPU is read before the handler can change it.
+   */
+  private async handleCatchpointStop(
+    vector: number,
+  ): Promise<BreakpointStopResult> {
+    const result: BreakpointStopResult = {
+      reason: "exception",
+      text: exceptionName(vector),
+    };
+    try {
+      const [lastInstruction] = await this.vAmiga.getCpuTrace(1);
+      if (lastInstruction) {
+        const address = parseInt(lastInstruction.pc, 16);
+        result.exceptionInstruction = {
+          address,
+          isSupervisor: lastInstruction.flags.includes("S"),
+        };
+        result.text += ` at ${formatAddress(address, this.sourceMap)}`;
+      }
+    } catch (error) {
+      logger.log(`Failed to get faulting instruction: ${error}`);
+    }
+    try {
+      result.exceptionFrame = await readExceptionFrame(this.vAmiga, vector);
+    } catch (error) {
+      logger.log(`Failed to read exception frame: ${error}`);
+    }
+    const bpMatch = this.exceptionBreakpoints.find(
+      (bp) => bp.address === vector,
+    );
+    if (bpMatch) {
+      result.hitBreakpointIds = [bpMatch.id];
+    }
+    return result;
+  }
+
+  /**
+   * Checks whether a data breakpoint hit matches its access type and value condition.
+   *
+   * The accessing instruction is the last one in the emulator's CPU log. Where
+   * it can't be decoded, an access which changes the value is assumed to be a
+   * write, and any other access a read.
+   *
+   * @param ref Data breakpoint which was hit
+   * @param result Stop result to return if the breakpoint should stop
+   */
+  private async evaluateDataHit(
+    ref: DataBreakpointRef,
+    result: BreakpointStopResult,
+  ): Promise<BreakpointStopResult> {
+    const oldValue = ref.value;
+    const newValue = await this.readValue(ref.address, ref.size);
+    ref.value = newValue;
+    const changed = newValue !== oldValue;
+
+    let pc: number | undefined;
+    let access: InstructionAccess | undefined;
+    try {
+      const [lastInstruction] = await this.vAmiga.getCpuTrace(1);
+      if (lastInstruction) {
+        pc = parseInt(lastInstruction.pc, 16);
+        access = instructionAccess(lastInstruction.instruction);
+      }
+    } catch (error) {
+      logger.log(`Failed to get accessing instruction: ${error}`);
+    }
+    access ??= { read: !changed, write: changed };
+
+    const matchesAccess =
+      ref.accessType === "read"
+        ? access.read
+        : ref.accessType === "write"
+          ? access.write
+          : true;
+    if (!matchesAccess) {
+      logger.log(
+        `Data breakpoint #${ref.id} access doesn't match ${ref.accessType} - resuming`,
+      );
+      return { ...result, resume: true };
+    }
+    if (
+      ref.changesTo !== undefined &&
+      (!changed || newValue !== ref.changesTo)
+    ) {
+      logger.log(
+        `Data breakpoint #${ref.id} value didn't change to ${formatHex(ref.changesTo, ref.size * 2)} - resuming`,
+      );
+      return { ...result, resume: true };
+    }
+
+    const accessName =
+      access.read && access.write
+        ? "Read/write"
+        : access.write
+          ? "Write"
+          : "Read";
+    let text = `${accessName} ${ref.name}: ${formatHex(oldValue, ref.size * 2)}`;
+    if (changed) {
+      text += ` -> ${formatHex(newValue, ref.size * 2)}`;
+    }
+    if (pc !== undefined) {
+      text += ` at ${formatAddress(pc, this.sourceMap)}`;
+    }
+    return this.evaluateHit(ref, {
+      ...result,
+      text,
+      hitBreakpointIds: [ref.id],
+    });
+  }
+
+  /**
+   * Creates the stop result for a write to a watched custom register.
+   *
+   * The stop text names the register, and decodes its new value where a
+   * parser is available.
+   *
+   * @param ref Register breakpoint which was hit
+   * @param byCopper Whether the register was written by the copper rather than the CPU
+   */
+  private async evaluateRegisterHit(
+    ref: RegisterBreakpointRef,
+    byCopper: boolean,
+  ): Promise<BreakpointStopResult> {
+    const registers = await this.vAmiga.getAllCustomRegisters();
+    const value = Number(registers[ref.name]?.value ?? 0);
+
+    let text = `${ref.name} written`;
+    try {
+      if (byCopper) {
+        const copper = await this.vAmiga.getCopperInfo();
+        text += ` by copper at ${formatHex(Number(copper.coppc0))}`;
+      } else {
+        const [lastInstruction] = await this.vAmiga.getCpuTrace(1);
+        if (lastInstruction) {
+          const pc = parseInt(lastInstruction.pc, 16);
+          text += ` at ${formatAddress(pc, this.sourceMap)}`;
+        }
+      }
+    } catch (error) {
+      logger.log(`Failed to get writing instruction: ${error}`);
+    }
+    text += ": " + formatRegisterValue(ref, value, this.sourceMap);
+
+    return this.evaluateHit(ref, {
+      reason: "data breakpoint",
+      text,
+      hitBreakpointIds: [ref.id],
+    });
+  }
+
+  /**
+   * Reads an unsigned value of 1, 2 or 4 bytes from memory.
+   */
+  private async readValue(address: number, size: number): Promise<number> {
+    if (size === 1) {
+      return this.vAmiga.peek8(address);
+    } else if (size === 2) {
+      return this.vAmiga.peek16(address);
+    }
+    return this.vAmiga.peek32(address);
+  }
+
+  /**
+   * Replaces `{expression}` placeholders in a logpoint message with their evaluated values.
+   *
+   * Expressions which fail to evaluate are replaced with the error message, so that a
+   * bad placeholder doesn't prevent the rest of the message from being logged.
+   *
+   * @param logMessage Message template from the logpoint
+   * @returns Interpolated message
+   */
+  private async formatLogMessage(logMessage: string): Promise<string> {
+    let output = "";
+    for (const segment of logMessage.split(/(\{[^{}]*\})/)) {
+      const match = segment.match(/^\{([^{}]*)\}$/);
+      if (!match) {
+        output += segment;
+        continue;
+      }
+      try {
+        const { result } = await this.evaluateManager.evaluateFormatted({
+          expression: match[1],
+          context: "repl",
+        });
+        output += result;
+      } catch (error) {
+        output += `<${error instanceof Error ? error.message : error}>`;
+      }
+    }
+    return output;
+  }
+
   /**
    * Gets temporary breakpoints (for testing/debugging)
    */
@@ -483,6 +1711,7 @@ export class BreakpointManager {
       }
     }
     this.sourceBreakpoints.clear();
+    this.pendingSourceBreakpoints.clear();
 
     // Clear instruction breakpoints
     for (const ref of this.instructionBreakpoints) {
@@ -502,17 +1731,90 @@ export class BreakpointManager {
     }
     this.dataBreakpoints = [];
 
+    this.removeRegisterBreakpoints();
+
     // Clear exception breakpoints
     for (const ref of this.exceptionBreakpoints) {
       this.vAmiga.removeCatchpoint(ref.address);
     }
     this.exceptionBreakpoints = [];
 
+    // Clear copper breakpoints
+    for (const ref of this.copperBreakpoints) {
+      this.vAmiga.removeCopperBreakpoint(ref.address);
+    }
+    this.copperBreakpoints = [];
+
+    // Clear beamtraps
+    for (const ref of this.beamtraps) {
+      this.vAmiga.removeBeamtrap(ref.address >> 16, ref.address & 0xffff);
+    }
+    this.beamtraps = [];
+
     // Clear temporary breakpoints
     for (const tmp of this.tmpBreakpoints) {
       this.vAmiga.removeBreakpoint(tmp.address);
     }
     this.tmpBreakpoints = [];
+    for (const tmp of this.tmpBeamtraps) {
+      this.vAmiga.removeBeamtrap(tmp.address >> 16, tmp.address & 0xffff);
+    }
+    this.tmpBeamtraps = [];
+    for (const tmp of this.tmpCopperBreakpoints) {
+      this.vAmiga.removeCopperBreakpoint(tmp.address);
+    }
+    this.tmpCopperBreakpoints = [];
+  }
+
+  /**
+   * Checks whether a user or temporary copper breakpoint is set in the emulator at an address.
+   */
+  private hasCopperBreakpoint(address: number): boolean {
+    return (
+      this.copperBreakpoints.some((bp) => bp.address === address) ||
+      this.tmpCopperBreakpoints.some((bp) => bp.address === address)
+    );
+  }
+
+  /**
+   * Checks whether any of the specified breakpoints is still set.
+   *
+   * @param ids Breakpoint IDs, as reported in a stop
+   */
+  public hasBreakpoint(ids: number[]): boolean {
+    const all: BreakpointRef[][] = [
+      ...this.sourceBreakpoints.values(),
+      this.instructionBreakpoints,
+      this.exceptionBreakpoints,
+      this.dataBreakpoints,
+      this.registerBreakpoints,
+      this.functionBreakpoints,
+      this.copperBreakpoints,
+      this.beamtraps,
+    ];
+    return all.some((bps) => bps.some((bp) => ids.includes(bp.id)));
+  }
+
+  /**
+   * Finds a source, instruction or function breakpoint at the specified address.
+   */
+  private findUserBreakpoint(address: number): BreakpointRef | undefined {
+    return (
+      this.findSourceBreakpoint(address) ??
+      this.instructionBreakpoints.find((bp) => bp.address === address) ??
+      this.functionBreakpoints.find((bp) => bp.address === address)
+    );
+  }
+
+  /**
+   * Removes a user breakpoint from the emulator, unless a step in progress still needs it for a temporary breakpoint.
+   */
+  private removeUserBreakpoint(address: number): void {
+    if (this.tmpBreakpoints.some((tmp) => tmp.address === address)) {
+      logger.log(`Keeping temporary breakpoint at ${formatHex(address)}`);
+      return;
+    }
+    this.vAmiga.removeBreakpoint(address);
   }
 
   /**
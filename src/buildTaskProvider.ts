@@ -0,0 +1,389 @@
+import * as vscode from "vscode";
+import { ChildProcess, spawn } from "child_process";
+import { mkdir } from "fs/promises";
+import * as path from "path";
+
+/**
+ * Toolchains the build task can run: vasm and vlink for assembly, or Bartman's m68k-amiga-elf-gcc for C.
+ */
+export type Toolchain = "vasm" | "gcc";
+
+/**
+ * Build settings in a launch configuration
+ */
+export interface BuildOptions {
+  /** Toolchain to build with, defaults to vasm */
+  toolchain?: Toolchain;
+  /** Source files to assemble or compile */
+  sources: string[];
+  /** Include search paths */
+  includePaths?: string[];
+  /** Extra arguments for the assembler or compiler */
+  args?: string[];
+  /** Extra arguments for the linker */
+  linkerArgs?: string[];
+}
+
+/**
+ * Definition of a `vamiga` task in tasks.json
+ */
+export interface BuildTaskDefinition
+  extends vscode.TaskDefinition,
+    BuildOptions {
+  /** Executable to build, as loaded by the emulator */
+  output: string;
+  /** Separate build with debug symbols */
+  debugOutput?: string;
+  /** Target CPU, as in `emulatorOptions.cpuRevision` */
+  cpu?: string;
+}
+
+/**
+ * A single program to run as part of a build
+ */
+export interface BuildCommand {
+  command: string;
+  args: string[];
+}
+
+/** Problem matchers for the output of each toolchain, contributed in package.json */
+const PROBLEM_MATCHERS: Record<Toolchain, string[]> = {
+  vasm: ["$vasm", "$vlink"],
+  gcc: ["$m68k-gcc"],
+};
+
+/**
+ * Gets the build task definition for a launch configuration with build settings.
+ *
+ * The output paths and target CPU come from the launch configuration, so the build always matches what's debugged.
+ *
+ * @param config Launch configuration
+ * @returns Task definition, or undefined if the configuration has no `build` settings
+ */
+export function buildTaskDefinition(
+  config: vscode.DebugConfiguration,
+): BuildTaskDefinition | undefined {
+  const build: BuildOptions | undefined = config.build;
+  if (!build) {
+    return undefined;
+  }
+  return {
+    ...build,
+    type: BuildTaskProvider.type,
+    output: config.program,
+    debugOutput: config.debugProgram,
+    cpu: config.emulatorOptions?.cpuRevision,
+  };
+}
+
+/**
+ * Resolves a path from a task definition against the workspace folder.
+ *
+ * VS Code substitutes variables in task definitions it runs, but not in launch configurations read to provide tasks,
+ * so `${workspaceFolder}` is substituted here too.
+ */
+function resolvePath(cwd: string, p: string): string {
+  return path.resolve(cwd, p.replace(/\$\{workspaceFolder\}/g, cwd));
+}
+
+/**
+ * Gets the absolute paths a build writes to.
+ *
+ * Without a separate debug output, gcc links to an ELF file next to the output, to convert to hunks.
+ */
+function outputPaths(
+  definition: BuildTaskDefinition,
+  cwd: string,
+): { output: string; debugOutput?: string; objDir: string } {
+  const output = resolvePath(cwd, definition.output);
+  let debugOutput = definition.debugOutput
+    ? resolvePath(cwd, definition.debugOutput)
+    : undefined;
+  if (!debugOutput && definition.toolchain === "gcc") {
+    debugOutput = output.replace(/(\.[^./\\]*)?$/, ".elf");
+  }
+  return {
+    output,
+    debugOutput,
+    objDir: path.join(path.dirname(output), "obj"),
+  };
+}
+
+/**
+ * Gets the object file path for a source.
+ *
+ * The source's directory relative to the working directory is kept under the object directory, so sources with the
+ * same name in different directories don't overwrite each other. Parent directory segments are renamed to stay inside it.
+ */
+function objectPath(source: string, objDir: string, cwd: string): string {
+  const segments = path
+    .relative(cwd, resolvePath(cwd, source))
+    .split(path.sep)
+    .map((segment) => (segment === ".." ? "__" : segment));
+  return path.join(objDir, ...segments).replace(/(\.[^./\\]*)?$/, ".o");
+}
+
+/**
+ * Gets the directories a build writes to, which need to exist before it runs.
+ */
+function outputDirectories(
+  definition: BuildTaskDefinition,
+  cwd: string,
+): string[] {
+  const { output, debugOutput, objDir } = outputPaths(definition, cwd);
+  const directories = [
+    ...definition.sources.map((source) =>
+      path.dirname(objectPath(source, objDir, cwd)),
+    ),
+    path.dirname(output),
+  ];
+  if (debugOutput) {
+    directories.push(path.dirname(debugOutput));
+  }
+  return directories;
+}
+
+/**
+ * Gets the commands to build a program, in the order to run them.
+ *
+ * Each source is assembled or compiled to an object file under an `obj` directory next to the output, and these are
+ * linked to the output. With a separate debug output, the debug build keeps its symbols and the output is stripped.
+ * Bartman's gcc links to ELF, which is converted to a hunk executable with elf2hunk.
+ *
+ * @param definition Build task definition
+ * @param cwd Directory to resolve relative paths against
+ */
+export function buildCommands(
+  definition: BuildTaskDefinition,
+  cwd: string,
+): BuildCommand[] {
+  const toolchain = definition.toolchain ?? "vasm";
+  const { output, debugOutput, objDir } = outputPaths(definition, cwd);
+  const cpu = "-m" + (definition.cpu ?? "68000").replace(/^fake_/, "");
+  const includes = (definition.includePaths ?? []).map(
+    (p) => "-I" + resolvePath(cwd, p),
+  );
+  const args = definition.args ?? [];
+  const linkerArgs = definition.linkerArgs ?? [];
+  const commands: BuildCommand[] = [];
+  const objects: string[] = [];
+
+  for (const source of definition.sources) {
+    const object = objectPath(source, objDir, cwd);
+    objects.push(object);
+    const sourcePath = resolvePath(cwd, source);
+    if (toolchain === "gcc") {
+      commands.push({
+        command: "m68k-amiga-elf-gcc",
+        args: ["-c", "-g", cpu, ...includes, ...args, "-o", object, sourcePath],
+      });
+    } else {
+      commands.push({
+        command: "vasmm68k_mot",
+        args: [
+          "-Fhunk",
+          "-linedebug",
+          "-quiet",
+          cpu,
+          ...includes,
+          ...args,
+          "-o",
+          object,
+          sourcePath,
+        ],
+      });
+    }
+  }
+
+  if (toolchain === "gcc" && debugOutput) {
+    commands.push(
+      {
+        command: "m68k-amiga-elf-gcc",
+        args: ["-g", cpu, ...linkerArgs, "-o", debugOutput, ...objects],
+      },
+      { command: "elf2hunk", args: [debugOutput, output] },
+    );
+  } else {
+    const link = (out: string, extra: string[] = []) => ({
+      command: "vlink",
+      args: [
+        "-bamigahunk",
+        "-Bstatic",
+        ...extra,
+        ...linkerArgs,
+        "-o",
+        out,
+        ...objects,
+      ],
+    });
+    if (debugOutput) {
+      commands.push(link(debugOutput), link(output, ["-s"]));
+    } else {
+      commands.push(link(output));
+    }
+  }
+  return commands;
+}
+
+/**
+ * Provides `vamiga` build tasks, running vasm and vlink or gcc.
+ *
+ * A task is provided for each launch configuration with `build` settings, and tasks can also be defined in
+ * tasks.json. Errors are parsed into diagnostics by the toolchain's problem matchers.
+ */
+export class BuildTaskProvider implements vscode.TaskProvider {
+  public static readonly type = "vamiga";
+
+  public provideTasks(): vscode.Task[] {
+    const tasks: vscode.Task[] = [];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      const configs =
+        vscode.workspace
+          .getConfiguration("launch", folder.uri)
+          .get<vscode.DebugConfiguration[]>("configurations") ?? [];
+      for (const config of configs) {
+        if (config.type !== BuildTaskProvider.type) {
+          continue;
+        }
+        const definition = buildTaskDefinition(config);
+        if (definition) {
+          tasks.push(
+            this.createTask(definition, folder, `build ${config.name}`),
+          );
+        }
+      }
+    }
+    return tasks;
+  }
+
+  public resolveTask(task: vscode.Task): vscode.Task | undefined {
+    const definition = task.definition as BuildTaskDefinition;
+    if (!definition.sources || !definition.output) {
+      return undefined;
+    }
+    return this.createTask(definition, task.scope, task.name);
+  }
+
+  /**
+   * Runs a build and waits for it to finish.
+   *
+   * @param definition Build task definition
+   * @param scope Workspace folder the build belongs to
+   * @returns Exit code of the build
+   */
+  public build(
+    definition: BuildTaskDefinition,
+    scope: vscode.Task["scope"],
+  ): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const task = this.createTask(definition, scope, "build", resolve);
+      vscode.tasks.executeTask(task).then(undefined, reject);
+    });
+  }
+
+  private createTask(
+    definition: BuildTaskDefinition,
+    scope: vscode.Task["scope"],
+    name: string,
+    onExit?: (exitCode: number) => void,
+  ): vscode.Task {
+    const folder =
+      scope && typeof scope === "object"
+        ? scope
+        : vscode.workspace.workspaceFolders?.[0];
+    const cwd = folder?.uri.fsPath ?? process.cwd();
+    const task = new vscode.Task(
+      definition,
+      scope ?? vscode.TaskScope.Workspace,
+      name,
+      BuildTaskProvider.type,
+      // Built from the definition VS Code resolves when the task runs, with variables substituted
+      new vscode.CustomExecution(async (resolvedDefinition) => {
+        const resolved = resolvedDefinition as BuildTaskDefinition;
+        return new BuildTerminal(
+          buildCommands(resolved, cwd),
+          cwd,
+          outputDirectories(resolved, cwd),
+          onExit,
+        );
+      }),
+      PROBLEM_MATCHERS[definition.toolchain ?? "vasm"],
+    );
+    task.group = vscode.TaskGroup.Build;
+    return task;
+  }
+}
+
+/**
+ * Runs build commands in turn, stopping at the first one that fails.
+ */
+class BuildTerminal implements vscode.Pseudoterminal {
+  private writeEmitter = new vscode.EventEmitter<string>();
+  private closeEmitter = new vscode.EventEmitter<number>();
+  private process?: ChildProcess;
+  private closed = false;
+
+  public onDidWrite = this.writeEmitter.event;
+  public onDidClose = this.closeEmitter.event;
+
+  constructor(
+    private commands: BuildCommand[],
+    private cwd: string,
+    private directories: string[],
+    private onExit?: (exitCode: number) => void,
+  ) {}
+
+  public open(): void {
+    this.run().then((exitCode) => {
+      this.onExit?.(exitCode);
+      this.closeEmitter.fire(exitCode);
+    });
+  }
+
+  public close(): void {
+    this.closed = true;
+    this.process?.kill();
+  }
+
+  private async run(): Promise<number> {
+    try {
+      for (const dir of new Set(this.directories)) {
+        await mkdir(dir, { recursive: true });
+      }
+    } catch (error) {
+      this.write(`${error instanceof Error ? error.message : error}\n`);
+      return 1;
+    }
+    for (const { command, args } of this.commands) {
+      if (this.closed) {
+        return 1;
+      }
+      this.write(`> ${command} ${args.join(" ")}\n`);
+      const exitCode = await this.exec(command, args);
+      if (exitCode !== 0) {
+        this.write(`Build failed: ${command} exited with code ${exitCode}\n`);
+        return exitCode;
+      }
+    }
+    this.write("Build succeeded\n");
+    return 0;
+  }
+
+  private exec(command: string, args: string[]): Promise<number> {
+    return new Promise((resolve) => {
+      const child = spawn(command, args, { cwd: this.cwd });
+      this.process = child;
+      child.stdout.on("data", (data) => this.write(data.toString()));
+      child.stderr.on("data", (data) => this.write(data.toString()));
+      child.on("error", (error) => {
+        this.write(`Failed to run ${command}: ${error.message}\n`);
+        resolve(1);
+      });
+      child.on("close", (code) => resolve(code ?? 1));
+    });
+  }
+
+  private write(text: string): void {
+    this.writeEmitter.fire(text.replace(/\r?\n/g, "\r\n"));
+  }
+}
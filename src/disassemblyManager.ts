@@ -5,6 +5,33 @@ import { SourceMap } from "./sourceMap";
 import { VAmiga } from "./vAmiga";
 import { Source } from "@vscode/debugadapter";
 
+/**
+ * Matches instructions which return to the following instruction once they complete, and can be
+ * stepped over: subroutine calls, traps and loops.
+ *
+ * TRAPV and CHK only trap on their condition, but stepping over them is the same either way.
+ */
+const STEP_OVER_PATTERN =
+  /^(jsr|bsr|callm|trap|trapv|chk|chk2|db(t|f|ra|hi|ls|cc|hs|cs|lo|ne|eq|vc|vs|pl|mi|ge|lt|gt|le))(\.\w)?\b/i;
+
+/**
+ * Checks whether an instruction should be stepped over, rather than into.
+ *
+ * Line A and Line F opcodes are also included, as these call an emulator routine via an
+ * exception, e.g. for system calls on some platforms.
+ *
+ * @param instruction Disassembled instruction text
+ * @param hex Instruction bytes as hex words
+ */
+export function isStepOverInstruction(instruction: string, hex = ""): boolean {
+  if (STEP_OVER_PATTERN.test(instruction.trim())) {
+    return true;
+  }
+  const opcode = parseInt(hex.replace(/\s/g, "").slice(0, 4), 16);
+  const line = opcode >> 12;
+  return line === 0xa || line === 0xf;
+}
+
 /**
  * Manages instruction disassembly for the debug adapter.
  *
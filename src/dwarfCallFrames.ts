@@ -0,0 +1,347 @@
+import {
+  DWARFData,
+  FrameDescriptionEntry,
+  loadedSectionRanges,
+} from "./dwarfParser";
+
+/**
+ * Unwinding rules for a single code address, from DWARF call frame information
+ */
+export interface CallFrameRow {
+  /** Register used to calculate the Canonical Frame Address */
+  cfaRegister: number;
+  /** Offset added to the register value to get the CFA */
+  cfaOffset: number;
+  /** Offset from the CFA where each saved register is stored, by DWARF register number */
+  savedRegisters: Map<number, number>;
+  /** Register number whose saved value is the return address */
+  returnAddressRegister: number;
+}
+
+/**
+ * FDE with its address range relocated to where the program is loaded
+ */
+interface LoadedFrameDescriptionEntry {
+  start: number;
+  end: number;
+  /** Difference between loaded address and ELF address */
+  offset: number;
+  fde: FrameDescriptionEntry;
+}
+
+// Call frame instructions, with primary opcode in the high 2 bits
+const DW_CFA_advance_loc = 0x1;
+const DW_CFA_offset = 0x2;
+const DW_CFA_restore = 0x3;
+
+// Call frame instructions, with extended opcode in the low 6 bits
+const DW_CFA = {
+  nop: 0x00,
+  set_loc: 0x01,
+  advance_loc1: 0x02,
+  advance_loc2: 0x03,
+  advance_loc4: 0x04,
+  offset_extended: 0x05,
+  restore_extended: 0x06,
+  undefined: 0x07,
+  same_value: 0x08,
+  register: 0x09,
+  remember_state: 0x0a,
+  restore_state: 0x0b,
+  def_cfa: 0x0c,
+  def_cfa_register: 0x0d,
+  def_cfa_offset: 0x0e,
+  def_cfa_expression: 0x0f,
+  expression: 0x10,
+  offset_extended_sf: 0x11,
+  def_cfa_sf: 0x12,
+  def_cfa_offset_sf: 0x13,
+  GNU_args_size: 0x2e,
+} as const;
+
+/**
+ * Lookup table of call frame information for a loaded program.
+ *
+ * Provides the rules needed to unwind the stack at a given address, by
+ * executing the call frame instructions in the matching FDE.
+ */
+export class CallFrameTable {
+  private rowCache = new Map<number, CallFrameRow | undefined>();
+
+  /**
+   * @param entries FDEs with loaded address ranges
+   * @param isLittleEndian Byte order of instruction operands
+   */
+  constructor(
+    private entries: LoadedFrameDescriptionEntry[],
+    private isLittleEndian = false,
+  ) {}
+
+  /**
+   * Gets the unwinding rules at an address.
+   *
+   * @param address Loaded code address
+   * @returns Rules, or undefined if there's no call frame information for this address or it can't be interpreted
+   */
+  public findRow(address: number): CallFrameRow | undefined {
+    if (this.rowCache.has(address)) {
+      return this.rowCache.get(address);
+    }
+    const entry = this.entries.find(
+      (e) => address >= e.start && address < e.end,
+    );
+    let row: CallFrameRow | undefined;
+    if (entry) {
+      try {
+        row = this.executeInstructions(entry.fde, address - entry.offset);
+      } catch (error) {
+        console.warn(`Unable to unwind at ${address.toString(16)}:`, error);
+      }
+    }
+    this.rowCache.set(address, row);
+    return row;
+  }
+
+  /**
+   * Executes the CIE initial instructions and FDE instructions up to an address.
+   *
+   * @param fde Frame description entry containing the address
+   * @param address ELF address to stop at
+   */
+  private executeInstructions(
+    fde: FrameDescriptionEntry,
+    address: number,
+  ): CallFrameRow {
+    const { cie } = fde;
+    const row: CallFrameRow = {
+      cfaRegister: 0,
+      cfaOffset: 0,
+      savedRegisters: new Map(),
+      returnAddressRegister: cie.returnAddressRegister,
+    };
+
+    // Execute CIE to get initial rules, which DW_CFA_restore reverts to
+    this.execute(cie.initialInstructions, row, Infinity, fde);
+    const initialRegisters = new Map(row.savedRegisters);
+    this.execute(fde.instructions, row, address, fde, initialRegisters);
+    return row;
+  }
+
+  private execute(
+    instructions: Uint8Array,
+    row: CallFrameRow,
+    address: number,
+    fde: FrameDescriptionEntry,
+    initialRegisters = new Map<number, number>(),
+  ): void {
+    const { codeAlignmentFactor, dataAlignmentFactor } = fde.cie;
+    const view = new DataView(
+      instructions.buffer,
+      instructions.byteOffset,
+      instructions.byteLength,
+    );
+    const stateStack: CallFrameRow[] = [];
+    let location = fde.initialLocation;
+    let offset = 0;
+
+    const uleb = () => {
+      const result = readULEB128(instructions, offset);
+      offset += result.size;
+      return result.value;
+    };
+    const sleb = () => {
+      const result = readSLEB128(instructions, offset);
+      offset += result.size;
+      return result.value;
+    };
+    const restore = (register: number) => {
+      const initial = initialRegisters.get(register);
+      if (initial !== undefined) {
+        row.savedRegisters.set(register, initial);
+      } else {
+        row.savedRegisters.delete(register);
+      }
+    };
+    // Stop when the instructions advance past the target address
+    const advance = (delta: number) => {
+      location += delta * codeAlignmentFactor;
+      return location > address;
+    };
+
+    while (offset < instructions.length) {
+      const byte = instructions[offset++];
+      const primary = byte >> 6;
+      const operand = byte & 0x3f;
+
+      if (primary === DW_CFA_advance_loc) {
+        if (advance(operand)) return;
+        continue;
+      }
+      if (primary === DW_CFA_offset) {
+        row.savedRegisters.set(operand, uleb() * dataAlignmentFactor);
+        continue;
+      }
+      if (primary === DW_CFA_restore) {
+        restore(operand);
+        continue;
+      }
+
+      switch (operand) {
+        case DW_CFA.nop:
+          break;
+        case DW_CFA.set_loc:
+          location = view.getUint32(offset, this.isLittleEndian);
+          offset += 4;
+          if (location > address) return;
+          break;
+        case DW_CFA.advance_loc1:
+          if (advance(view.getUint8(offset++))) return;
+          break;
+        case DW_CFA.advance_loc2: {
+          const delta = view.getUint16(offset, this.isLittleEndian);
+          offset += 2;
+          if (advance(delta)) return;
+          break;
+        }
+        case DW_CFA.advance_loc4: {
+          const delta = view.getUint32(offset, this.isLittleEndian);
+          offset += 4;
+          if (advance(delta)) return;
+          break;
+        }
+        case DW_CFA.offset_extended: {
+          const register = uleb();
+          row.savedRegisters.set(register, uleb() * dataAlignmentFactor);
+          break;
+        }
+        case DW_CFA.offset_extended_sf: {
+          const register = uleb();
+          row.savedRegisters.set(register, sleb() * dataAlignmentFactor);
+          break;
+        }
+        case DW_CFA.restore_extended:
+          restore(uleb());
+          break;
+        case DW_CFA.undefined:
+        case DW_CFA.same_value:
+          row.savedRegisters.delete(uleb());
+          break;
+        case DW_CFA.remember_state:
+          stateStack.push({
+            ...row,
+            savedRegisters: new Map(row.savedRegisters),
+          });
+          break;
+        case DW_CFA.restore_state: {
+          const state = stateStack.pop();
+          if (!state) {
+            throw new Error("DW_CFA_restore_state without remembered state");
+          }
+          Object.assign(row, state);
+          break;
+        }
+        case DW_CFA.def_cfa:
+          row.cfaRegister = uleb();
+          row.cfaOffset = uleb();
+          break;
+        case DW_CFA.def_cfa_sf:
+          row.cfaRegister = uleb();
+          row.cfaOffset = sleb() * dataAlignmentFactor;
+          break;
+        case DW_CFA.def_cfa_register:
+          row.cfaRegister = uleb();
+          break;
+        case DW_CFA.def_cfa_offset:
+          row.cfaOffset = uleb();
+          break;
+        case DW_CFA.def_cfa_offset_sf:
+          row.cfaOffset = sleb() * dataAlignmentFactor;
+          break;
+        case DW_CFA.GNU_args_size:
+          uleb();
+          break;
+        default:
+          // Register-to-register and expression rules aren't generated for m68k in practice
+          throw new Error(
+            `Unsupported call frame instruction 0x${byte.toString(16)}`,
+          );
+      }
+    }
+  }
+}
+
+/**
+ * Creates a call frame table from DWARF debug information.
+ *
+ * Relocates FDE address ranges to the loaded section addresses, using the
+ * same section filtering as the source map.
+ *
+ * @param dwarfData Parsed DWARF debug information
+ * @param offsets Memory offset addresses for loaded sections
+ * @returns Call frame table for the loaded program
+ */
+export function callFrameTableFromDwarf(
+  dwarfData: DWARFData,
+  offsets: number[],
+): CallFrameTable {
+  const sectionRanges = loadedSectionRanges(dwarfData, offsets);
+
+  const entries: LoadedFrameDescriptionEntry[] = [];
+  for (const fde of dwarfData.frameDescriptionEntries) {
+    const section = sectionRanges.find(
+      (s) => fde.initialLocation >= s.start && fde.initialLocation < s.end,
+    );
+    // Discarded functions have no section
+    if (!section || fde.addressRange === 0) {
+      continue;
+    }
+    entries.push({
+      start: fde.initialLocation + section.offset,
+      end: fde.initialLocation + fde.addressRange + section.offset,
+      offset: section.offset,
+      fde,
+    });
+  }
+  return new CallFrameTable(entries, dwarfData.isLittleEndian);
+}
+
+function readULEB128(
+  data: Uint8Array,
+  offset: number,
+): { value: number; size: number } {
+  let value = 0;
+  let shift = 0;
+  let size = 0;
+  let byte: number;
+  do {
+    byte = data[offset + size++];
+    if (byte === undefined) {
+      throw new Error("Invalid ULEB128 in call frame instructions");
+    }
+    value |= (byte & 0x7f) << shift;
+    shift += 7;
+  } while (byte & 0x80);
+  return { value: value >>> 0, size };
+}
+
+function readSLEB128(
+  data: Uint8Array,
+  offset: number,
+): { value: number; size: number } {
+  let value = 0;
+  let shift = 0;
+  let size = 0;
+  let byte: number;
+  do {
+    byte = data[offset + size++];
+    if (byte === undefined) {
+      throw new Error("Invalid SLEB128 in call frame instructions");
+    }
+    value |= (byte & 0x7f) << shift;
+    shift += 7;
+  } while (byte & 0x80);
+  if (shift < 32 && byte & 0x40) {
+    value |= -(1 << shift);
+  }
+  return { value, size };
+}
@@ -20,6 +20,8 @@ export interface CompilationUnit {
 }
 
 export interface DebugInfoEntry {
+  /** Offset within .debug_info, as used by reference attributes */
+  offset: number;
   abbrevCode: number;
   tag: number | undefined;
   attributes: DWARFAttribute[];
@@ -37,7 +39,7 @@ export interface AbbreviationEntry {
   code: number;
   tag: number;
   hasChildren: boolean;
-  attributes: Array<{ name: number; form: number }>;
+  attributes: Array<{ name: number; form: number; implicitConst?: number }>;
 }
 
 export interface FileEntry {
@@ -118,32 +120,89 @@ export interface SourceMapEntry {
   isStatement: boolean;
 }
 
+/**
+ * Common Information Entry from .debug_frame, shared by FDEs
+ */
+export interface CommonInformationEntry {
+  version: number;
+  augmentation: string;
+  codeAlignmentFactor: number;
+  dataAlignmentFactor: number;
+  returnAddressRegister: number;
+  /** Call frame instructions defining the initial rules for each FDE */
+  initialInstructions: Uint8Array;
+}
+
+/**
+ * Frame Description Entry from .debug_frame, describing how to unwind a range of code
+ */
+export interface FrameDescriptionEntry {
+  cie: CommonInformationEntry;
+  initialLocation: number;
+  addressRange: number;
+  instructions: Uint8Array;
+}
+
 export interface DWARFData {
   sections: Map<string, ELFSectionHeader>;
   compilationUnits: CompilationUnit[];
   lineNumberPrograms: LineNumberProgram[];
+  frameDescriptionEntries: FrameDescriptionEntry[];
   debugStrings: Uint8Array | undefined;
+  /** Location lists referenced by DW_AT_location, DWARF 5 */
+  debugLocLists: Uint8Array | undefined;
+  /** Location lists referenced by DW_AT_location, DWARF 2-4 */
+  debugLoc: Uint8Array | undefined;
+  /** Range lists referenced by DW_AT_ranges, DWARF 5 */
+  debugRngLists: Uint8Array | undefined;
+  /** Range lists referenced by DW_AT_ranges, DWARF 2-4 */
+  debugRanges: Uint8Array | undefined;
   abbreviationTables: Map<number, AbbreviationEntry[]>;
   elfSymbols: ELFSymbol[];
   is64bit: boolean;
   isLittleEndian: boolean;
 }
 
+/**
+ * ELF address range of a section, with the offset to where it's loaded in memory
+ */
+export interface LoadedSectionRange {
+  start: number;
+  end: number;
+  /** Difference between loaded address and ELF address */
+  offset: number;
+}
+
 // DWARF constants
 export const DW_TAG = {
-  compile_unit: 0x11,
-  subprogram: 0x2e,
-  variable: 0x34,
-  base_type: 0x24,
+  array_type: 0x01,
+  enumeration_type: 0x04,
+  formal_parameter: 0x05,
+  lexical_block: 0x0b,
+  member: 0x0d,
   pointer_type: 0x0f,
+  compile_unit: 0x11,
   structure_type: 0x13,
-  union_type: 0x17,
-  enumeration_type: 0x04,
+  subroutine_type: 0x15,
   typedef: 0x16,
+  union_type: 0x17,
+  inlined_subroutine: 0x1d,
+  subrange_type: 0x21,
+  base_type: 0x24,
+  const_type: 0x26,
+  enumerator: 0x28,
+  subprogram: 0x2e,
+  variable: 0x34,
+  volatile_type: 0x35,
+  namespace: 0x39,
 } as const;
 
 export const DW_AT = {
+  sibling: 0x01,
   name: 0x03,
+  byte_size: 0x0b,
+  bit_offset: 0x0c,
+  bit_size: 0x0d,
   low_pc: 0x11,
   high_pc: 0x12,
   language: 0x13,
@@ -154,10 +213,22 @@ export const DW_AT = {
   declaration: 0x3c,
   type: 0x49,
   location: 0x02,
+  const_value: 0x1c,
+  upper_bound: 0x2f,
+  abstract_origin: 0x31,
+  count: 0x37,
+  data_member_location: 0x38,
+  encoding: 0x3e,
+  frame_base: 0x40,
+  specification: 0x47,
+  ranges: 0x55,
+  data_bit_offset: 0x6b,
 } as const;
 
 export const DW_FORM = {
   addr: 0x01,
+  block2: 0x03,
+  block4: 0x04,
   data2: 0x05,
   data4: 0x06,
   data8: 0x07,
@@ -176,6 +247,30 @@ export const DW_FORM = {
   ref8: 0x14,
   ref_udata: 0x15,
   indirect: 0x16,
+  // DWARF 4
+  sec_offset: 0x17,
+  exprloc: 0x18,
+  flag_present: 0x19,
+  ref_sig8: 0x20,
+  // DWARF 5
+  strx: 0x1a,
+  addrx: 0x1b,
+  ref_sup4: 0x1c,
+  strp_sup: 0x1d,
+  data16: 0x1e,
+  line_strp: 0x1f,
+  implicit_const: 0x21,
+  loclistx: 0x22,
+  rnglistx: 0x23,
+  ref_sup8: 0x24,
+  strx1: 0x25,
+  strx2: 0x26,
+  strx3: 0x27,
+  strx4: 0x28,
+  addrx1: 0x29,
+  addrx2: 0x2a,
+  addrx3: 0x2b,
+  addrx4: 0x2c,
 } as const;
 
 /**
@@ -385,6 +480,8 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
   let debugStrings: Uint8Array | undefined;
   const abbreviationTables = new Map<number, AbbreviationEntry[]>();
   const elfSymbols: ELFSymbol[] = [];
+  const frameDescriptionEntries: FrameDescriptionEntry[] = [];
+  const debugInfoOffset = sections.get(".debug_info")?.offset ?? 0;
 
   function parseAbbreviationEntry(offset: number): {
     entry: AbbreviationEntry;
@@ -408,7 +505,7 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
     const hasChildren = readUInt8(currentOffset) === 1;
     currentOffset += 1;
 
-    const attributes: Array<{ name: number; form: number }> = [];
+    const attributes: AbbreviationEntry["attributes"] = [];
 
     while (true) {
       const name = readULEB128(currentOffset);
@@ -419,6 +516,18 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
 
       if (name.value === 0 && form.value === 0) break;
 
+      // Constant value is stored in the abbreviation rather than the DIE
+      if (form.value === DW_FORM.implicit_const) {
+        const value = readSLEB128(currentOffset);
+        currentOffset += value.size;
+        attributes.push({
+          name: name.value,
+          form: form.value,
+          implicitConst: value.value,
+        });
+        continue;
+      }
+
       attributes.push({ name: name.value, form: form.value });
     }
 
@@ -451,8 +560,13 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
   function parseAttributeValue(
     offset: number,
     form: number,
-    addressSize: number,
+    cu: Pick<CompilationUnit, "version" | "addressSize">,
+    unitOffset = 0,
   ): { value: any; size: number } {
+    const { addressSize } = cu;
+    const block = (dataOffset: number, length: number) =>
+      new Uint8Array(elfBuffer.buffer, dataOffset, length);
+
     switch (form) {
       case DW_FORM.addr:
         return {
@@ -467,15 +581,26 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
         return { value: readUInt32(offset), size: 4 };
       case DW_FORM.data8:
         return { value: readUInt64(offset), size: 8 };
+      case DW_FORM.data16:
+        return { value: block(offset, 16), size: 16 };
       case DW_FORM.string: {
         const str = readString(offset);
         return { value: str.value, size: str.size };
       }
       case DW_FORM.strp:
-        return { value: readUInt32(offset), size: 4 }; // Offset into .debug_str
+      case DW_FORM.line_strp:
+      case DW_FORM.strp_sup:
+      case DW_FORM.sec_offset:
+        return { value: readUInt32(offset), size: 4 }; // Offset into another section
       case DW_FORM.flag:
         return { value: readUInt8(offset) !== 0, size: 1 };
-      case DW_FORM.udata: {
+      case DW_FORM.flag_present:
+        return { value: true, size: 0 };
+      case DW_FORM.udata:
+      case DW_FORM.strx:
+      case DW_FORM.addrx:
+      case DW_FORM.loclistx:
+      case DW_FORM.rnglistx: {
         const uleb = readULEB128(offset);
         return { value: uleb.value, size: uleb.size };
       }
@@ -483,43 +608,94 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
         const sleb = readSLEB128(offset);
         return { value: sleb.value, size: sleb.size };
       }
-      case DW_FORM.ref4:
+      case DW_FORM.strx1:
+      case DW_FORM.addrx1:
+        return { value: readUInt8(offset), size: 1 };
+      case DW_FORM.strx2:
+      case DW_FORM.addrx2:
+        return { value: readUInt16(offset), size: 2 };
+      case DW_FORM.strx3:
+      case DW_FORM.addrx3: {
+        const bytes = [0, 1, 2].map((i) => readUInt8(offset + i));
+        if (isLittleEndian) bytes.reverse();
+        return { value: (bytes[0] << 16) | (bytes[1] << 8) | bytes[2], size: 3 };
+      }
+      case DW_FORM.strx4:
+      case DW_FORM.addrx4:
         return { value: readUInt32(offset), size: 4 };
+      // Unit-relative references are converted to .debug_info offsets
+      case DW_FORM.ref1:
+        return { value: unitOffset + readUInt8(offset), size: 1 };
+      case DW_FORM.ref2:
+        return { value: unitOffset + readUInt16(offset), size: 2 };
+      case DW_FORM.ref4:
+        return { value: unitOffset + readUInt32(offset), size: 4 };
+      case DW_FORM.ref8:
+        return { value: unitOffset + readUInt64(offset), size: 8 };
       case DW_FORM.ref_udata: {
         const uleb = readULEB128(offset);
-        return { value: uleb.value, size: uleb.size };
+        return { value: unitOffset + uleb.value, size: uleb.size };
       }
-      case DW_FORM.block1: {
-        const length = readUInt8(offset);
+      case DW_FORM.ref_addr: {
+        // Address sized in DWARF 2, offset sized since
+        const size = cu.version === 2 ? addressSize : 4;
         return {
-          value: new Uint8Array(elfBuffer.buffer, offset + 1, length),
-          size: 1 + length,
+          value: size === 8 ? readUInt64(offset) : readUInt32(offset),
+          size,
         };
       }
-      case DW_FORM.block: {
+      case DW_FORM.ref_sup4:
+        return { value: readUInt32(offset), size: 4 };
+      case DW_FORM.ref_sup8:
+      case DW_FORM.ref_sig8:
+        return { value: readUInt64(offset), size: 8 };
+      case DW_FORM.block1: {
+        const length = readUInt8(offset);
+        return { value: block(offset + 1, length), size: 1 + length };
+      }
+      case DW_FORM.block2: {
+        const length = readUInt16(offset);
+        return { value: block(offset + 2, length), size: 2 + length };
+      }
+      case DW_FORM.block4: {
+        const length = readUInt32(offset);
+        return { value: block(offset + 4, length), size: 4 + length };
+      }
+      case DW_FORM.block:
+      case DW_FORM.exprloc: {
         const length = readULEB128(offset);
         return {
-          value: new Uint8Array(
-            elfBuffer.buffer,
-            offset + length.size,
-            length.value,
-          ),
+          value: block(offset + length.size, length.value),
           size: length.size + length.value,
         };
       }
+      case DW_FORM.indirect: {
+        const actualForm = readULEB128(offset);
+        const result = parseAttributeValue(
+          offset + actualForm.size,
+          actualForm.value,
+          cu,
+          unitOffset,
+        );
+        return { value: result.value, size: actualForm.size + result.size };
+      }
       default:
-        // Unknown form, skip 4 bytes as fallback
-        return { value: null, size: 4 };
+        throw new Error(
+          `DWARF parsing error: Unsupported attribute form 0x${form.toString(16)}`,
+        );
     }
   }
 
   function parseDIE(
     offset: number,
     abbrevTable: AbbreviationEntry[],
-    addressSize: number,
-  ): DebugInfoEntry | null {
+    cu: CompilationUnit,
+    unitOffset: number,
+  ): { die: DebugInfoEntry | null; size: number; hasChildren: boolean } {
     const abbrevCode = readULEB128(offset);
-    if (abbrevCode.value === 0) return null;
+    if (abbrevCode.value === 0) {
+      return { die: null, size: abbrevCode.size, hasChildren: false };
+    }
 
     let currentOffset = offset + abbrevCode.size;
 
@@ -528,24 +704,29 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
       (entry) => entry.code === abbrevCode.value,
     );
     if (!abbrevEntry) {
-      // Unknown abbreviation code, create minimal DIE
-      return {
-        abbrevCode: abbrevCode.value,
-        tag: undefined,
-        attributes: [],
-        size: abbrevCode.size,
-        children: [],
-      };
+      throw new Error(
+        `DWARF parsing error: Unknown abbreviation code ${abbrevCode.value} at offset ${offset}`,
+      );
     }
 
     const attributes: DWARFAttribute[] = [];
 
     // Parse attributes according to the abbreviation entry
     for (const attrSpec of abbrevEntry.attributes) {
+      if (attrSpec.form === DW_FORM.implicit_const) {
+        attributes.push({
+          name: attrSpec.name,
+          form: attrSpec.form,
+          value: attrSpec.implicitConst,
+        });
+        continue;
+      }
+
       const attrValue = parseAttributeValue(
         currentOffset,
         attrSpec.form,
-        addressSize,
+        cu,
+        unitOffset,
       );
 
       attributes.push({
@@ -558,6 +739,7 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
     }
 
     const die: DebugInfoEntry = {
+      offset: offset - debugInfoOffset,
       abbrevCode: abbrevCode.value,
       tag: abbrevEntry.tag,
       attributes,
@@ -565,7 +747,7 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
       children: [],
     };
 
-    return die;
+    return { die, size: die.size, hasChildren: abbrevEntry.hasChildren };
   }
 
   function parseCompilationUnit(offset: number): CompilationUnit {
@@ -656,12 +838,34 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
       }
     }
 
+    // Build DIE tree, with null entries ending each list of children
+    const unitOffset = startOffset - debugInfoOffset;
+    const parents: DebugInfoEntry[] = [];
     const endOffset = startOffset + length + 4;
-    while (offset < endOffset) {
-      const die = parseDIE(offset, abbrevTable, addressSize);
-      if (!die) break;
-      cu.dies.push(die);
-      offset += die.size;
+    try {
+      while (offset < endOffset) {
+        const { die, size, hasChildren } = parseDIE(
+          offset,
+          abbrevTable,
+          cu,
+          unitOffset,
+        );
+        offset += size;
+        if (!die) {
+          parents.pop();
+          continue;
+        }
+        const siblings = parents.length
+          ? parents[parents.length - 1].children
+          : cu.dies;
+        siblings.push(die);
+        if (hasChildren) {
+          parents.push(die);
+        }
+      }
+    } catch (error) {
+      // Keep entries parsed so far - line info doesn't depend on them
+      console.warn(`DWARF parsing: Incomplete compilation unit at offset ${startOffset}:`, error);
     }
 
     return cu;
@@ -859,7 +1063,7 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
         for (const format of directoryEntryFormats) {
           // DW_LNCT_path = 0x01
           if (format.contentType === 0x01) {
-            const value = parseAttributeValue(offset, format.form, addressSize);
+            const value = parseAttributeValue(offset, format.form, { version, addressSize });
             offset += value.size;
             // Handle both direct strings and string table offsets
             if (typeof value.value === "string") {
@@ -870,7 +1074,7 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
             }
           } else {
             // Skip unknown content types
-            const value = parseAttributeValue(offset, format.form, addressSize);
+            const value = parseAttributeValue(offset, format.form, { version, addressSize });
             offset += value.size;
           }
         }
@@ -899,7 +1103,7 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
         let dirIndex = 0;
 
         for (const format of fileEntryFormats) {
-          const value = parseAttributeValue(offset, format.form, addressSize);
+          const value = parseAttributeValue(offset, format.form, { version, addressSize });
           offset += value.size;
 
           // DW_LNCT_path = 0x01, DW_LNCT_directory_index = 0x02
@@ -1060,6 +1264,100 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
     }
   }
 
+  function parseCommonInformationEntry(
+    offset: number,
+    endOffset: number,
+  ): CommonInformationEntry {
+    const version = readUInt8(offset);
+    offset += 1;
+
+    const augmentation = readString(offset);
+    offset += augmentation.size;
+
+    // DWARF 4 adds address and segment selector sizes
+    if (version >= 4) {
+      offset += 2;
+    }
+
+    const codeAlignmentFactor = readULEB128(offset);
+    offset += codeAlignmentFactor.size;
+
+    const dataAlignmentFactor = readSLEB128(offset);
+    offset += dataAlignmentFactor.size;
+
+    let returnAddressRegister: number;
+    if (version === 1) {
+      returnAddressRegister = readUInt8(offset);
+      offset += 1;
+    } else {
+      const reg = readULEB128(offset);
+      returnAddressRegister = reg.value;
+      offset += reg.size;
+    }
+
+    return {
+      version,
+      augmentation: augmentation.value,
+      codeAlignmentFactor: codeAlignmentFactor.value,
+      dataAlignmentFactor: dataAlignmentFactor.value,
+      returnAddressRegister,
+      initialInstructions: new Uint8Array(
+        elfBuffer.buffer,
+        offset,
+        endOffset - offset,
+      ),
+    };
+  }
+
+  function parseDebugFrame(section: ELFSectionHeader) {
+    const addressSize = is64bit ? 8 : 4;
+    const readAddress = is64bit ? readUInt64 : readUInt32;
+    // CIEs are referenced by FDEs by offset within the section
+    const cies = new Map<number, CommonInformationEntry>();
+
+    let offset = section.offset;
+    const endOffset = section.offset + section.size;
+
+    while (offset < endOffset) {
+      const length = readUInt32(offset);
+      if (length === 0xffffffff) {
+        throw new Error("DWARF parsing error: 64-bit DWARF .debug_frame is not supported");
+      }
+      const entryStart = offset + 4;
+      const entryEnd = entryStart + length;
+      if (length === 0) {
+        // Padding
+        offset = entryEnd;
+        continue;
+      }
+
+      const id = readUInt32(entryStart);
+      if (id === 0xffffffff) {
+        cies.set(
+          offset - section.offset,
+          parseCommonInformationEntry(entryStart + 4, entryEnd),
+        );
+      } else {
+        const cie = cies.get(id);
+        // Augmentations would change the entry format, and aren't generated for .debug_frame in practice
+        if (cie && cie.augmentation === "") {
+          const instructionsStart = entryStart + 4 + addressSize * 2;
+          frameDescriptionEntries.push({
+            cie,
+            initialLocation: readAddress(entryStart + 4),
+            addressRange: readAddress(entryStart + 4 + addressSize),
+            instructions: new Uint8Array(
+              elfBuffer.buffer,
+              instructionsStart,
+              entryEnd - instructionsStart,
+            ),
+          });
+        }
+      }
+      offset = entryEnd;
+    }
+  }
+
   // Parse .debug_info section
   if (sections.has(".debug_info")) {
     const section = sections.get(".debug_info");
@@ -1102,6 +1400,26 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
     }
   }
 
+  // Location and range lists are decoded on demand, as they depend on the unit base address
+  function sectionData(name: string): Uint8Array | undefined {
+    const section = sections.get(name);
+    return section
+      ? new Uint8Array(elfBuffer.buffer, section.offset, section.size)
+      : undefined;
+  }
+  const debugLocLists = sectionData(".debug_loclists");
+  const debugLoc = sectionData(".debug_loc");
+  const debugRngLists = sectionData(".debug_rnglists");
+  const debugRanges = sectionData(".debug_ranges");
+
+  // Parse .debug_frame section
+  if (sections.has(".debug_frame")) {
+    const section = sections.get(".debug_frame");
+    if (section) {
+      parseDebugFrame(section);
+    }
+  }
+
   // Parse ELF symbol table
   parseELFSymbols();
 
@@ -1109,10 +1427,51 @@ export function parseDwarf(elfBuffer: Buffer): DWARFData {
     sections,
     compilationUnits,
     lineNumberPrograms,
+    frameDescriptionEntries,
     debugStrings,
+    debugLocLists,
+    debugLoc,
+    debugRngLists,
+    debugRanges,
     abbreviationTables,
     elfSymbols,
     is64bit,
     isLittleEndian,
   };
 }
+
+/**
+ * Gets the ELF address ranges of loaded sections.
+ *
+ * Uses the same section filtering as the source map, so that offsets match
+ * the order of sections passed to the emulator.
+ *
+ * @param dwarfData Parsed DWARF debug information
+ * @param offsets Memory offset addresses for loaded sections
+ * @returns Address ranges of loaded sections
+ */
+export function loadedSectionRanges(
+  dwarfData: DWARFData,
+  offsets: number[],
+): LoadedSectionRange[] {
+  const ranges: LoadedSectionRange[] = [];
+  let i = 0;
+  for (const [originalName, header] of dwarfData.sections) {
+    const name = originalName.replace(/\.MEMF_(CHIP|FAST|ANY)$/, "");
+    if (
+      header.size > 0 &&
+      (header.addr > 0 ||
+        name === ".text" ||
+        name === ".data" ||
+        name === ".bss" ||
+        name === ".rodata")
+    ) {
+      ranges.push({
+        start: header.addr,
+        end: header.addr + header.size,
+        offset: offsets[i++] - header.addr,
+      });
+    }
+  }
+  return ranges;
+}
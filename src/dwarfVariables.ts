@@ -0,0 +1,1294 @@
+import {
+  CompilationUnit,
+  DebugInfoEntry,
+  DWARFData,
+  DW_AT,
+  DW_FORM,
+  DW_TAG,
+  LoadedSectionRange,
+  loadedSectionRanges,
+} from "./dwarfParser";
+import { formatAddress, formatHex } from "./numbers";
+import { SourceMap } from "./sourceMap";
+
+/**
+ * Type of a variable, from DWARF type entries
+ */
+export interface DwarfType {
+  kind:
+    | "base"
+    | "pointer"
+    | "struct"
+    | "union"
+    | "enum"
+    | "array"
+    | "function"
+    | "void";
+  /** C declaration style name e.g. `const char *` */
+  name: string;
+  size: number;
+  /** DW_ATE_* encoding of base and enum types */
+  encoding?: number;
+  /** Pointer target or array element type */
+  target?: DwarfType;
+  /** Number of array elements */
+  count?: number;
+  /** Struct and union members */
+  members?: DwarfMember[];
+  /** Enum values */
+  enumerators?: DwarfEnumerator[];
+}
+
+/**
+ * Member of a struct or union
+ */
+export interface DwarfMember {
+  name: string;
+  type: DwarfType;
+  /** Byte offset from the start of the struct */
+  offset: number;
+  /** Width of a bit field */
+  bitSize?: number;
+  /** Offset of a bit field from the most significant bit at `offset` */
+  bitOffset?: number;
+}
+
+export interface DwarfEnumerator {
+  name: string;
+  value: number;
+}
+
+/**
+ * Variable with a static address, declared outside of any function
+ */
+export interface DwarfGlobal {
+  name: string;
+  type?: DwarfType;
+  /** ELF address */
+  address: number;
+}
+
+/**
+ * Local variable or parameter of a function
+ */
+export interface DwarfVariable {
+  name: string;
+  isParameter: boolean;
+  type?: DwarfType;
+  /** Location expression, or expressions for address ranges */
+  location?: Uint8Array | LocationListEntry[];
+  /** Value of a variable which has been optimized to a constant */
+  constValue?: number | Uint8Array;
+}
+
+/**
+ * Location expression which applies to a range of ELF addresses
+ */
+export interface LocationListEntry {
+  start: number;
+  end: number;
+  expression: Uint8Array;
+}
+
+/**
+ * Where the value of a variable can be found
+ */
+export type VariableLocation =
+  | { kind: "memory"; address: number }
+  | { kind: "register"; register: number }
+  | { kind: "value"; value: number }
+  | { kind: "bytes"; bytes: Uint8Array };
+
+/**
+ * Machine state of a stack frame, needed to evaluate location expressions
+ */
+export interface FrameContext {
+  /** Register values in DWARF register number order (D0-D7, A0-A7), where known */
+  registers: number[];
+  /** Canonical Frame Address, for DW_OP_call_frame_cfa */
+  cfa?: number;
+  peek32(address: number): Promise<number>;
+}
+
+interface AddressRange {
+  start: number;
+  end: number;
+}
+
+interface DwarfScope {
+  /** ELF address ranges, or empty to cover the whole parent scope */
+  ranges: AddressRange[];
+  variables: DwarfVariable[];
+  children: DwarfScope[];
+}
+
+interface DwarfFunction extends DwarfScope {
+  name: string;
+  frameBase?: Uint8Array;
+}
+
+/** Base type encodings */
+export const DW_ATE = {
+  address: 0x01,
+  boolean: 0x02,
+  float: 0x04,
+  signed: 0x05,
+  signed_char: 0x06,
+  unsigned: 0x07,
+  unsigned_char: 0x08,
+} as const;
+
+// Location expression operations
+const DW_OP = {
+  addr: 0x03,
+  deref: 0x06,
+  const1u: 0x08,
+  const1s: 0x09,
+  const2u: 0x0a,
+  const2s: 0x0b,
+  const4u: 0x0c,
+  const4s: 0x0d,
+  constu: 0x10,
+  consts: 0x11,
+  dup: 0x12,
+  drop: 0x13,
+  and: 0x1a,
+  minus: 0x1c,
+  neg: 0x1f,
+  or: 0x21,
+  plus: 0x22,
+  plus_uconst: 0x23,
+  shl: 0x24,
+  shr: 0x25,
+  lit0: 0x30,
+  lit31: 0x4f,
+  reg0: 0x50,
+  reg31: 0x6f,
+  breg0: 0x70,
+  breg31: 0x8f,
+  regx: 0x90,
+  fbreg: 0x91,
+  bregx: 0x92,
+  piece: 0x93,
+  deref_size: 0x94,
+  nop: 0x96,
+  call_frame_cfa: 0x9c,
+  implicit_value: 0x9e,
+  stack_value: 0x9f,
+  entry_value: 0xa3,
+  GNU_entry_value: 0xf3,
+} as const;
+
+// Location and range list entry kinds, DWARF 5
+const DW_LLE = {
+  end_of_list: 0x00,
+  offset_pair: 0x04,
+  default_location: 0x05,
+  base_address: 0x06,
+  start_end: 0x07,
+  start_length: 0x08,
+} as const;
+const DW_RLE = {
+  end_of_list: 0x00,
+  offset_pair: 0x04,
+  base_address: 0x05,
+  start_end: 0x06,
+  start_length: 0x07,
+} as const;
+
+/**
+ * Lookup table of local variables and parameters for a loaded program.
+ *
+ * Finds the variables in scope at a code address, and evaluates their
+ * location expressions for a stack frame.
+ */
+export class DwarfVariables {
+  private globals = new Map<string, DwarfGlobal>();
+
+  /**
+   * @param functions Functions with ELF address ranges
+   * @param sectionRanges Loaded section ranges for relocating addresses
+   * @param globals Variables declared outside of functions
+   * @param types Named types, keyed by C declaration style name e.g. `struct Node`
+   * @param isLittleEndian Byte order of expression operands
+   */
+  constructor(
+    private functions: DwarfFunction[],
+    private sectionRanges: LoadedSectionRange[],
+    globals: DwarfGlobal[] = [],
+    private types = new Map<string, DwarfType>(),
+    private isLittleEndian = false,
+  ) {
+    for (const global of globals) {
+      if (!this.globals.has(global.name)) {
+        this.globals.set(global.name, global);
+      }
+    }
+  }
+
+  /**
+   * Gets a variable declared outside of any function.
+   *
+   * @param name Variable name
+   * @returns Variable with its loaded address, or undefined if not found
+   */
+  public getGlobal(name: string): DwarfGlobal | undefined {
+    const global = this.globals.get(name);
+    return global
+      ? { ...global, address: this.toLoadedAddress(global.address) }
+      : undefined;
+  }
+
+  /**
+   * Looks up a type by name, as it would be written in a C cast.
+   *
+   * @param name Type name e.g. `struct Node *`, `UWORD` or `unsigned char`
+   * @returns Type, or undefined if there is no type with this name
+   */
+  public findType(name: string): DwarfType | undefined {
+    const match = name.trim().match(/^(.*?)\s*(\**)$/);
+    const baseName = match?.[1].replace(/\s+/g, " ");
+    let type =
+      baseName === "void"
+        ? voidType()
+        : baseName !== undefined
+          ? this.types.get(baseName)
+          : undefined;
+    for (let i = 0; type && i < (match?.[2].length ?? 0); i++) {
+      type = pointerTo(type);
+    }
+    return type;
+  }
+
+  /**
+   * Gets the variables in scope at an address.
+   *
+   * Includes parameters and locals of enclosing lexical blocks, with inner
+   * declarations hiding outer ones with the same name.
+   *
+   * @param pc Loaded code address
+   * @returns Variables, parameters first
+   */
+  public getVariables(pc: number): DwarfVariable[] {
+    const address = this.toElfAddress(pc);
+    if (address === undefined) {
+      return [];
+    }
+    const variables = new Map<string, DwarfVariable>();
+    let scope: DwarfScope | undefined = this.findFunction(address);
+    while (scope) {
+      for (const variable of scope.variables) {
+        variables.set(variable.name, variable);
+      }
+      scope = scope.children.find((child) =>
+        containsAddress(child.ranges, address),
+      );
+    }
+    return [...variables.values()].sort(
+      (a, b) => Number(b.isParameter) - Number(a.isParameter),
+    );
+  }
+
+  /**
+   * Evaluates where the value of a variable is stored in a stack frame.
+   *
+   * @param variable Variable in scope at pc
+   * @param pc Loaded code address in the frame
+   * @param frame Machine state of the frame
+   * @returns Location, or undefined if the value isn't available at this address
+   */
+  public async getLocation(
+    variable: DwarfVariable,
+    pc: number,
+    frame: FrameContext,
+  ): Promise<VariableLocation | undefined> {
+    if (variable.constValue !== undefined) {
+      return typeof variable.constValue === "number"
+        ? { kind: "value", value: variable.constValue }
+        : { kind: "bytes", bytes: variable.constValue };
+    }
+    const address = this.toElfAddress(pc);
+    if (!variable.location || address === undefined) {
+      return;
+    }
+    let expression: Uint8Array | undefined;
+    if (variable.location instanceof Uint8Array) {
+      expression = variable.location;
+    } else {
+      expression = variable.location.find(
+        (entry) => address >= entry.start && address < entry.end,
+      )?.expression;
+    }
+    if (!expression?.length) {
+      return;
+    }
+
+    const fn = this.findFunction(address);
+    const getFrameBase = async () => {
+      const location = fn?.frameBase
+        ? await this.evaluate(fn.frameBase, frame)
+        : undefined;
+      // A register location describes the frame base as the register's value
+      if (location?.kind === "register") {
+        return frame.registers[location.register];
+      }
+      return location?.kind === "memory" ? location.address : undefined;
+    };
+    return this.evaluate(expression, frame, getFrameBase);
+  }
+
+  private findFunction(address: number): DwarfFunction | undefined {
+    return this.functions.find((fn) => containsAddress(fn.ranges, address));
+  }
+
+  /**
+   * Evaluates a DWARF location expression.
+   *
+   * Supports the subset of operations generated by GCC for m68k: register,
+   * frame base and absolute locations, and simple computed values.
+   */
+  private async evaluate(
+    expression: Uint8Array,
+    frame: FrameContext,
+    getFrameBase?: () => Promise<number | undefined>,
+  ): Promise<VariableLocation | undefined> {
+    const reader = new ByteReader(expression, 0, this.isLittleEndian);
+    const stack: number[] = [];
+    const pop = () => {
+      const value = stack.pop();
+      if (value === undefined) {
+        throw new Error("DWARF expression stack underflow");
+      }
+      return value;
+    };
+    const register = (reg: number) => {
+      const value = frame.registers[reg];
+      if (value === undefined) {
+        throw new Error(`Register ${reg} unavailable in this frame`);
+      }
+      return value;
+    };
+    let registerLocation: number | undefined;
+
+    while (!reader.done()) {
+      const op = reader.u8();
+      if (op >= DW_OP.lit0 && op <= DW_OP.lit31) {
+        stack.push(op - DW_OP.lit0);
+        continue;
+      }
+      if (op >= DW_OP.reg0 && op <= DW_OP.reg31) {
+        registerLocation = op - DW_OP.reg0;
+        continue;
+      }
+      if (op >= DW_OP.breg0 && op <= DW_OP.breg31) {
+        stack.push(register(op - DW_OP.breg0) + reader.sleb());
+        continue;
+      }
+      switch (op) {
+        case DW_OP.addr:
+          stack.push(this.toLoadedAddress(reader.u32()));
+          break;
+        case DW_OP.deref:
+          stack.push(await frame.peek32(pop()));
+          break;
+        case DW_OP.deref_size: {
+          // Value is in the most significant bytes of the long at the address
+          const size = reader.u8();
+          const value = await frame.peek32(pop());
+          stack.push(size >= 4 ? value : value >>> ((4 - size) * 8));
+          break;
+        }
+        case DW_OP.const1u:
+          stack.push(reader.u8());
+          break;
+        case DW_OP.const1s:
+          stack.push((reader.u8() << 24) >> 24);
+          break;
+        case DW_OP.const2u:
+          stack.push(reader.u16());
+          break;
+        case DW_OP.const2s:
+          stack.push((reader.u16() << 16) >> 16);
+          break;
+        case DW_OP.const4u:
+          stack.push(reader.u32());
+          break;
+        case DW_OP.const4s:
+          stack.push(reader.u32() | 0);
+          break;
+        case DW_OP.constu:
+          stack.push(reader.uleb());
+          break;
+        case DW_OP.consts:
+          stack.push(reader.sleb());
+          break;
+        case DW_OP.dup: {
+          const value = pop();
+          stack.push(value, value);
+          break;
+        }
+        case DW_OP.drop:
+          pop();
+          break;
+        case DW_OP.and:
+          stack.push(pop() & pop());
+          break;
+        case DW_OP.or:
+          stack.push(pop() | pop());
+          break;
+        case DW_OP.plus:
+          stack.push(pop() + pop());
+          break;
+        case DW_OP.minus: {
+          const b = pop();
+          stack.push(pop() - b);
+          break;
+        }
+        case DW_OP.neg:
+          stack.push(-pop());
+          break;
+        case DW_OP.shl: {
+          const b = pop();
+          stack.push(pop() << b);
+          break;
+        }
+        case DW_OP.shr: {
+          const b = pop();
+          stack.push(pop() >>> b);
+          break;
+        }
+        case DW_OP.plus_uconst:
+          stack.push(pop() + reader.uleb());
+          break;
+        case DW_OP.regx:
+          registerLocation = reader.uleb();
+          break;
+        case DW_OP.bregx: {
+          const reg = reader.uleb();
+          stack.push(register(reg) + reader.sleb());
+          break;
+        }
+        case DW_OP.fbreg: {
+          const offset = reader.sleb();
+          const frameBase = await getFrameBase?.();
+          if (frameBase === undefined) {
+            throw new Error("Frame base unavailable");
+          }
+          stack.push(frameBase + offset);
+          break;
+        }
+        case DW_OP.call_frame_cfa:
+          if (frame.cfa === undefined) {
+            throw new Error("Canonical frame address unavailable");
+          }
+          stack.push(frame.cfa);
+          break;
+        case DW_OP.piece:
+          // A single piece covering the whole variable is the same as no piece
+          reader.uleb();
+          if (!reader.done()) {
+            throw new Error("Variables split into pieces are not supported");
+          }
+          break;
+        case DW_OP.nop:
+          break;
+        case DW_OP.implicit_value:
+          return { kind: "bytes", bytes: reader.bytes(reader.uleb()) };
+        case DW_OP.stack_value:
+          return { kind: "value", value: pop() };
+        case DW_OP.entry_value:
+        case DW_OP.GNU_entry_value:
+          // Value on entry to the function, which is no longer known
+          return;
+        default:
+          throw new Error(
+            `Unsupported DWARF expression operation 0x${op.toString(16)}`,
+          );
+      }
+    }
+
+    if (registerLocation !== undefined) {
+      return { kind: "register", register: registerLocation };
+    }
+    return { kind: "memory", address: pop() };
+  }
+
+  private toElfAddress(address: number): number | undefined {
+    const section = this.sectionRanges.find(
+      (s) => address >= s.start + s.offset && address < s.end + s.offset,
+    );
+    return section ? address - section.offset : undefined;
+  }
+
+  private toLoadedAddress(address: number): number {
+    const section = this.sectionRanges.find(
+      (s) => address >= s.start && address < s.end,
+    );
+    return section ? address + section.offset : address;
+  }
+}
+
+/**
+ * Formats the value of a variable for display.
+ *
+ * @param data Value bytes, big endian
+ * @param type Variable type
+ * @param sourceMap Source map for showing symbols for pointer values
+ */
+export function formatTypedValue(
+  data: Buffer,
+  type: DwarfType | undefined,
+  sourceMap?: SourceMap,
+): string {
+  const size = Math.min(data.length, type?.size || data.length);
+  if (!type || size === 0) {
+    return formatHex(data.readUIntBE(0, Math.min(size || 4, 4)), size * 2);
+  }
+  switch (type.kind) {
+    case "pointer": {
+      const value = data.readUInt32BE(0);
+      return sourceMap ? formatAddress(value, sourceMap) : formatHex(value);
+    }
+    case "base":
+      return formatBaseValue(data.subarray(0, size), type.encoding);
+    case "enum": {
+      const value = readInteger(data.subarray(0, size), type.encoding);
+      const enumerator = type.enumerators?.find((e) => e.value === value);
+      return enumerator?.name ?? String(value);
+    }
+    case "array":
+      if (isCharType(type.target)) {
+        return formatString(data.subarray(0, size));
+      }
+      return `[${type.count ?? 0}]`;
+    case "struct":
+    case "union":
+      return "{...}";
+    default:
+      return formatHex(data.readUIntBE(0, Math.min(size, 4)), size * 2);
+  }
+}
+
+/**
+ * Formats bytes as a quoted C string, up to the first null.
+ */
+export function formatString(data: Buffer): string {
+  let value = "";
+  for (const byte of data) {
+    if (byte === 0) {
+      break;
+    }
+    value +=
+      byte === 0x22 || byte === 0x5c
+        ? "\\" + String.fromCharCode(byte)
+        : byte >= 0x20 && byte < 0x7f
+          ? String.fromCharCode(byte)
+          : "\\x" + byte.toString(16).padStart(2, "0");
+  }
+  return `"${value}"`;
+}
+
+/**
+ * Checks for a single byte character type, for showing arrays and pointers as strings.
+ */
+export function isCharType(type?: DwarfType): boolean {
+  return (
+    type?.kind === "base" &&
+    type.size === 1 &&
+    (type.encoding === DW_ATE.signed_char ||
+      type.encoding === DW_ATE.unsigned_char)
+  );
+}
+
+/**
+ * Gets the value bytes of a struct or union member.
+ *
+ * Bit fields are extracted to a value of the size of the member type.
+ *
+ * @param data Bytes of the containing struct
+ * @param member Member to read
+ */
+export function readMember(data: Buffer, member: DwarfMember): Buffer {
+  const size = member.type.size;
+  if (member.bitSize === undefined) {
+    return data.subarray(member.offset, member.offset + size);
+  }
+  const bitOffset = member.bitOffset ?? 0;
+  let value = 0n;
+  const end = member.offset + Math.ceil((bitOffset + member.bitSize) / 8);
+  for (let i = member.offset; i < end; i++) {
+    value = (value << 8n) | BigInt(data[i] ?? 0);
+  }
+  const bits = BigInt((end - member.offset) * 8);
+  value =
+    (value >> (bits - BigInt(bitOffset + member.bitSize))) &
+    ((1n << BigInt(member.bitSize)) - 1n);
+  // Sign extend signed fields
+  if (
+    (member.type.encoding === DW_ATE.signed ||
+      member.type.encoding === DW_ATE.signed_char) &&
+    value & (1n << BigInt(member.bitSize - 1))
+  ) {
+    value -= 1n << BigInt(member.bitSize);
+  }
+  const result = Buffer.alloc(size);
+  for (let i = size - 1; i >= 0; i--) {
+    result[i] = Number(value & 0xffn);
+    value >>= 8n;
+  }
+  return result;
+}
+
+function readInteger(data: Buffer, encoding?: number): number {
+  const size = Math.min(data.length, 4);
+  if (size === 0) {
+    return 0;
+  }
+  return encoding === DW_ATE.unsigned
+    ? data.readUIntBE(0, size)
+    : data.readIntBE(0, size);
+}
+
+function voidType(): DwarfType {
+  return { kind: "void", name: "void", size: 0 };
+}
+
+function pointerTo(type: DwarfType): DwarfType {
+  const name = type.name.endsWith("*") ? `${type.name}*` : `${type.name} *`;
+  return { kind: "pointer", name, size: 4, target: type };
+}
+
+function formatBaseValue(data: Buffer, encoding?: number): string {
+  const size = data.length;
+  switch (encoding) {
+    case DW_ATE.boolean:
+      return data.some((b) => b !== 0) ? "true" : "false";
+    case DW_ATE.float:
+      if (size === 4) return String(data.readFloatBE(0));
+      if (size === 8) return String(data.readDoubleBE(0));
+      break;
+    case DW_ATE.signed_char:
+    case DW_ATE.unsigned_char: {
+      if (size !== 1) break;
+      const value =
+        encoding === DW_ATE.signed_char ? data.readInt8(0) : data.readUInt8(0);
+      const char =
+        value >= 0x20 && value < 0x7f ? ` '${String.fromCharCode(value)}'` : "";
+      return value + char;
+    }
+    case DW_ATE.signed:
+      if (size === 8) return data.readBigInt64BE(0).toString();
+      if (size <= 4) return String(data.readIntBE(0, size));
+      break;
+    case DW_ATE.unsigned:
+    case DW_ATE.address:
+      if (size === 8) return data.readBigUInt64BE(0).toString();
+      if (size <= 4) return String(data.readUIntBE(0, size));
+      break;
+  }
+  return "0x" + data.toString("hex");
+}
+
+/**
+ * Creates a variables table from DWARF debug information.
+ *
+ * @param dwarfData Parsed DWARF debug information
+ * @param offsets Memory offset addresses for loaded sections
+ * @returns Variables table for the loaded program
+ */
+export function variablesFromDwarf(
+  dwarfData: DWARFData,
+  offsets: number[],
+): DwarfVariables {
+  const reader = new DebugInfoReader(dwarfData);
+  const functions: DwarfFunction[] = [];
+  const globals: DwarfGlobal[] = [];
+  const types = new Map<string, DwarfType>();
+  for (const cu of dwarfData.compilationUnits) {
+    for (const root of cu.dies) {
+      reader.collectFunctions(root, cu, functions);
+      reader.collectGlobals(root, globals, types);
+    }
+  }
+  return new DwarfVariables(
+    functions,
+    loadedSectionRanges(dwarfData, offsets),
+    globals,
+    types,
+    dwarfData.isLittleEndian,
+  );
+}
+
+/**
+ * Builds function scopes and types from the DIE tree
+ */
+class DebugInfoReader {
+  private entries = new Map<number, DebugInfoEntry>();
+  private types = new Map<number, DwarfType>();
+  /** Base address for location and range lists in the current unit */
+  private baseAddress = 0;
+  private unit?: CompilationUnit;
+
+  constructor(private dwarfData: DWARFData) {
+    const index = (dies: DebugInfoEntry[]) => {
+      for (const die of dies) {
+        this.entries.set(die.offset, die);
+        index(die.children);
+      }
+    };
+    for (const cu of dwarfData.compilationUnits) {
+      index(cu.dies);
+    }
+  }
+
+  public collectFunctions(
+    die: DebugInfoEntry,
+    cu: CompilationUnit,
+    functions: DwarfFunction[],
+  ): void {
+    if (die.tag === DW_TAG.compile_unit) {
+      this.unit = cu;
+      this.baseAddress = this.attribute(die, DW_AT.low_pc) ?? 0;
+    }
+    if (die.tag === DW_TAG.subprogram) {
+      const ranges = this.ranges(die);
+      // Declarations and abstract instances have no code
+      if (ranges.length && !this.isDiscarded(die, ranges)) {
+        const fn: DwarfFunction = {
+          name: this.name(die) ?? "",
+          frameBase: this.attribute(die, DW_AT.frame_base, false),
+          ...this.scope(die, ranges),
+        };
+        functions.push(fn);
+      }
+      return;
+    }
+    // Functions may be nested in namespaces or classes
+    for (const child of die.children) {
+      this.collectFunctions(child, cu, functions);
+    }
+  }
+
+  /**
+   * Collects variables with static addresses and named types declared
+   * outside of functions.
+   */
+  public collectGlobals(
+    die: DebugInfoEntry,
+    globals: DwarfGlobal[],
+    types: Map<string, DwarfType>,
+  ): void {
+    for (const child of die.children) {
+      switch (child.tag) {
+        case DW_TAG.variable: {
+          const name = this.name(child);
+          const location = this.attribute(child, DW_AT.location, false);
+          // Only fixed addresses, not TLS or optimized out globals
+          if (
+            name &&
+            location instanceof Uint8Array &&
+            location.length === 5 &&
+            location[0] === DW_OP.addr
+          ) {
+            const typeOffset = this.attribute(child, DW_AT.type);
+            globals.push({
+              name,
+              type:
+                typeOffset !== undefined ? this.type(typeOffset) : undefined,
+              address: new ByteReader(
+                location,
+                1,
+                this.dwarfData.isLittleEndian,
+              ).u32(),
+            });
+          }
+          break;
+        }
+        case DW_TAG.base_type:
+        case DW_TAG.typedef:
+        case DW_TAG.structure_type:
+        case DW_TAG.union_type:
+        case DW_TAG.enumeration_type: {
+          // Skip anonymous types and forward declarations
+          if (
+            !this.name(child) ||
+            this.attribute(child, DW_AT.declaration, false)
+          ) {
+            break;
+          }
+          const type = this.type(child.offset);
+          if (!types.has(type.name)) {
+            types.set(type.name, type);
+          }
+          break;
+        }
+        case DW_TAG.namespace:
+          this.collectGlobals(child, globals, types);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Checks for a function removed by the linker e.g. with --gc-sections.
+   *
+   * Its debug info is kept, but with addresses relocated to zero, which
+   * would overlap whatever code is actually at the start of the section.
+   */
+  private isDiscarded(die: DebugInfoEntry, ranges: AddressRange[]): boolean {
+    if (ranges[0].start !== 0) {
+      return false;
+    }
+    const name = this.name(die);
+    return !this.dwarfData.elfSymbols.some(
+      (symbol) => symbol.value === 0 && symbol.name === name,
+    );
+  }
+
+  private scope(die: DebugInfoEntry, ranges: AddressRange[]): DwarfScope {
+    const scope: DwarfScope = { ranges, variables: [], children: [] };
+    for (const child of die.children) {
+      switch (child.tag) {
+        case DW_TAG.formal_parameter:
+        case DW_TAG.variable: {
+          const variable = this.variable(child);
+          if (variable) {
+            scope.variables.push(variable);
+          }
+          break;
+        }
+        case DW_TAG.lexical_block:
+        case DW_TAG.inlined_subroutine:
+          scope.children.push(this.scope(child, this.ranges(child)));
+          break;
+      }
+    }
+    return scope;
+  }
+
+  private variable(die: DebugInfoEntry): DwarfVariable | undefined {
+    const name = this.name(die);
+    // Static locals and extern declarations are shown as symbols instead
+    if (!name || this.attribute(die, DW_AT.declaration, false)) {
+      return;
+    }
+    const typeOffset = this.attribute(die, DW_AT.type);
+    const variable: DwarfVariable = {
+      name,
+      isParameter: die.tag === DW_TAG.formal_parameter,
+      type: typeOffset !== undefined ? this.type(typeOffset) : undefined,
+      constValue: this.attribute(die, DW_AT.const_value, false),
+    };
+    const location = die.attributes.find((a) => a.name === DW_AT.location);
+    if (location?.value instanceof Uint8Array) {
+      variable.location = location.value;
+    } else if (
+      location?.form === DW_FORM.sec_offset ||
+      location?.form === DW_FORM.data4
+    ) {
+      variable.location = this.locationList(location.value);
+    }
+    return variable;
+  }
+
+  /**
+   * Resolves a type DIE to a type description.
+   */
+  private type(offset: number): DwarfType {
+    const cached = this.types.get(offset);
+    if (cached) {
+      return cached;
+    }
+    const die = this.entries.get(offset);
+    // Placeholder in case of circular references
+    const type = voidType();
+    this.types.set(offset, type);
+    if (!die) {
+      return type;
+    }
+
+    const name = this.name(die);
+    const size: number = this.attribute(die, DW_AT.byte_size) ?? 0;
+    const targetOffset = this.attribute(die, DW_AT.type);
+    const target = () =>
+      targetOffset !== undefined ? this.type(targetOffset) : type;
+
+    switch (die.tag) {
+      case DW_TAG.base_type:
+        Object.assign(type, {
+          kind: "base",
+          name: name ?? "",
+          size,
+          encoding: this.attribute(die, DW_AT.encoding),
+        });
+        break;
+      case DW_TAG.pointer_type: {
+        const targetType =
+          targetOffset !== undefined ? this.type(targetOffset) : undefined;
+        Object.assign(type, pointerTo(targetType ?? type), {
+          size: size || 4,
+          target: targetType,
+        });
+        break;
+      }
+      case DW_TAG.typedef:
+        // Named before resolving, for pointers back to this typedef
+        type.name = name ?? "";
+        Object.assign(type, { ...target(), name: name ?? "" });
+        break;
+      case DW_TAG.const_type:
+      case DW_TAG.volatile_type: {
+        const qualifier = die.tag === DW_TAG.const_type ? "const" : "volatile";
+        const targetType =
+          targetOffset !== undefined ? this.type(targetOffset) : undefined;
+        // Qualified arrays are already named by their qualified elements
+        Object.assign(type, targetType, {
+          name:
+            targetType?.kind === "array"
+              ? targetType.name
+              : `${qualifier} ${targetType?.name ?? "void"}`,
+        });
+        break;
+      }
+      case DW_TAG.structure_type:
+      case DW_TAG.union_type: {
+        const kind = die.tag === DW_TAG.structure_type ? "struct" : "union";
+        // Members are added after the type is complete, so recursive
+        // references share the same array
+        const members: DwarfMember[] = [];
+        Object.assign(type, {
+          kind,
+          name: `${kind} ${name ?? "<anonymous>"}`,
+          size,
+          members,
+        });
+        for (const child of die.children) {
+          if (child.tag === DW_TAG.member) {
+            members.push(this.member(child));
+          }
+        }
+        break;
+      }
+      case DW_TAG.enumeration_type:
+        Object.assign(type, {
+          kind: "enum",
+          name: `enum ${name ?? "<anonymous>"}`,
+          size,
+          encoding: this.attribute(die, DW_AT.encoding),
+          enumerators: die.children
+            .filter((child) => child.tag === DW_TAG.enumerator)
+            .map((child) => ({
+              name: this.name(child) ?? "",
+              value: this.attribute(child, DW_AT.const_value) ?? 0,
+            })),
+        });
+        break;
+      case DW_TAG.array_type: {
+        const element = target();
+        const counts = die.children
+          .filter((child) => child.tag === DW_TAG.subrange_type)
+          .map((child) => {
+            const count = this.attribute(child, DW_AT.count);
+            const upperBound = this.attribute(child, DW_AT.upper_bound);
+            return count ?? (upperBound !== undefined ? upperBound + 1 : 0);
+          });
+        // Multi-dimensional arrays are arrays of arrays
+        let arrayType = element;
+        for (let i = counts.length - 1; i >= 0; i--) {
+          arrayType = {
+            kind: "array",
+            name: `${element.name}${counts
+              .slice(i)
+              .map((c) => `[${c}]`)
+              .join("")}`,
+            size: counts[i] * arrayType.size,
+            target: arrayType,
+            count: counts[i],
+          };
+        }
+        Object.assign(type, arrayType);
+        break;
+      }
+      case DW_TAG.subroutine_type:
+        Object.assign(type, { kind: "function", name: "function" });
+        break;
+    }
+    return type;
+  }
+
+  private member(die: DebugInfoEntry): DwarfMember {
+    const typeOffset = this.attribute(die, DW_AT.type);
+    const location = this.attribute(die, DW_AT.data_member_location);
+    let offset = 0;
+    if (typeof location === "number") {
+      offset = location;
+    } else if (
+      location instanceof Uint8Array &&
+      location[0] === DW_OP.plus_uconst
+    ) {
+      offset = new ByteReader(location, 1).uleb();
+    }
+    const member: DwarfMember = {
+      name: this.name(die) ?? "",
+      type: typeOffset !== undefined ? this.type(typeOffset) : voidType(),
+      offset,
+    };
+    const bitSize = this.attribute(die, DW_AT.bit_size);
+    if (bitSize !== undefined) {
+      // DWARF 4+ offset from the start of the struct, or DWARF 2 offset from
+      // the most significant bit of the storage unit, which is the same on
+      // big endian targets
+      const bitOffset =
+        this.attribute(die, DW_AT.data_bit_offset) ??
+        offset * 8 + (this.attribute(die, DW_AT.bit_offset) ?? 0);
+      member.offset = Math.floor(bitOffset / 8);
+      member.bitOffset = bitOffset % 8;
+      member.bitSize = bitSize;
+    }
+    return member;
+  }
+
+  /**
+   * Gets an attribute value, following abstract origins and specifications
+   * for attributes which are inherited from the declaration.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private attribute(die: DebugInfoEntry, name: number, inherit = true): any {
+    const attr = die.attributes.find((a) => a.name === name);
+    if (attr) {
+      return attr.value;
+    }
+    if (inherit) {
+      const origin = die.attributes.find(
+        (a) =>
+          a.name === DW_AT.abstract_origin || a.name === DW_AT.specification,
+      );
+      const originDie =
+        origin !== undefined ? this.entries.get(origin.value) : undefined;
+      if (originDie && originDie !== die) {
+        return this.attribute(originDie, name);
+      }
+    }
+  }
+
+  private name(die: DebugInfoEntry): string | undefined {
+    const attr = die.attributes.find((a) => a.name === DW_AT.name);
+    if (!attr) {
+      const origin = die.attributes.find(
+        (a) =>
+          a.name === DW_AT.abstract_origin || a.name === DW_AT.specification,
+      );
+      const originDie =
+        origin !== undefined ? this.entries.get(origin.value) : undefined;
+      return originDie ? this.name(originDie) : undefined;
+    }
+    if (attr.form === DW_FORM.strp) {
+      return this.dwarfData.debugStrings
+        ? readString(this.dwarfData.debugStrings, attr.value)
+        : undefined;
+    }
+    return typeof attr.value === "string" ? attr.value : undefined;
+  }
+
+  /**
+   * Gets the ELF address ranges covered by a DIE.
+   */
+  private ranges(die: DebugInfoEntry): AddressRange[] {
+    const lowPc = die.attributes.find((a) => a.name === DW_AT.low_pc);
+    const highPc = die.attributes.find((a) => a.name === DW_AT.high_pc);
+    if (lowPc && highPc) {
+      // High PC is an offset from low PC unless it's an address
+      const end =
+        highPc.form === DW_FORM.addr
+          ? highPc.value
+          : lowPc.value + highPc.value;
+      return [{ start: lowPc.value, end }];
+    }
+    const ranges = die.attributes.find((a) => a.name === DW_AT.ranges);
+    if (ranges && ranges.form !== DW_FORM.rnglistx) {
+      return this.rangeList(ranges.value);
+    }
+    return [];
+  }
+
+  private rangeList(offset: number): AddressRange[] {
+    const ranges: AddressRange[] = [];
+    const { debugRngLists, debugRanges, isLittleEndian } = this.dwarfData;
+    let base = this.baseAddress;
+
+    if ((this.unit?.version ?? 0) >= 5) {
+      if (!debugRngLists) return ranges;
+      const reader = new ByteReader(debugRngLists, offset, isLittleEndian);
+      while (!reader.done()) {
+        const kind = reader.u8();
+        if (kind === DW_RLE.end_of_list) {
+          break;
+        } else if (kind === DW_RLE.offset_pair) {
+          const start = base + reader.uleb();
+          ranges.push({ start, end: base + reader.uleb() });
+        } else if (kind === DW_RLE.base_address) {
+          base = reader.u32();
+        } else if (kind === DW_RLE.start_end) {
+          const start = reader.u32();
+          ranges.push({ start, end: reader.u32() });
+        } else if (kind === DW_RLE.start_length) {
+          const start = reader.u32();
+          ranges.push({ start, end: start + reader.uleb() });
+        } else {
+          // Indexed addresses need .debug_addr, which isn't used without split DWARF
+          break;
+        }
+      }
+    } else if (debugRanges) {
+      const reader = new ByteReader(debugRanges, offset, isLittleEndian);
+      while (!reader.done()) {
+        const start = reader.u32();
+        const end = reader.u32();
+        if (start === 0 && end === 0) {
+          break;
+        } else if (start === 0xffffffff) {
+          base = end;
+        } else {
+          ranges.push({ start: base + start, end: base + end });
+        }
+      }
+    }
+    return ranges;
+  }
+
+  private locationList(offset: number): LocationListEntry[] {
+    const entries: LocationListEntry[] = [];
+    const { debugLocLists, debugLoc, isLittleEndian } = this.dwarfData;
+    let base = this.baseAddress;
+
+    if ((this.unit?.version ?? 0) >= 5) {
+      if (!debugLocLists) return entries;
+      const reader = new ByteReader(debugLocLists, offset, isLittleEndian);
+      const add = (start: number, end: number) =>
+        entries.push({ start, end, expression: reader.bytes(reader.uleb()) });
+      while (!reader.done()) {
+        const kind = reader.u8();
+        if (kind === DW_LLE.end_of_list) {
+          break;
+        } else if (kind === DW_LLE.offset_pair) {
+          const start = base + reader.uleb();
+          add(start, base + reader.uleb());
+        } else if (kind === DW_LLE.default_location) {
+          add(0, Infinity);
+        } else if (kind === DW_LLE.base_address) {
+          base = reader.u32();
+        } else if (kind === DW_LLE.start_end) {
+          const start = reader.u32();
+          add(start, reader.u32());
+        } else if (kind === DW_LLE.start_length) {
+          const start = reader.u32();
+          add(start, start + reader.uleb());
+        } else {
+          // Indexed addresses need .debug_addr, which isn't used without split DWARF
+          break;
+        }
+      }
+    } else if (debugLoc) {
+      const reader = new ByteReader(debugLoc, offset, isLittleEndian);
+      while (!reader.done()) {
+        const start = reader.u32();
+        const end = reader.u32();
+        if (start === 0 && end === 0) {
+          break;
+        } else if (start === 0xffffffff) {
+          base = end;
+        } else {
+          entries.push({
+            start: base + start,
+            end: base + end,
+            expression: reader.bytes(reader.u16()),
+          });
+        }
+      }
+    }
+    return entries;
+  }
+}
+
+/**
+ * Sequential reader for DWARF encoded values
+ */
+class ByteReader {
+  private view: DataView;
+
+  constructor(
+    private data: Uint8Array,
+    private offset = 0,
+    private isLittleEndian = false,
+  ) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  public done(): boolean {
+    return this.offset >= this.data.length;
+  }
+
+  public u8(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  public u16(): number {
+    const value = this.view.getUint16(this.offset, this.isLittleEndian);
+    this.offset += 2;
+    return value;
+  }
+
+  public u32(): number {
+    const value = this.view.getUint32(this.offset, this.isLittleEndian);
+    this.offset += 4;
+    return value;
+  }
+
+  public uleb(): number {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = this.u8();
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return value >>> 0;
+  }
+
+  public sleb(): number {
+    let value = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = this.u8();
+      value |= (byte & 0x7f) << shift;
+      shift += 7;
+    } while (byte & 0x80);
+    if (shift < 32 && byte & 0x40) {
+      value |= -(1 << shift);
+    }
+    return value;
+  }
+
+  public bytes(length: number): Uint8Array {
+    const value = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+}
+
+function containsAddress(ranges: AddressRange[], address: number): boolean {
+  return (
+    ranges.length === 0 ||
+    ranges.some((range) => address >= range.start && address < range.end)
+  );
+}
+
+function readString(data: Uint8Array, offset: number): string {
+  let value = "";
+  for (let i = offset; i < data.length && data[i] !== 0; i++) {
+    value += String.fromCharCode(data[i]);
+  }
+  return value;
+}
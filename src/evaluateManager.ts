@@ -18,6 +18,7 @@ import { VAmiga } from "./vAmiga";
 import { SourceMap } from "./sourceMap";
 import { VariablesManager } from "./variablesManager";
 import { DisassemblyManager } from "./disassemblyManager";
+import { DwarfVariables } from "./dwarfVariables";
 
 /**
  * Result of evaluating an expression in the debug context.
@@ -137,12 +138,14 @@ export class EvaluateManager {
    * @param sourceMap Source map for symbol resolution and address formatting
    * @param variablesManager Variables manager for accessing flat variable data and registering array handles
    * @param disassemblyManager Disassembly manager for code inspection
+   * @param dwarfVariables Global variables and types for C programs, from DWARF debug info
    */
   constructor(
     private vAmiga: VAmiga,
     private sourceMap: SourceMap,
     private variablesManager: VariablesManager,
     private disassemblyManager: DisassemblyManager,
+    private dwarfVariables?: DwarfVariables,
   ) {
     this.parser = new Parser();
     this.parser.functions = {
@@ -233,6 +236,60 @@ export class EvaluateManager {
     return { value, memoryReference, type };
   }
 
+  /**
+   * Evaluates an expression to a number, for arguments such as addresses and beam positions.
+   *
+   * Unlike `evaluate`, hex literals are taken as they are rather than read from memory.
+   *
+   * @param expression The expression string to evaluate
+   * @returns Numeric value
+   * @throws Error if the expression doesn't evaluate to a number
+   */
+  public async evaluateNumber(expression: string): Promise<number> {
+    const literal = expression.trim().replace(/^\$([0-9a-f]+)$/i, "0x$1");
+    if (literal.match(/^0x[0-9a-f]+$/i)) {
+      return Number(literal);
+    }
+    const { value } = await this.evaluate(expression);
+    if (typeof value !== "number") {
+      throw new Error(`'${expression}' does not evaluate to a number`);
+    }
+    return value;
+  }
+
+  /**
+   * Checks that a condition expression is syntactically valid, without evaluating it.
+   *
+   * @param condition The condition expression to check
+   * @throws Error describing the syntax problem if the expression can't be parsed
+   */
+  public validateCondition(condition: string): void {
+    this.parser.parse(this.normalizeCondition(condition));
+  }
+
+  /**
+   * Evaluates a breakpoint condition expression.
+   *
+   * Accepts C-style `&&` and `||` operators in addition to the parser's `and` / `or`.
+   *
+   * @param condition The condition expression to evaluate
+   * @returns True if the condition evaluates to a truthy value
+   */
+  public async evaluateCondition(condition: string): Promise<boolean> {
+    const { value } = await this.evaluate(this.normalizeCondition(condition));
+    return Boolean(value);
+  }
+
+  /**
+   * Converts C-style logical operators and asm style hex to expr-eval syntax.
+   */
+  private normalizeCondition(condition: string): string {
+    return condition
+      .replace(/\$([0-9a-f]+)/gi, "0x$1")
+      .replace(/&&/g, " and ")
+      .replace(/\|\|/g, " or ");
+  }
+
   /**
    * Evaluates an expression and returns formatted result for Debug Adapter Protocol.
    *
@@ -254,6 +311,11 @@ export class EvaluateManager {
   }: DebugProtocol.EvaluateRequest["arguments"]): Promise<
     DebugProtocol.EvaluateResponse["body"]
   > {
+    const typed = await this.evaluateTyped(expression);
+    if (typed) {
+      return typed;
+    }
+
     const {
       value,
       memoryReference,
@@ -311,6 +373,83 @@ export class EvaluateManager {
     };
   }
 
+  /**
+   * Evaluates C global variables and casts using DWARF type information.
+   *
+   * Supports:
+   * - Global variable names e.g. `frameCounter`
+   * - Casts of expressions to a named type e.g. `(struct Node *)a0`
+   * - Dereferenced pointer casts e.g. `*(UWORD *)0xdff000`
+   *
+   * @param expression The expression string to evaluate
+   * @returns Typed evaluation response, or undefined if the expression has no type
+   */
+  private async evaluateTyped(
+    expression: string,
+  ): Promise<DebugProtocol.EvaluateResponse["body"] | undefined> {
+    if (!this.dwarfVariables) {
+      return;
+    }
+    expression = expression.trim();
+
+    const global = this.dwarfVariables.getGlobal(expression);
+    if (global?.type) {
+      const variable = await this.variablesManager.globalVariable(
+        expression,
+        global.type,
+        global.address,
+      );
+      return {
+        result: variable.value,
+        type: variable.type,
+        memoryReference: variable.memoryReference,
+        variablesReference: variable.variablesReference,
+      };
+    }
+
+    const match = expression.match(/^(\*?)\s*\(([^()]+)\)\s*(.+)$/);
+    let type = match ? this.dwarfVariables.findType(match[2]) : undefined;
+    if (!match || !type) {
+      return;
+    }
+    // Literal addresses are cast as they are, rather than read from memory
+    const operand = match[3].trim().replace(/^\$([0-9a-f]+)$/i, "0x$1");
+    const value = operand.match(/^0x[0-9a-f]+$/i)
+      ? Number(operand)
+      : (await this.evaluate(operand)).value;
+    if (typeof value !== "number") {
+      throw new Error(`Cannot cast ${match[3]} to ${type.name}`);
+    }
+    let data: Buffer = Buffer.alloc(4);
+    data.writeUInt32BE(value >>> 0);
+    let address: number | undefined;
+
+    if (match[1]) {
+      if (type.kind !== "pointer" || !type.target) {
+        throw new Error(`Cannot dereference ${type.name}`);
+      }
+      type = type.target;
+      address = value >>> 0;
+      data = await this.vAmiga.readMemory(address, type.size || 4);
+    } else if (type.size < 4) {
+      // Casts to smaller types keep the low order bytes
+      data = data.subarray(4 - type.size);
+    }
+
+    const variable = await this.variablesManager.typedVariable(
+      expression,
+      type,
+      data,
+      address,
+    );
+    return {
+      result: variable.value,
+      type: variable.type,
+      memoryReference: variable.memoryReference,
+      variablesReference: variable.variablesReference,
+    };
+  }
+
   private formatDataRegister(
     value: number,
     signed: boolean,
@@ -0,0 +1,176 @@
+import { VAmiga } from "./vAmiga";
+
+/**
+ * Exception stack frame pushed to the supervisor stack by the CPU
+ */
+export interface ExceptionFrame {
+  /** Exception vector number */
+  vector: number;
+  /** Address of the frame on the supervisor stack */
+  address: number;
+  /** Size of the frame in bytes, to find the stack before the exception */
+  size: number;
+  /** Status register before the exception */
+  sr: number;
+  /** Program counter pushed by the exception */
+  pc: number;
+  /** Stack frame format, from the format word on 68010+ */
+  format?: number;
+  /** Data or instruction fetch address which caused a bus or address error */
+  accessAddress?: number;
+  /** Special status word for bus and address errors */
+  faultStatus?: number;
+  /** Whether the faulted access was a read */
+  read?: boolean;
+  /** Function code of the faulted access */
+  functionCode?: number;
+  /** Whether the faulted access was an instruction fetch */
+  instructionFetch?: boolean;
+  /** Instruction register of a 68000 bus or address error */
+  instructionRegister?: number;
+  /** Address of the instruction which caused the exception, for format $2 frames */
+  instructionAddress?: number;
+}
+
+/** Frame size in bytes for each 68010+ format */
+const FORMAT_SIZES: Record<number, number> = {
+  0x0: 8, // Four-word
+  0x1: 8, // Throwaway
+  0x2: 12, // Six-word
+  0x8: 58, // 68010 bus/address error
+  0x9: 20, // Coprocessor mid-instruction
+  0xa: 32, // 68020 short bus cycle fault
+  0xb: 92, // 68020 long bus cycle fault
+};
+
+/** Format descriptions for display */
+export const FORMAT_NAMES: Record<number, string> = {
+  0x0: "four-word",
+  0x1: "throwaway",
+  0x2: "six-word",
+  0x8: "68010 bus fault",
+  0x9: "coprocessor mid-instruction",
+  0xa: "short bus cycle fault",
+  0xb: "long bus cycle fault",
+};
+
+/** Bytes to read for the largest frame */
+export const MAX_FRAME_SIZE = 92;
+
+const BUS_ERROR = 2;
+const ADDRESS_ERROR = 3;
+
+/**
+ * Decodes an exception stack frame.
+ *
+ * The layout depends on the CPU model. 68010+ frames end with a format word
+ * containing the vector offset, so a frame is decoded as 68010+ if this word
+ * matches the vector and a known format, and as a 68000 frame otherwise.
+ *
+ * @param data Memory from the supervisor stack pointer, up to MAX_FRAME_SIZE bytes
+ * @param vector Exception vector number
+ * @param address Address of the frame
+ */
+export function decodeExceptionFrame(
+  data: Buffer,
+  vector: number,
+  address = 0,
+): ExceptionFrame {
+  if (data.length >= 8) {
+    const formatWord = data.readUInt16BE(6);
+    const format = formatWord >> 12;
+    const size = FORMAT_SIZES[format];
+    if ((formatWord & 0xfff) === vector * 4 && size && data.length >= size) {
+      return decodeFormatFrame(data, vector, address, format, size);
+    }
+  }
+
+  if (vector === BUS_ERROR || vector === ADDRESS_ERROR) {
+    // 68000 group 0 frame: special status word, access address, instruction register, SR, PC
+    const faultStatus = data.readUInt16BE(0);
+    return {
+      vector,
+      address,
+      size: 14,
+      sr: data.readUInt16BE(8),
+      pc: data.readUInt32BE(10),
+      accessAddress: data.readUInt32BE(2),
+      faultStatus,
+      read: (faultStatus & 0x10) !== 0,
+      // Function codes 2 and 6 are user and supervisor program space
+      instructionFetch: (faultStatus & 0x3) === 2,
+      functionCode: faultStatus & 0x7,
+      instructionRegister: data.readUInt16BE(6),
+    };
+  }
+
+  return {
+    vector,
+    address,
+    size: 6,
+    sr: data.readUInt16BE(0),
+    pc: data.readUInt32BE(2),
+  };
+}
+
+function decodeFormatFrame(
+  data: Buffer,
+  vector: number,
+  address: number,
+  format: number,
+  size: number,
+): ExceptionFrame {
+  const frame: ExceptionFrame = {
+    vector,
+    address,
+    size,
+    sr: data.readUInt16BE(0),
+    pc: data.readUInt32BE(2),
+    format,
+  };
+  if (format === 0x2) {
+    frame.instructionAddress = data.readUInt32BE(8);
+  } else if (format === 0x8) {
+    // 68010: SSW at +8, fault address at +10
+    const faultStatus = data.readUInt16BE(8);
+    frame.faultStatus = faultStatus;
+    frame.accessAddress = data.readUInt32BE(10);
+    frame.read = (faultStatus & 0x100) !== 0;
+    frame.instructionFetch = (faultStatus & 0x2000) !== 0;
+    frame.functionCode = faultStatus & 0x7;
+  } else if (format === 0xa || format === 0xb) {
+    // 68020: SSW at +10, data cycle fault address at +16
+    const faultStatus = data.readUInt16BE(10);
+    frame.faultStatus = faultStatus;
+    frame.read = (faultStatus & 0x40) !== 0;
+    frame.functionCode = faultStatus & 0x7;
+    // Without a data fault, the fault is on prefetch of instruction pipe stage C or B
+    frame.instructionFetch = (faultStatus & 0x100) === 0;
+    if (!frame.instructionFetch) {
+      frame.accessAddress = data.readUInt32BE(16);
+    } else if (faultStatus & 0x8000) {
+      frame.accessAddress = frame.pc + 2;
+    } else if (faultStatus & 0x4000) {
+      frame.accessAddress = frame.pc + 4;
+    }
+  }
+  return frame;
+}
+
+/**
+ * Reads the exception stack frame at the supervisor stack pointer.
+ *
+ * This is only valid when stopped on entry to the exception handler, before it modifies the stack.
+ *
+ * @param vAmiga VAmiga instance
+ * @param vector Exception vector number
+ */
+export async function readExceptionFrame(
+  vAmiga: VAmiga,
+  vector: number,
+): Promise<ExceptionFrame> {
+  const cpuInfo = await vAmiga.getCpuInfo();
+  const address = Number(cpuInfo.a7);
+  const data = await vAmiga.readMemory(address, MAX_FRAME_SIZE);
+  return decodeExceptionFrame(data, vector, address);
+}
@@ -3,6 +3,14 @@ import { VamigaDebugAdapter } from "./vAmigaDebugAdapter";
 import { VAmiga } from "./vAmiga";
 import { MemoryViewerProvider } from "./memoryViewerProvider";
 import { StateViewerProvider } from "./stateViewerProvider";
+import { TraceManager } from "./traceManager";
+import { ProfileManager } from "./profileManager";
+import { ProfilerProvider } from "./profilerProvider";
+import {
+  BuildTaskDefinition,
+  BuildTaskProvider,
+  buildTaskDefinition,
+} from "./buildTaskProvider";
 
 /**
  * Activates the VAmiga debugger VS Code extension.
@@ -17,6 +25,7 @@ export function activate(context: vscode.ExtensionContext) {
   const vAmiga = new VAmiga(context.extensionUri);
   const memoryViewer = new MemoryViewerProvider(context.extensionUri, vAmiga);
   const stateViewer = new StateViewerProvider(context.extensionUri, vAmiga);
+  const profiler = new ProfilerProvider(context.extensionUri);
 
   // Register the debug adapter
   context.subscriptions.push(
@@ -31,6 +40,31 @@ export function activate(context: vscode.ExtensionContext) {
     }),
   );
 
+  // Register build tasks, and build before launching when the configuration has build settings
+  const buildTasks = new BuildTaskProvider();
+  context.subscriptions.push(
+    vscode.tasks.registerTaskProvider(BuildTaskProvider.type, buildTasks),
+  );
+  context.subscriptions.push(
+    vscode.debug.registerDebugConfigurationProvider("vamiga", {
+      async resolveDebugConfigurationWithSubstitutedVariables(
+        folder: vscode.WorkspaceFolder | undefined,
+        config: vscode.DebugConfiguration,
+      ): Promise<vscode.DebugConfiguration | undefined> {
+        // A pre-launch task takes the place of the build settings, which VS Code runs itself
+        const definition = !config.preLaunchTask && buildTaskDefinition(config);
+        if (definition && (await buildTasks.build(definition, folder))) {
+          // Returning undefined aborts the launch
+          vscode.window.showErrorMessage(
+            "Build failed. See the Problems panel for errors.",
+          );
+          return undefined;
+        }
+        return config;
+      },
+    }),
+  );
+
   // Register EOF command
   context.subscriptions.push(
     vscode.commands.registerCommand("vamiga-debugger.eof", () => {
@@ -119,15 +153,388 @@ export function activate(context: vscode.ExtensionContext) {
     ),
   );
 
+  // Register trace recording commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vamiga-debugger.startTrace", () => {
+      const traceManager = getTraceManager();
+      if (traceManager) {
+        traceManager.startRecording();
+        vscode.window.showInformationMessage("CPU trace recording started");
+      }
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vamiga-debugger.stopTrace", async () => {
+      const traceManager = getTraceManager();
+      if (traceManager) {
+        await traceManager.stopRecording();
+        vscode.window.showInformationMessage(
+          `CPU trace recording stopped: ${traceManager.getEntries().length} instructions`,
+        );
+      }
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vamiga-debugger.exportTrace", async () => {
+      const traceManager = getTraceManager();
+      if (!traceManager) {
+        return;
+      }
+      const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: workspaceFolder
+          ? vscode.Uri.joinPath(workspaceFolder, "trace.txt")
+          : undefined,
+        filters: {
+          Text: ["txt"],
+          CSV: ["csv"],
+        },
+        title: "Export CPU Trace",
+      });
+      if (!uri) {
+        return;
+      }
+      try {
+        const count = await traceManager.exportTrace(uri.fsPath);
+        vscode.window.showInformationMessage(
+          `Exported ${count} instructions to ${vscode.workspace.asRelativePath(uri)}`,
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Failed to export trace: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }),
+  );
+
+  // Register profiler commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vamiga-debugger.startProfiler", () => {
+      const adapter = VamigaDebugAdapter.getActiveAdapter();
+      const profileManager = getProfileManager();
+      if (adapter && profileManager) {
+        const interval = vscode.workspace
+          .getConfiguration("vamiga-debugger")
+          .get<number>("profilerSampleInterval", 10);
+        profileManager.start(adapter.isEmulatorRunning(), interval);
+        profiler.setReport(undefined);
+        vscode.window.showInformationMessage("Profiler started");
+      }
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vamiga-debugger.stopProfiler", () => {
+      const profileManager = getProfileManager();
+      if (profileManager) {
+        profileManager.stop();
+        profiler.setReport(profileManager.getReport());
+        profiler.show();
+      }
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vamiga-debugger.showProfiler", () => {
+      const profileManager = getProfileManager();
+      if (profileManager) {
+        profiler.setReport(profileManager.getReport());
+        profiler.show();
+      }
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "vamiga-debugger.exportProfile",
+      async () => {
+        const profileManager = getProfileManager();
+        if (!profileManager) {
+          return;
+        }
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const uri = await vscode.window.showSaveDialog({
+          defaultUri: workspaceFolder
+            ? vscode.Uri.joinPath(workspaceFolder, "profile.folded")
+            : undefined,
+          filters: {
+            "Collapsed stacks": ["folded", "txt"],
+          },
+          title: "Export Profile",
+        });
+        if (!uri) {
+          return;
+        }
+        try {
+          const count = await profileManager.exportCollapsedStacks(uri.fsPath);
+          vscode.window.showInformationMessage(
+            `Exported ${count} samples to ${vscode.workspace.asRelativePath(uri)}`,
+          );
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to export profile: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      },
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vamiga-debugger.copperStep", async () => {
+      try {
+        const adapter = VamigaDebugAdapter.getActiveAdapter();
+        if (!adapter) {
+          throw new Error("No active debug session");
+        }
+        await adapter.copperStep();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Copper step failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vamiga-debugger.runToCursor", () => {
+      try {
+        const adapter = VamigaDebugAdapter.getActiveAdapter();
+        if (!adapter) {
+          throw new Error("No active debug session");
+        }
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+          throw new Error("No active editor");
+        }
+        adapter.runToLine(
+          editor.document.uri.fsPath,
+          editor.selection.active.line + 1,
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Run to cursor failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }),
+  );
+
+  // Register snapshot commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "vamiga-debugger.saveSnapshot",
+      async () => {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const uri = await vscode.window.showSaveDialog({
+          defaultUri: workspaceFolder
+            ? vscode.Uri.joinPath(workspaceFolder, "snapshot.vAmiga")
+            : undefined,
+          filters: {
+            "vAmiga snapshot": ["vAmiga"],
+          },
+          title: "Save Snapshot",
+        });
+        if (!uri) {
+          return;
+        }
+        try {
+          const adapter = VamigaDebugAdapter.getActiveAdapter();
+          if (!adapter) {
+            throw new Error("No active debug session");
+          }
+          await adapter.saveSnapshot(uri.fsPath);
+          vscode.window.showInformationMessage(
+            `Saved snapshot to ${vscode.workspace.asRelativePath(uri)}`,
+          );
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to save snapshot: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      },
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "vamiga-debugger.restoreSnapshot",
+      async () => {
+        const [uri] =
+          (await vscode.window.showOpenDialog({
+            defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+            filters: {
+              "vAmiga snapshot": ["vAmiga"],
+            },
+            title: "Restore Snapshot",
+          })) ?? [];
+        if (!uri) {
+          return;
+        }
+        try {
+          const adapter = VamigaDebugAdapter.getActiveAdapter();
+          if (!adapter) {
+            throw new Error("No active debug session");
+          }
+          await adapter.restoreSnapshot(uri.fsPath);
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Failed to restore snapshot: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      },
+    ),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vamiga-debugger.hotReload", async () => {
+      try {
+        const adapter = VamigaDebugAdapter.getActiveAdapter();
+        if (!adapter) {
+          throw new Error("No active debug session");
+        }
+        // Rebuild first, with the session's pre-launch task or build settings, as when launching
+        const session = vscode.debug.activeDebugSession;
+        const definition =
+          session && buildTaskDefinition(session.configuration);
+        if (session?.configuration.preLaunchTask) {
+          await runTask(session.configuration.preLaunchTask, buildTasks);
+        } else if (definition) {
+          if (await buildTasks.build(definition, session.workspaceFolder)) {
+            throw new Error("Build failed");
+          }
+        }
+        await adapter.hotReload();
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Hot reload failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("vamiga-debugger.addBeamtrap", async () => {
+      const position = await vscode.window.showInputBox({
+        title: "Add Beamtrap",
+        prompt: "Beam position to stop at, as vertical,horizontal",
+        placeHolder: "e.g. 100,0x40",
+        validateInput: (value) =>
+          value.includes(",") ? undefined : "Enter position as vpos,hpos",
+      });
+      if (position) {
+        vscode.debug.addBreakpoints([
+          new vscode.FunctionBreakpoint(`beam ${position.trim()}`),
+        ]);
+      }
+    }),
+  );
+
   // Clean up viewers on deactivation
   context.subscriptions.push({
     dispose: () => {
       memoryViewer.dispose();
       stateViewer.dispose();
+      profiler.dispose();
     },
   });
 }
 
+/**
+ * Gets the trace manager for the active debug session, showing an error if
+ * there isn't one.
+ */
+function getTraceManager(): TraceManager | undefined {
+  try {
+    const adapter = VamigaDebugAdapter.getActiveAdapter();
+    if (!adapter) {
+      throw new Error("No active debug session");
+    }
+    return adapter.getTraceManager();
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `CPU trace unavailable: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Gets the profile manager for the active debug session, showing an error if
+ * there isn't one.
+ */
+function getProfileManager(): ProfileManager | undefined {
+  try {
+    const adapter = VamigaDebugAdapter.getActiveAdapter();
+    if (!adapter) {
+      throw new Error("No active debug session");
+    }
+    return adapter.getProfileManager();
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Profiler unavailable: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Runs a task by name, and waits for it to finish.
+ *
+ * @param name Task label, as used for `preLaunchTask`
+ * @param buildTasks Provider to run our own build tasks, which have no process to wait for
+ * @throws Error if the task isn't found or fails
+ */
+async function runTask(
+  name: string,
+  buildTasks: BuildTaskProvider,
+): Promise<void> {
+  const tasks = await vscode.tasks.fetchTasks();
+  const task = tasks.find(
+    (t) => t.name === name || `${t.source}: ${t.name}` === name,
+  );
+  if (!task) {
+    throw new Error(`Task '${name}' not found`);
+  }
+  if (task.definition.type === BuildTaskProvider.type) {
+    const exitCode = await buildTasks.build(
+      task.definition as BuildTaskDefinition,
+      task.scope,
+    );
+    if (exitCode) {
+      throw new Error(`Task '${name}' failed with exit code ${exitCode}`);
+    }
+    return;
+  }
+  let execution: vscode.TaskExecution | undefined;
+  const listeners: vscode.Disposable[] = [];
+  // Tasks without a process, e.g. custom executions, only end the task. When there's a process, it ends first.
+  const ended = new Promise<number | undefined>((resolve) => {
+    listeners.push(
+      vscode.tasks.onDidEndTaskProcess((e) => {
+        if (e.execution === execution) {
+          resolve(e.exitCode);
+        }
+      }),
+      vscode.tasks.onDidEndTask((e) => {
+        if (e.execution === execution) {
+          resolve(undefined);
+        }
+      }),
+    );
+  });
+  try {
+    execution = await vscode.tasks.executeTask(task);
+    const exitCode = await ended;
+    if (exitCode === undefined) {
+      throw new Error(`Task '${name}' ended without an exit code`);
+    }
+    if (exitCode) {
+      throw new Error(`Task '${name}' failed with exit code ${exitCode}`);
+    }
+  } finally {
+    listeners.forEach((listener) => listener.dispose());
+  }
+}
+
 /**
  * Deactivates the VAmiga debugger extension.
  *
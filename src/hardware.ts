@@ -23,11 +23,37 @@ export const exceptionBreakpointFilters: DebugProtocol.ExceptionBreakpointsFilte
     { filter: "3", label: "Address error", default: true },
     { filter: "4", label: "Illegal instruction", default: true },
     { filter: "5", label: "Zero divide", default: true },
-    // { filter: '6', label: 'CHK instruction', default: false },
-    // { filter: '7', label: 'TRAPV instruction', default: false },
+    { filter: "6", label: "CHK instruction", default: false },
+    { filter: "7", label: "TRAPV instruction", default: false },
     { filter: "8", label: "Privilege violation", default: false },
+    { filter: "10", label: "Line A emulator", default: false },
+    { filter: "11", label: "Line F emulator", default: false },
+    { filter: "14", label: "Format error", default: false },
+    { filter: "15", label: "Uninitialized interrupt", default: false },
+    { filter: "24", label: "Spurious interrupt", default: false },
+    {
+      filter: "trap",
+      label: "TRAP instruction",
+      default: false,
+      supportsCondition: true,
+      conditionDescription:
+        "TRAP numbers to break on e.g. `0`, `0,15` or `1-3`. All if empty.",
+    },
+    {
+      filter: "irq",
+      label: "Interrupt",
+      default: false,
+      supportsCondition: true,
+      conditionDescription:
+        "Interrupt levels to break on e.g. `3` or `1-3,6`. All if empty.",
+    },
   ];
 
+/** Vector number of TRAP #0 */
+export const TRAP_VECTOR = 32;
+/** Vector number of the level 1 interrupt autovector, with levels 2-7 following */
+export const IRQ_VECTOR = 25;
+
 // What's your vector Victor?
 export const vectors = [
   "RESET_SSP",
@@ -1,4 +1,5 @@
 import * as vscode from "vscode";
+import { DebugProtocol } from "@vscode/debugprotocol";
 import { VAmiga, isEmulatorStateMessage, MemSrc } from "./vAmiga";
 import { VamigaDebugAdapter } from "./vAmigaDebugAdapter";
 import { formatHex } from "./numbers";
@@ -12,6 +13,7 @@ import {
   RequeestMemoryMessage,
   Suggestion,
   SuggestionsDataMessage,
+  ToggleCopperBreakpointMessage,
   ToggleLiveUpdateMessage,
   UpdateStateMessage,
   UpdateStateMessageProps,
@@ -60,6 +62,7 @@ export class MemoryViewerProvider {
 
   private panels = new Map<string, MemoryViewerPanel>();
   private emulatorMessageListener?: vscode.Disposable;
+  private breakpointListener?: vscode.Disposable;
   private isEmulatorRunning = false;
   private panelCounter = 0;
 
@@ -92,9 +95,19 @@ export class MemoryViewerProvider {
             // update now
             this.refreshChunks(panel);
           }
+          if (message.state === "paused" || message.state === "stopped") {
+            this.updateCopperState(panel);
+          }
         }
       },
     );
+
+    // Keep copper breakpoint markers in sync with the breakpoints view
+    this.breakpointListener = vscode.debug.onDidChangeBreakpoints(() => {
+      for (const panel of this.panels.values()) {
+        this.updateCopperState(panel);
+      }
+    });
   }
 
   /**
@@ -107,6 +120,7 @@ export class MemoryViewerProvider {
     }
     this.panels.clear();
     this.emulatorMessageListener?.dispose();
+    this.breakpointListener?.dispose();
   }
 
   /**
@@ -162,6 +176,7 @@ export class MemoryViewerProvider {
 
           // Update initial content
           await this.updateContent(panel);
+          await this.updateCopperState(panel);
           break;
         }
 
@@ -190,6 +205,11 @@ export class MemoryViewerProvider {
             this.stopLiveUpdate(panel);
           }
           break;
+        case "toggleCopperBreakpoint":
+          await this.toggleCopperBreakpoint(
+            (message as ToggleCopperBreakpointMessage).address,
+          );
+          break;
         case "getSuggestions": {
           const getSuggestionsMsg = message as GetSuggestionsMessage;
           const adapter = VamigaDebugAdapter.getActiveAdapter();
@@ -317,6 +337,68 @@ export class MemoryViewerProvider {
     }
   }
 
+  /**
+   * Sends current copper position and breakpoints to the webview
+   */
+  private async updateCopperState(panel: MemoryViewerPanel): Promise<void> {
+    const adapter = VamigaDebugAdapter.getActiveAdapter();
+    if (!adapter || this.isEmulatorRunning) {
+      return;
+    }
+    try {
+      const copperInfo = await this.vAmiga.getCopperInfo();
+      this.sendStateToWebview(panel.webviewPanel, {
+        copper: {
+          pc: Number(copperInfo.coppc0),
+          cop1lc: Number(copperInfo.cop1lc),
+          cop2lc: Number(copperInfo.cop2lc),
+          breakpoints: adapter
+            .getBreakpointManager()
+            .getCopperBreakpoints()
+            .map((bp) => bp.address),
+        },
+      });
+    } catch (err) {
+      console.error("Failed to get copper state:", err);
+    }
+  }
+
+  /**
+   * Adds or removes a copper breakpoint at an address.
+   *
+   * Breakpoints are added as function breakpoints, so that they're listed in the breakpoints view.
+   */
+  private async toggleCopperBreakpoint(address: number): Promise<void> {
+    const adapter = VamigaDebugAdapter.getActiveAdapter();
+    const session = vscode.debug.activeDebugSession;
+    if (!adapter || !session) {
+      return;
+    }
+    const existing = adapter
+      .getBreakpointManager()
+      .getCopperBreakpoints()
+      .find((bp) => bp.address === address);
+    if (!existing) {
+      vscode.debug.addBreakpoints([
+        new vscode.FunctionBreakpoint(`copper ${formatHex(address)}`),
+      ]);
+      return;
+    }
+    // Find the client breakpoint with the matching ID
+    for (const bp of vscode.debug.breakpoints) {
+      if (!(bp instanceof vscode.FunctionBreakpoint)) {
+        continue;
+      }
+      const dapBp = (await session.getDebugProtocolBreakpoint(bp)) as
+        | DebugProtocol.Breakpoint
+        | undefined;
+      if (dapBp?.id === existing.id) {
+        vscode.debug.removeBreakpoints([bp]);
+        return;
+      }
+    }
+  }
+
   private async fetchMemoryChunk(
     panel: MemoryViewerPanel,
     address: number,
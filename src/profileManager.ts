@@ -0,0 +1,234 @@
+import * as vscode from "vscode";
+import { writeFile } from "fs/promises";
+import { SourceMap } from "./sourceMap";
+import { StackManager, registersFromCpuInfo } from "./stackManager";
+import { VAmiga, isEmulatorStateMessage } from "./vAmiga";
+import {
+  FunctionHotspot,
+  LineHotspot,
+  ProfileReport,
+} from "./shared/profilerTypes";
+
+/** Name used for samples outside of any program symbol */
+export const EXTERNAL_FUNCTION = "(external)";
+
+/**
+ * Sampling CPU profiler.
+ *
+ * While active, periodically samples the PC and stack of the running
+ * emulator and aggregates hits by symbol and source line. The call stack for
+ * each sample is estimated using the same heuristics as the stack trace, so
+ * inclusive times and collapsed stacks should be treated as approximate.
+ */
+export class ProfileManager {
+  private timer?: NodeJS.Timeout;
+  private emulatorListener?: vscode.Disposable;
+  private isEmulatorRunning = true;
+  private sampling = false;
+
+  private totalSamples = 0;
+  private selfSamples = new Map<string, number>();
+  private inclusiveSamples = new Map<string, number>();
+  private lineSamples = new Map<string, Map<number, number>>();
+  private stackSamples = new Map<string, number>();
+
+  /**
+   * Creates a new ProfileManager instance.
+   *
+   * @param vAmiga VAmiga instance for sampling CPU state
+   * @param sourceMap Source map for resolving addresses to symbols and lines
+   * @param stackManager Stack manager for estimating call stacks
+   */
+  constructor(
+    private vAmiga: VAmiga,
+    private sourceMap: SourceMap,
+    private stackManager: StackManager,
+  ) {}
+
+  /**
+   * Starts sampling, discarding any previous results.
+   *
+   * @param isRunning Whether the emulator is currently running
+   * @param interval Time between samples in milliseconds
+   * @param maxDepth Maximum stack depth to record per sample
+   */
+  public start(isRunning: boolean, interval = 10, maxDepth = 16): void {
+    this.stop();
+    this.clear();
+    this.isEmulatorRunning = isRunning;
+    // Don't sample while stopped at a breakpoint, as this would skew results
+    this.emulatorListener = this.vAmiga.onDidReceiveMessage((message) => {
+      if (isEmulatorStateMessage(message)) {
+        this.isEmulatorRunning = message.state === "running";
+      }
+    });
+    this.timer = setInterval(() => this.sample(maxDepth), interval);
+  }
+
+  /**
+   * Stops sampling. Results are retained until the next start.
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.emulatorListener?.dispose();
+    this.emulatorListener = undefined;
+  }
+
+  public isActive(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Discards all samples.
+   */
+  public clear(): void {
+    this.totalSamples = 0;
+    this.selfSamples.clear();
+    this.inclusiveSamples.clear();
+    this.lineSamples.clear();
+    this.stackSamples.clear();
+  }
+
+  /**
+   * Takes a single sample of the current PC and stack.
+   *
+   * Skipped if the emulator isn't running or a previous sample is still in
+   * progress.
+   *
+   * @param maxDepth Maximum stack depth to record
+   */
+  public async sample(maxDepth = 16): Promise<void> {
+    if (this.sampling || !this.isEmulatorRunning) {
+      return;
+    }
+    this.sampling = true;
+    try {
+      const cpuInfo = await this.vAmiga.sampleCpuInfo();
+      const pc = Number(cpuInfo.pc);
+      let stack: [number, number][];
+      try {
+        stack = await this.stackManager.guessStack(
+          pc,
+          Number(cpuInfo.a7),
+          maxDepth,
+          registersFromCpuInfo(cpuInfo),
+        );
+      } catch (_) {
+        // Stack may be unreadable mid-update - just record the PC
+        stack = [[pc, pc]];
+      }
+      this.addSample(stack.map(([callSite]) => callSite));
+    } catch (error) {
+      console.warn("Failed to sample CPU:", error);
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  /**
+   * Records a sample.
+   *
+   * @param addresses Call stack addresses, innermost first
+   */
+  public addSample(addresses: number[]): void {
+    if (!addresses.length) {
+      return;
+    }
+    this.totalSamples++;
+
+    const names = addresses.map((addr) => this.functionName(addr));
+    increment(this.selfSamples, names[0]);
+    // Only count each function once per sample, for recursive calls
+    for (const name of new Set(names)) {
+      increment(this.inclusiveSamples, name);
+    }
+
+    const location = this.sourceMap.lookupAddress(addresses[0]);
+    if (location) {
+      const lines = this.lineSamples.get(location.path) ?? new Map();
+      increment(lines, location.line);
+      this.lineSamples.set(location.path, lines);
+    }
+
+    // Collapsed stacks are outermost first
+    increment(this.stackSamples, [...names].reverse().join(";"));
+  }
+
+  /**
+   * Gets aggregated results, sorted by self samples descending.
+   */
+  public getReport(): ProfileReport {
+    const symbols = this.sourceMap.getSymbols();
+    const functions: FunctionHotspot[] = [];
+    for (const [name, totalSamples] of this.inclusiveSamples) {
+      const hotspot: FunctionHotspot = {
+        name,
+        selfSamples: this.selfSamples.get(name) ?? 0,
+        totalSamples,
+      };
+      const address = symbols[name];
+      const location =
+        address !== undefined
+          ? this.sourceMap.lookupAddress(address)
+          : undefined;
+      if (location) {
+        hotspot.path = location.path;
+        hotspot.line = location.line;
+      }
+      functions.push(hotspot);
+    }
+    functions.sort(
+      (a, b) =>
+        b.selfSamples - a.selfSamples || b.totalSamples - a.totalSamples,
+    );
+
+    const lines: LineHotspot[] = [];
+    for (const [path, lineMap] of this.lineSamples) {
+      for (const [line, samples] of lineMap) {
+        lines.push({ path, line, samples });
+      }
+    }
+    lines.sort((a, b) => b.samples - a.samples);
+
+    return { totalSamples: this.totalSamples, functions, lines };
+  }
+
+  /**
+   * Formats samples as collapsed stacks, as used by flame graph tools such as
+   * FlameGraph and speedscope.
+   *
+   * Each line contains semicolon separated frames, outermost first, followed
+   * by the sample count.
+   */
+  public formatCollapsedStacks(): string {
+    let out = "";
+    for (const [stack, count] of this.stackSamples) {
+      out += `${stack} ${count}\n`;
+    }
+    return out;
+  }
+
+  /**
+   * Writes collapsed stacks to a file.
+   *
+   * @param path Destination file path
+   * @returns Number of samples written
+   */
+  public async exportCollapsedStacks(path: string): Promise<number> {
+    await writeFile(path, this.formatCollapsedStacks());
+    return this.totalSamples;
+  }
+
+  private functionName(address: number): string {
+    return (
+      this.sourceMap.findSymbolOffset(address)?.symbol ?? EXTERNAL_FUNCTION
+    );
+  }
+}
+
+function increment<K>(map: Map<K, number>, key: K) {
+  map.set(key, (map.get(key) ?? 0) + 1);
+}
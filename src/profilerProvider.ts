@@ -0,0 +1,180 @@
+import * as vscode from "vscode";
+import { normalize } from "path";
+import {
+  ProfileReport,
+  ProfilerMessage,
+  UpdateProfileMessage,
+} from "./shared/profilerTypes";
+
+/**
+ * Presents profiler results as a sortable table in a webview, and as inline
+ * decorations showing the percentage of samples for each source line.
+ */
+export class ProfilerProvider {
+  public static readonly viewType = "vamiga-debugger.profiler";
+
+  private panel?: vscode.WebviewPanel;
+  private report?: ProfileReport;
+  private decorationType: vscode.TextEditorDecorationType;
+  private editorListener: vscode.Disposable;
+
+  constructor(private readonly extensionUri: vscode.Uri) {
+    this.decorationType = vscode.window.createTextEditorDecorationType({
+      after: {
+        color: new vscode.ThemeColor("editorCodeLens.foreground"),
+        margin: "0 0 0 2em",
+      },
+      isWholeLine: true,
+    });
+    this.editorListener = vscode.window.onDidChangeVisibleTextEditors(
+      (editors) => editors.forEach((editor) => this.decorateEditor(editor)),
+    );
+  }
+
+  /**
+   * Disposes the profiler panel and decorations
+   */
+  public dispose(): void {
+    this.panel?.dispose();
+    this.panel = undefined;
+    this.decorationType.dispose();
+    this.editorListener.dispose();
+  }
+
+  /**
+   * Updates results in the panel and editor decorations
+   */
+  public setReport(report: ProfileReport | undefined): void {
+    this.report = report;
+    vscode.window.visibleTextEditors.forEach((editor) =>
+      this.decorateEditor(editor),
+    );
+    this.postReport();
+  }
+
+  /**
+   * Opens or focuses the profiler panel
+   */
+  public show(): void {
+    if (this.panel) {
+      this.panel.reveal(vscode.ViewColumn.Beside);
+      this.postReport();
+      return;
+    }
+
+    this.panel = vscode.window.createWebviewPanel(
+      ProfilerProvider.viewType,
+      "Amiga Profiler",
+      vscode.ViewColumn.Beside,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+      },
+    );
+
+    this.panel.webview.html = this.getHtmlContent(this.panel.webview);
+
+    this.panel.onDidDispose(() => {
+      this.panel = undefined;
+    });
+
+    this.panel.webview.onDidReceiveMessage(async (message: ProfilerMessage) => {
+      switch (message.command) {
+        case "ready":
+          this.postReport();
+          break;
+        case "openLocation":
+          await this.openLocation(message.path, message.line);
+          break;
+      }
+    });
+  }
+
+  private postReport(): void {
+    if (!this.panel || !this.report) {
+      return;
+    }
+    const message: UpdateProfileMessage = {
+      command: "updateProfile",
+      report: this.report,
+    };
+    this.panel.webview.postMessage(message);
+  }
+
+  private async openLocation(path: string, line: number): Promise<void> {
+    try {
+      const document = await vscode.workspace.openTextDocument(path);
+      const position = new vscode.Position(line - 1, 0);
+      await vscode.window.showTextDocument(document, {
+        viewColumn: vscode.ViewColumn.One,
+        selection: new vscode.Range(position, position),
+      });
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to open ${path}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private decorateEditor(editor: vscode.TextEditor): void {
+    const decorations: vscode.DecorationOptions[] = [];
+    if (this.report?.totalSamples) {
+      const path = normalize(editor.document.uri.fsPath).toUpperCase();
+      for (const hotspot of this.report.lines) {
+        if (normalize(hotspot.path).toUpperCase() !== path) {
+          continue;
+        }
+        const percent = (hotspot.samples / this.report.totalSamples) * 100;
+        const line = hotspot.line - 1;
+        if (line < 0 || line >= editor.document.lineCount) {
+          continue;
+        }
+        decorations.push({
+          range: new vscode.Range(line, 0, line, 0),
+          hoverMessage: `${hotspot.samples} of ${this.report.totalSamples} samples`,
+          renderOptions: {
+            after: { contentText: `${percent.toFixed(1)}%` },
+          },
+        });
+      }
+    }
+    editor.setDecorations(this.decorationType, decorations);
+  }
+
+  /**
+   * Generates the HTML content for the webview
+   */
+  private getHtmlContent(webview: vscode.Webview): string {
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.extensionUri, "out", "profiler.js"),
+    );
+    const styleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this.extensionUri, "out", "profiler.css"),
+    );
+    const codiconsUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(
+        this.extensionUri,
+        "node_modules",
+        "@vscode/codicons",
+        "dist",
+        "codicon.css",
+      ),
+    );
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src ${webview.cspSource};">
+  <link href="${codiconsUri}" rel="stylesheet" id="vscode-codicon-stylesheet" />
+  <link href="${styleUri}" rel="stylesheet" />
+  <title>Amiga Profiler</title>
+</head>
+<body>
+  <div id="root"></div>
+  <script src="${scriptUri}"></script>
+</body>
+</html>`;
+  }
+}
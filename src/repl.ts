@@ -305,6 +305,22 @@ export const consoleCommands: UsageDocs = {
     `${ansi.func("help")} [syntax|functions]`,
     "Show REPL usage guide, or further documentation for category",
   ],
+  beam: [
+    `${ansi.func("beam")} ${ansi.variable("vpos")},${ansi.variable("hpos")}`,
+    "Set beamtrap at raster position",
+  ],
+  cbreak: [
+    `${ansi.func("cbreak")} ${ansi.variable("addr")}`,
+    "Set breakpoint on copper instruction at address",
+  ],
+  cstep: [
+    `${ansi.func("cstep")}`,
+    "Run until copper executes the next instruction",
+  ],
+  symbols: [
+    `${ansi.func("symbols")} [${ansi.variable("file")} [${ansi.variable("seglist")}]]`,
+    "Add debug symbols for a library or program loaded at runtime, or list them",
+  ],
 };
 
 export const allFunctions: UsageDocs = {
@@ -334,6 +350,8 @@ ${ansi.section("Available Variables:")}
   ${ansi.subsection("Custom Chip Registers:")} ${ansi.variable("DMACON")}, ${ansi.variable("INTENA")}, ${ansi.variable("INTREQ")}, ${ansi.variable("ADKCON")}, etc.
   ${ansi.subsection("Symbol Names:")} All symbols (i.e. labels) from your debug program
 
+${ansi.section("Commands:")}
+${funcDocs(consoleCommands, 2)}
 ${ansi.section("Examples:")}
   ${ansi.func("i16")}(${ansi.variable("d0")})            - Get signed word value of register d0
   ${ansi.func("peekU32")}(${ansi.variable("a0")})        - Read long from address in a0
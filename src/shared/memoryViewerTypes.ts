@@ -13,6 +13,18 @@ export interface Suggestion {
   description?: string;
 }
 
+/**
+ * Copper position and breakpoints, for highlighting in copper view
+ */
+export interface CopperState {
+  /** Address of current copper instruction */
+  pc: number;
+  cop1lc: number;
+  cop2lc: number;
+  /** Addresses of copper breakpoints */
+  breakpoints: number[];
+}
+
 // Backend messages
 
 export interface UpdateStateMessageProps {
@@ -22,6 +34,7 @@ export interface UpdateStateMessageProps {
   symbolLengths?: Record<string, number>;
   availableRegions?: MemoryRegion[];
   liveUpdate?: boolean;
+  copper?: CopperState;
   error?: string | null;
 }
 
@@ -60,6 +73,11 @@ export interface ToggleLiveUpdateMessage {
   enabled: boolean;
 }
 
+export interface ToggleCopperBreakpointMessage {
+  command: "toggleCopperBreakpoint";
+  address: number;
+}
+
 export interface GetSuggestionsMessage {
   command: "getSuggestions";
   query: string;
@@ -0,0 +1,60 @@
+/**
+ * Shared types for the Profiler webview
+ */
+
+/**
+ * Samples attributed to a function (symbol)
+ */
+export interface FunctionHotspot {
+  /** Symbol name, or "(external)" for code outside the program */
+  name: string;
+  /** Samples where this function was executing */
+  selfSamples: number;
+  /** Samples where this function was anywhere on the stack */
+  totalSamples: number;
+  /** Source location of the symbol, if known */
+  path?: string;
+  line?: number;
+}
+
+/**
+ * Samples attributed to a source line
+ */
+export interface LineHotspot {
+  path: string;
+  /** Source line number (1-based) */
+  line: number;
+  samples: number;
+}
+
+/**
+ * Aggregated profiling results
+ */
+export interface ProfileReport {
+  totalSamples: number;
+  functions: FunctionHotspot[];
+  lines: LineHotspot[];
+}
+
+/**
+ * Messages from extension to webview
+ */
+export interface UpdateProfileMessage {
+  command: "updateProfile";
+  report: ProfileReport;
+}
+
+/**
+ * Messages from webview to extension
+ */
+export interface ReadyMessage {
+  command: "ready";
+}
+
+export interface OpenLocationMessage {
+  command: "openLocation";
+  path: string;
+  line: number;
+}
+
+export type ProfilerMessage = ReadyMessage | OpenLocationMessage;
@@ -0,0 +1,66 @@
+import { readFile, writeFile } from "fs/promises";
+import { VAmiga } from "./vAmiga";
+
+/**
+ * Details of the debugged program, saved alongside a snapshot
+ */
+export interface SnapshotInfo {
+  /** Path of the program being debugged */
+  program: string;
+  /** Addresses of the program's loaded segments, needed to map debug symbols after restoring */
+  segments: number[];
+}
+
+/**
+ * Gets the path of the info file saved alongside a snapshot.
+ *
+ * @param snapshotPath Path of the snapshot file
+ */
+export function snapshotInfoPath(snapshotPath: string): string {
+  return snapshotPath + ".json";
+}
+
+/**
+ * Saves the full emulator state to a file, with info about the debugged program.
+ *
+ * @param vAmiga VAmiga instance
+ * @param snapshotPath Path to save the snapshot to
+ * @param info Debugged program info
+ */
+export async function saveSnapshot(
+  vAmiga: VAmiga,
+  snapshotPath: string,
+  info: SnapshotInfo,
+): Promise<void> {
+  const data = await vAmiga.saveSnapshot();
+  await writeFile(snapshotPath, data);
+  await writeFile(
+    snapshotInfoPath(snapshotPath),
+    JSON.stringify(info, null, 2),
+  );
+}
+
+/**
+ * Reads a snapshot file and its program info.
+ *
+ * @param snapshotPath Path of the snapshot file
+ * @returns Snapshot data in vAmiga format, and debugged program info
+ */
+export async function readSnapshot(
+  snapshotPath: string,
+): Promise<{ data: Buffer; info: SnapshotInfo }> {
+  const data = await readFile(snapshotPath);
+  const infoPath = snapshotInfoPath(snapshotPath);
+  let info: SnapshotInfo;
+  try {
+    info = JSON.parse(await readFile(infoPath, "utf8"));
+  } catch (_) {
+    throw new Error(
+      `Snapshot info not found at ${infoPath}. Snapshots must be saved from a debug session.`,
+    );
+  }
+  if (!Array.isArray(info.segments) || !info.segments.length) {
+    throw new Error(`No program segments in ${infoPath}`);
+  }
+  return { data, info };
+}
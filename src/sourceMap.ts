@@ -26,6 +26,7 @@ export interface SymbolOffset {
 export class SourceMap {
   private locationsBySource = new Map<string, Map<number, Location>>();
   private locationsByAddress = new Map<number, Location>();
+  private locations: Location[] = [];
 
   constructor(
     private segments: Segment[],
@@ -33,6 +34,29 @@ export class SourceMap {
     private symbols: Record<string, number>,
     locations: Location[],
   ) {
+    this.addLocations(locations);
+  }
+
+  /**
+   * Adds the segments, symbols and source locations of a module loaded at runtime e.g. a shared library.
+   * Symbols already defined take precedence over the module's.
+   *
+   * @param module Source map of the module, at its loaded addresses
+   * @param moduleName Name to show for the module's segments
+   */
+  public addModule(module: SourceMap, moduleName: string): void {
+    for (const segment of module.segments) {
+      this.segments.push({ ...segment, name: `${moduleName} ${segment.name}` });
+    }
+    for (const source of module.sources) {
+      this.sources.add(source);
+    }
+    this.symbols = { ...module.symbols, ...this.symbols };
+    this.addLocations(module.locations);
+  }
+
+  private addLocations(locations: Location[]) {
+    this.locations.push(...locations);
     for (const location of locations) {
       // Don't overwrite existing address mappings - first wins
       // This handles cases where multiple DWARF line programs map the same address
@@ -101,6 +125,13 @@ export class SourceMap {
     return location;
   }
 
+  /**
+   * Whether any code is mapped to a source file
+   */
+  public hasSourceLocations(path: string): boolean {
+    return this.locationsBySource.has(normalize(path).toUpperCase());
+  }
+
   public getSegmentInfo(segmentId: number): Segment {
     return this.segments[segmentId];
   }
@@ -232,3 +232,30 @@ export function instructionAttrs(line: string): {
 
   return { byteLength, signed };
 }
+
+const macroStart = /^(\s*[\w.]+:?)?\s+macro\b|^macro\s/i;
+const macroEnd = /^(\s*[\w.]+:?)?\s+endm\b|^endm\b/i;
+
+/**
+ * Finds the macro definitions in assembly source.
+ *
+ * Code expanded from a macro has line debug info pointing to the macro body,
+ * so this is used to treat an expansion as a single line when stepping.
+ *
+ * @param text Assembly source text
+ * @returns First and last line numbers of each macro definition, 1-based
+ */
+export function findMacroRanges(text: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  let start: number | undefined;
+  text.split(/\r?\n/).forEach((line, i) => {
+    const code = line.replace(/;.*/, "");
+    if (start === undefined && macroStart.test(code)) {
+      start = i + 1;
+    } else if (start !== undefined && macroEnd.test(code)) {
+      ranges.push([start, i + 1]);
+      start = undefined;
+    }
+  });
+  return ranges;
+}
@@ -1,28 +1,52 @@
 import { Source, StackFrame } from "@vscode/debugadapter";
-import { VAmiga } from "./vAmiga";
+import { VAmiga, CpuInfo } from "./vAmiga";
 import { formatAddress, formatHex } from "./numbers";
 import { basename } from "path";
 import { SourceMap } from "./sourceMap";
+import { CallFrameTable } from "./dwarfCallFrames";
+import { ExceptionFrame } from "./exceptionFrame";
+
+/** DWARF register number of A7 */
+const SP_REGISTER = 15;
+/** DWARF register number of A0 */
+const A0_REGISTER = 8;
+
+/**
+ * Machine state of a stack frame, used to evaluate local variable locations
+ */
+export interface FrameState {
+  /** Address in the frame's function - the call site for callers */
+  pc: number;
+  /** Values of D0-D7/A0-A7 in this frame, if it could be unwound */
+  registers?: number[];
+  /** Canonical Frame Address, if there's call frame information for pc */
+  cfa?: number;
+}
 
 /**
  * Manages stack frame analysis and generation for the debug adapter.
  *
  * Provides stack trace functionality by:
+ * - Unwinding call frames using DWARF call frame information, when available
  * - Analyzing stack memory to identify return addresses
  * - Detecting JSR/BSR call patterns in the stack
  * - Creating source-based or disassembly-based stack frames
  * - Handling pagination for large stack traces
  */
 export class StackManager {
+  private frameStates: FrameState[] = [];
+
   /**
    * Creates a new StackManager instance.
    *
    * @param vAmiga VAmiga instance for reading CPU state and memory
    * @param sourceMap Source map for resolving addresses to source locations
+   * @param callFrames Call frame information for accurate unwinding, from DWARF debug info
    */
   constructor(
     private vAmiga: VAmiga,
     private sourceMap: SourceMap,
+    private callFrames?: CallFrameTable,
   ) {}
 
   /**
@@ -34,12 +58,15 @@ export class StackManager {
    *
    * @param startFrame Starting frame index for pagination
    * @param maxLevels Maximum number of frames to return
+   * @param exceptionInstruction Faulting instruction, when stopped on an exception
+   * @param exceptionFrame Stack frame pushed by the exception, to find the stack of the faulting code
    * @returns Array of stack frames with source or disassembly information
    */
   public async getStackFrames(
     startFrame: number,
     maxLevels: number,
     exceptionInstruction: { address: number; isSupervisor: boolean } | null = null,
+    exceptionFrame: ExceptionFrame | null = null,
   ): Promise<StackFrame[]> {
     const endFrame = startFrame + maxLevels;
 
@@ -52,10 +79,23 @@ export class StackManager {
       //  If last instruction was user mode, use USP instead of SSP
       if (!exceptionInstruction.isSupervisor) {
         stackAddress = Number(cpuInfo.usp);
+      } else if (exceptionFrame) {
+        // Skip the exception frame to get the stack of the faulting code
+        stackAddress = exceptionFrame.address + exceptionFrame.size;
       }
     }
 
-    const addresses = await this.guessStack(pc, stackAddress, endFrame);
+    const frameStates: FrameState[] = [];
+    const addresses = await this.guessStack(
+      pc,
+      stackAddress,
+      endFrame,
+      registersFromCpuInfo(cpuInfo),
+      frameStates,
+    );
+    this.frameStates = addresses.map(
+      ([callSite], i) => frameStates[i] ?? { pc: callSite },
+    );
 
     let foundSource = false;
 
@@ -91,61 +131,336 @@ export class StackManager {
   }
 
   /**
-   * Analyzes stack memory to guess call frames.
+   * Gets the machine state of a frame from the last stack trace.
    *
-   * Since VAmiga doesn't track stack frames, this method examines stack memory
-   * looking for patterns that indicate return addresses from JSR/BSR instructions.
+   * @param frameId Frame index, as used for the stack frame ID
+   */
+  public getFrameState(frameId: number): FrameState | undefined {
+    return this.frameStates[frameId];
+  }
+
+  /**
+   * Analyzes stack memory to find call frames.
    *
-   * Made protected to allow testing of the stack analysis algorithm.
+   * Since VAmiga doesn't track stack frames, this works out the call chain from stack memory.
    *
    * Algorithm:
-   * 1. Reads stack memory from current SP
-   * 2. Looks for 32-bit values that could be return addresses
-   * 3. Validates by checking if previous instructions are JSR/BSR
-   * 4. Builds list of [call_site, return_address] pairs
+   * 1. If call frame information is available (DWARF .debug_frame), unwinds frames accurately
+   *    using the CFA rules for each function
+   * 2. Otherwise follows frames created by LINK, in functions which start with one
+   * 3. For the rest of the stack (e.g. assembly code without debug info), scans for 32-bit values
+   *    that could be return addresses, validated by checking if previous instructions are JSR/BSR
    *
+   * @param pc Current program counter
+   * @param stackAddress Current stack pointer
    * @param maxLength Maximum number of stack frames to return
+   * @param registers Values of D0-D7/A0-A7, used to unwind functions with a frame pointer
+   * @param frameStates Optional array to receive the state of each unwound frame
    * @returns Array of [call instruction address, return address] pairs
    */
-  public async guessStack(pc: number, stackAddress: number, maxLength = 16): Promise<[number, number][]> {
-    // vAmiga doesn't currently track stack frames, so we'll need to look at the stack data and guess...
+  public async guessStack(
+    pc: number,
+    stackAddress: number,
+    maxLength = 16,
+    registers: number[] = [],
+    frameStates?: FrameState[],
+  ): Promise<[number, number][]> {
+    const addresses: [number, number][] = [[pc, pc]]; // Start with at least the current frame
+    const regs = [...registers];
+    regs[SP_REGISTER] = stackAddress;
+    const frameState = (pc: number): FrameState => ({
+      pc,
+      registers: [...regs],
+      cfa: this.frameCfa(pc, regs),
+    });
+    frameStates?.push(frameState(pc));
+
+    try {
+      while (addresses.length < maxLength) {
+        const returnAddress =
+          (await this.unwindCallFrame(pc, regs)) ??
+          (await this.unwindLinkFrame(pc, regs));
+        if (
+          returnAddress === undefined ||
+          !this.isCodeAddress(returnAddress)
+        ) {
+          break;
+        }
+        const callSite =
+          (await this.findCallSite(returnAddress)) ?? returnAddress;
+        addresses.push([callSite, returnAddress]);
+        frameStates?.push(frameState(callSite));
+        // Use call site to find rules for the caller, in case the call was the last instruction in the function
+        pc = callSite;
+      }
+    } catch (_) {
+      // probably failed to read mem at invalid address
+    }
+    stackAddress = regs[SP_REGISTER];
+
+    for (const frame of await this.scanStack(
+      stackAddress,
+      maxLength - addresses.length,
+    )) {
+      addresses.push([frame.callSite, frame.returnAddress]);
+    }
+    return addresses;
+  }
+
+  /**
+   * Unwinds the current frame to find where it returns to.
+   *
+   * If the frame can't be unwound, the first likely return address on the stack is used instead, e.g. in assembly
+   * code. This can be wrong if other data pushed to the stack looks like a return address.
+   *
+   * @param pc Current program counter
+   * @param registers Values of D0-D7/A0-A7
+   * @returns Return address and stack pointer after returning, or undefined if the frame can't be unwound
+   */
+  public async getReturnFrame(
+    pc: number,
+    registers: number[],
+  ): Promise<{ returnAddress: number; stackAddress: number } | undefined> {
+    const regs = [...registers];
+    try {
+      const returnAddress =
+        (await this.unwindCallFrame(pc, regs)) ??
+        (await this.unwindLinkFrame(pc, regs));
+      if (returnAddress !== undefined && this.isCodeAddress(returnAddress)) {
+        return { returnAddress, stackAddress: regs[SP_REGISTER] };
+      }
+    } catch (_) {
+      // probably failed to read mem at invalid address
+    }
+    const [frame] = await this.scanStack(registers[SP_REGISTER], 1);
+    if (frame) {
+      return {
+        returnAddress: frame.returnAddress,
+        stackAddress: frame.stackAddress,
+      };
+    }
+  }
+
+  /**
+   * Calculates the Canonical Frame Address for a frame, using DWARF call frame information.
+   */
+  private frameCfa(pc: number, registers: number[]): number | undefined {
+    const row = this.callFrames?.findRow(pc);
+    const base = row ? registers[row.cfaRegister] : undefined;
+    return row && base !== undefined ? base + row.cfaOffset : undefined;
+  }
+
+  /**
+   * Unwinds one frame using DWARF call frame information.
+   *
+   * @param pc Address in the function being unwound
+   * @param registers Register values, updated with the caller's values
+   * @returns Return address, or undefined if there are no rules for this address
+   */
+  private async unwindCallFrame(
+    pc: number,
+    registers: number[],
+  ): Promise<number | undefined> {
+    const row = this.callFrames?.findRow(pc);
+    const base = row ? registers[row.cfaRegister] : undefined;
+    if (!row || base === undefined) {
+      return;
+    }
+    const cfa = base + row.cfaOffset;
+    const returnAddressOffset = row.savedRegisters.get(
+      row.returnAddressRegister,
+    );
+    if (returnAddressOffset === undefined) {
+      return;
+    }
+    const returnAddress = await this.vAmiga.peek32(cfa + returnAddressOffset);
+
+    // Restore callee-saved registers, which may be needed to unwind the caller e.g. frame pointer
+    for (const [register, offset] of row.savedRegisters) {
+      if (register < SP_REGISTER) {
+        registers[register] = await this.vAmiga.peek32(cfa + offset);
+      }
+    }
+    // Stack pointer before the call
+    registers[SP_REGISTER] = cfa;
+    return returnAddress;
+  }
+
+  /**
+   * Unwinds one frame created by a LINK instruction.
+   *
+   * Only functions which start with LINK are unwound, using its address register as the frame pointer.
+   * Address registers are used for other things in most assembly code, e.g. A6 for a library base.
+   *
+   * @param pc Address in the function being unwound
+   * @param registers Register values, updated with the caller's values
+   * @returns Return address, or undefined if the function has no valid frame
+   */
+  private async unwindLinkFrame(
+    pc: number,
+    registers: number[],
+  ): Promise<number | undefined> {
+    const fpRegister = await this.findLinkRegister(pc);
+    if (fpRegister === undefined) {
+      return;
+    }
+    const fp = registers[fpRegister];
+    if (
+      fp === undefined ||
+      fp & 1 ||
+      fp < registers[SP_REGISTER] ||
+      !this.vAmiga.isValidAddress(fp)
+    ) {
+      return;
+    }
+    // Frame contains previous frame pointer followed by return address
+    const returnAddress = await this.vAmiga.peek32(fp + 4);
+    if (
+      !this.isCodeAddress(returnAddress) ||
+      (await this.findCallSite(returnAddress)) === undefined
+    ) {
+      return;
+    }
+    registers[fpRegister] = await this.vAmiga.peek32(fp);
+    registers[SP_REGISTER] = fp + 8;
+    return returnAddress;
+  }
+
+  /**
+   * Finds the frame pointer of a function which starts with a LINK instruction, using the nearest symbol as its start.
+   *
+   * @param pc Address in the function
+   * @returns DWARF register number of the frame pointer, or undefined if the frame isn't set up at pc
+   */
+  private async findLinkRegister(pc: number): Promise<number | undefined> {
+    const symbolOffset = this.sourceMap.findSymbolOffset(pc);
+    // The frame isn't there yet on the LINK itself
+    if (!symbolOffset?.offset) {
+      return;
+    }
+    try {
+      const code = await this.vAmiga.readMemory(pc - symbolOffset.offset, 2);
+      const current = await this.vAmiga.readMemory(pc, 2);
+      // After UNLK, only the RTS is left and the frame pointer has the caller's value
+      if (current.readUInt16BE(0) === 0x4e75) {
+        return;
+      }
+      const opcode = code.readUInt16BE(0);
+      // LINK.W An,#d is $4e50+n, and LINK.L An,#d is $4808+n
+      if ((opcode & 0xfff8) === 0x4e50 || (opcode & 0xfff8) === 0x4808) {
+        const register = opcode & 7;
+        return register === 7 ? undefined : A0_REGISTER + register;
+      }
+    } catch (_) {
+      // probably failed to read mem at invalid address
+    }
+  }
+
+  /**
+   * Scans stack memory for values that look like return addresses.
+   *
+   * @param stackAddress Stack pointer to start scanning from
+   * @param maxLength Maximum number of frames to find
+   * @returns Frames found, with the stack pointer after returning to each
+   */
+  private async scanStack(
+    stackAddress: number,
+    maxLength: number,
+  ): Promise<
+    { callSite: number; returnAddress: number; stackAddress: number }[]
+  > {
+    const frames: {
+      callSite: number;
+      returnAddress: number;
+      stackAddress: number;
+    }[] = [];
     // Fetch data from sp, up to a reasonable length
     const maxSize = 128;
-    const stackData = await this.vAmiga.readMemory(stackAddress, 128);
-
-    const addresses: [number, number][] = [[pc, pc]]; // Start with at least the current frame
+    let stackData: Buffer;
+    try {
+      stackData = await this.vAmiga.readMemory(stackAddress, maxSize);
+    } catch (_) {
+      return frames;
+    }
 
     // Look for values that could be a possible return address (as opposed to other data pushed to the stack)
     let offset = 0;
-    addresses: while (offset <= maxSize - 4 && addresses.length < maxLength) {
+    while (offset <= maxSize - 4 && frames.length < maxLength) {
       const addr = stackData.readInt32BE(offset);
-      if (
-        this.vAmiga.isValidAddress(addr) &&
-        addr > 0x100 &&
-        !(addr & 1) // even address
-      ) {
-        try {
-          // Look at previous 3 words, and check if they look like a jsr or bsr
-          const prevBytes = await this.vAmiga.readMemory(addr - 6, 6);
-          for (let i = 0; i < 3; i++) {
-            const w = prevBytes.readUInt16BE(i * 2);
-            if (
-              (w & 0xffc0) === 0x4e80 || // jsr
-              (w & 0xff00) === 0x6100 // bsr
-            ) {
-              // found likely return
-              addresses.push([addr - 6 + i * 2, addr]);
-              offset += 4;
-              continue addresses;
-            }
-          }
-        } catch (_) {
-          // probably failed to read mem at invalid address
+      if (this.isCodeAddress(addr)) {
+        const callSite = await this.findCallSite(addr);
+        if (callSite !== undefined) {
+          // found likely return
+          offset += 4;
+          frames.push({
+            callSite,
+            returnAddress: addr,
+            stackAddress: stackAddress + offset,
+          });
+          continue;
         }
       }
       // next word if match not found
       offset += 2;
     }
-    return addresses;
+    return frames;
+  }
+
+  private isCodeAddress(address: number): boolean {
+    return (
+      this.vAmiga.isValidAddress(address) &&
+      address > 0x100 &&
+      !(address & 1) // even address
+    );
+  }
+
+  /**
+   * Finds the JSR or BSR instruction preceding a return address.
+   *
+   * @param returnAddress Possible return address
+   * @returns Address of call instruction, or undefined if not preceded by a call
+   */
+  private async findCallSite(
+    returnAddress: number,
+  ): Promise<number | undefined> {
+    try {
+      // Look at previous 3 words, and check if they look like a jsr or bsr
+      const prevBytes = await this.vAmiga.readMemory(returnAddress - 6, 6);
+      for (let i = 0; i < 3; i++) {
+        const w = prevBytes.readUInt16BE(i * 2);
+        if (
+          (w & 0xffc0) === 0x4e80 || // jsr
+          (w & 0xff00) === 0x6100 // bsr
+        ) {
+          return returnAddress - 6 + i * 2;
+        }
+      }
+    } catch (_) {
+      // probably failed to read mem at invalid address
+    }
   }
 }
+
+/**
+ * Gets register values in DWARF register number order (D0-D7, A0-A7) from CPU info.
+ */
+export function registersFromCpuInfo(cpuInfo: CpuInfo): number[] {
+  return [
+    cpuInfo.d0,
+    cpuInfo.d1,
+    cpuInfo.d2,
+    cpuInfo.d3,
+    cpuInfo.d4,
+    cpuInfo.d5,
+    cpuInfo.d6,
+    cpuInfo.d7,
+    cpuInfo.a0,
+    cpuInfo.a1,
+    cpuInfo.a2,
+    cpuInfo.a3,
+    cpuInfo.a4,
+    cpuInfo.a5,
+    cpuInfo.a6,
+    cpuInfo.a7,
+  ].map(Number);
+}
@@ -0,0 +1,106 @@
+import * as assert from "assert";
+import * as sinon from "sinon";
+import { AmigaMemoryMapper, NT_PROCESS } from "../amigaMemoryMapper";
+import { VAmiga } from "../vAmiga";
+
+describe("AmigaMemoryMapper", () => {
+  let mapper: AmigaMemoryMapper;
+  let memory: Buffer;
+
+  beforeEach(() => {
+    memory = Buffer.alloc(0x10000);
+    const mockVAmiga = sinon.createStubInstance(VAmiga);
+    mockVAmiga.peek8.callsFake(async (addr) => memory.readUInt8(addr));
+    mockVAmiga.peek16.callsFake(async (addr) => memory.readUInt16BE(addr));
+    mockVAmiga.peek32.callsFake(async (addr) => memory.readUInt32BE(addr));
+    mockVAmiga.readMemory.callsFake(async (addr, count) =>
+      memory.subarray(addr, addr + count),
+    );
+    mapper = new AmigaMemoryMapper(mockVAmiga);
+
+    const execBase = 0x1000;
+    memory.writeUInt32BE(execBase, 4);
+
+    // Workbench process in TaskReady, with its segment array
+    memory.writeUInt32BE(0x3000, execBase + 0x196);
+    memory.writeUInt32BE(execBase + 0x19a, 0x3000);
+    memory.writeUInt8(NT_PROCESS, 0x3008);
+    memory.writeUInt32BE(0x3100, 0x300a);
+    memory.write("Game\0", 0x3100, "latin1");
+    memory.writeUInt32BE(0x3200 >> 2, 0x3080);
+    memory.writeUInt32BE(0x5000 >> 2, 0x320c);
+    memory.writeUInt32BE(0x6000 >> 2, 0x5000);
+
+    // CLI process in TaskWait, running a command
+    memory.writeUInt32BE(0x4000, execBase + 0x1a4);
+    memory.writeUInt32BE(execBase + 0x1a8, 0x4000);
+    memory.writeUInt8(NT_PROCESS, 0x4008);
+    memory.writeUInt32BE(0x4200 >> 2, 0x40ac);
+    memory.writeUInt32BE(0x4300 >> 2, 0x4210);
+    memory.write("\x0Adh0:c/tool", 0x4300, "latin1");
+    memory.writeUInt32BE(0x7000 >> 2, 0x423c);
+
+    // Library in LibList, with Open vector in its first segment
+    memory.writeUInt32BE(0x9000, execBase + 0x17a);
+    memory.writeUInt32BE(execBase + 0x17e, 0x9000);
+    memory.writeUInt32BE(0x9100, 0x900a);
+    memory.write("my.library\0", 0x9100, "latin1");
+    memory.writeUInt16BE(24, 0x9010);
+    memory.writeUInt16BE(0x4ef9, 0x9000 - 6);
+    memory.writeUInt32BE(0xa010, 0x9000 - 4);
+    memory.writeUInt32BE(0x40 + 8, 0xa000);
+    memory.writeUInt32BE(0xb004 >> 2, 0xa004);
+    memory.writeUInt32BE(0x20 + 8, 0xb000);
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  describe("findProcess", () => {
+    it("should find a process started from Workbench by task name", async () => {
+      const process = await mapper.findProcess("df0:game");
+      assert.deepStrictEqual(process, {
+        address: 0x3000,
+        name: "Game",
+        segments: [0x5004, 0x6004],
+      });
+    });
+
+    it("should find a process started from a CLI by command name", async () => {
+      const process = await mapper.findProcess("Tool");
+      assert.deepStrictEqual(process, {
+        address: 0x4000,
+        name: "dh0:c/tool",
+        segments: [0x7004],
+      });
+    });
+
+    it("should not find a process until its segments are loaded", async () => {
+      memory.writeUInt32BE(0, 0x423c);
+      assert.strictEqual(await mapper.findProcess("tool"), undefined);
+      assert.strictEqual(await mapper.findProcess("other"), undefined);
+    });
+  });
+
+  describe("findLibrarySegments", () => {
+    it("should find the segments of a library from its function table", async () => {
+      const segments = await mapper.findLibrarySegments(
+        "libs/My.library",
+        [0x40, 0x20],
+      );
+      assert.deepStrictEqual(segments, [0xa008, 0xb008]);
+    });
+
+    it("should not find segments which don't match the hunk sizes", async () => {
+      assert.strictEqual(
+        await mapper.findLibrarySegments("my.library", [0x80, 0x20]),
+        undefined,
+      );
+      assert.strictEqual(
+        await mapper.findLibrarySegments("my.library", [0x40]),
+        undefined,
+      );
+    });
+  });
+});
@@ -0,0 +1,1020 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as assert from "assert";
+import * as sinon from "sinon";
+import { BreakpointManager, instructionAccess } from "../breakpointManager";
+import { EvaluateManager } from "../evaluateManager";
+import { VAmiga, StopMessage } from "../vAmiga";
+import { VariablesManager } from "../variablesManager";
+import { DisassemblyManager } from "../disassemblyManager";
+
+function breakpointMessage(pc: number): StopMessage {
+  return {
+    hasMessage: true,
+    name: "BREAKPOINT_REACHED",
+    payload: { pc, vector: 0 },
+  };
+}
+
+function watchpointMessage(address: number): StopMessage {
+  return {
+    hasMessage: true,
+    name: "WATCHPOINT_REACHED",
+    payload: { pc: address, vector: 0 },
+  };
+}
+
+function copperMessage(pc: number): StopMessage {
+  return {
+    hasMessage: true,
+    name: "COPPERBP_REACHED",
+    payload: { pc, vector: 0 },
+  };
+}
+
+function catchpointMessage(vector: number): StopMessage {
+  return {
+    hasMessage: true,
+    name: "CATCHPOINT_REACHED",
+    payload: { pc: 0, vector },
+  };
+}
+
+function beamtrapMessage(vpos: number, hpos: number): StopMessage {
+  return {
+    hasMessage: true,
+    name: "BEAMTRAP_REACHED",
+    payload: { pc: (vpos << 16) | hpos, vector: 0 },
+  };
+}
+
+/**
+ * Tests for BreakpointManager
+ */
+describe("BreakpointManager", () => {
+  let breakpointManager: BreakpointManager;
+  let mockVAmiga: sinon.SinonStubbedInstance<VAmiga>;
+  let mockEvaluateManager: sinon.SinonStubbedInstance<EvaluateManager>;
+  let mockSourceMap: any;
+
+  beforeEach(() => {
+    mockVAmiga = sinon.createStubInstance(VAmiga);
+    mockEvaluateManager = sinon.createStubInstance(EvaluateManager);
+    mockSourceMap = {
+      lookupSourceLine: sinon.stub().returns({ address: 0x1000 }),
+      hasSourceLocations: sinon.stub().returns(true),
+      getSymbols: sinon.stub().returns({ main: 0x2000 }),
+      getSymbolLengths: sinon.stub().returns({}),
+      findSymbolOffset: sinon.stub().returns(undefined),
+    };
+
+    breakpointManager = new BreakpointManager(
+      mockVAmiga,
+      mockSourceMap,
+      mockEvaluateManager,
+    );
+  });
+
+  afterEach(() => {
+    sinon.restore();
+  });
+
+  /**
+   * Replaces the manager with one using a real EvaluateManager, which reads memory for hex literals
+   * like the debug console does.
+   */
+  function useEvaluateManager(variables: Record<string, number> = {}) {
+    mockVAmiga.readMemory.resolves(Buffer.from([0xde, 0xad, 0xbe, 0xef]));
+    const variablesManager = sinon.createStubInstance(VariablesManager);
+    variablesManager.getFlatVariables.resolves(variables);
+    const evaluateManager = new EvaluateManager(
+      mockVAmiga,
+      mockSourceMap,
+      variablesManager,
+      sinon.createStubInstance(DisassemblyManager),
+    );
+    breakpointManager = new BreakpointManager(
+      mockVAmiga,
+      mockSourceMap,
+      evaluateManager,
+    );
+  }
+
+  describe("Breakpoints in modules loaded later", () => {
+    beforeEach(() => {
+      mockSourceMap.lookupSourceLine.throws(
+        new Error("Source map error: File not found: lib.s"),
+      );
+      mockSourceMap.hasSourceLocations.returns(false);
+    });
+
+    it("should set unverified breakpoints once their file is loaded", async () => {
+      const [bp] = await breakpointManager.setSourceBreakpoints("lib.s", [
+        { line: 5 },
+      ]);
+      assert.strictEqual(bp.verified, false);
+      assert.deepStrictEqual(breakpointManager.resolvePendingBreakpoints(), []);
+
+      mockSourceMap.lookupSourceLine.returns({ address: 0x8000 });
+      mockSourceMap.hasSourceLocations.returns(true);
+      const resolved = breakpointManager.resolvePendingBreakpoints();
+
+      assert.strictEqual(resolved.length, 1);
+      assert.strictEqual(resolved[0].id, bp.id);
+      assert.strictEqual(resolved[0].verified, true);
+      assert.ok(mockVAmiga.setBreakpoint.calledWith(0x8000));
+      assert.deepStrictEqual(breakpointManager.resolvePendingBreakpoints(), []);
+    });
+
+    it("should not set pending breakpoints which have been removed", async () => {
+      await breakpointManager.setSourceBreakpoints("lib.s", [{ line: 5 }]);
+      await breakpointManager.setSourceBreakpoints("lib.s", []);
+
+      mockSourceMap.lookupSourceLine.returns({ address: 0x8000 });
+      mockSourceMap.hasSourceLocations.returns(true);
+
+      assert.deepStrictEqual(breakpointManager.resolvePendingBreakpoints(), []);
+      assert.ok(mockVAmiga.setBreakpoint.notCalled);
+    });
+  });
+
+  describe("Relocating to a reloaded program", () => {
+    let newSourceMap: any;
+
+    beforeEach(() => {
+      newSourceMap = {
+        lookupSourceLine: sinon.stub().returns({ address: 0x5000 }),
+        hasSourceLocations: sinon.stub().returns(true),
+        getSymbols: sinon.stub().returns({ main: 0x6000 }),
+      };
+    });
+
+    it("should move source and function breakpoints, keeping their IDs", async () => {
+      const [sourceBp] = await breakpointManager.setSourceBreakpoints(
+        "test.s",
+        [{ line: 10 }],
+      );
+      const [functionBp] = await breakpointManager.setFunctionBreakpoints([
+        { name: "main" },
+      ]);
+      await breakpointManager.handleBreakpointStop(breakpointMessage(0x1000));
+
+      const changed = breakpointManager.relocate(
+        newSourceMap,
+        mockEvaluateManager,
+      );
+
+      assert.deepStrictEqual(
+        changed.map((bp) => [bp.id, bp.verified]),
+        [
+          [sourceBp.id, true],
+          [functionBp.id, true],
+        ],
+      );
+      assert.ok(mockVAmiga.removeBreakpoint.calledWith(0x1000));
+      assert.ok(mockVAmiga.removeBreakpoint.calledWith(0x2000));
+      assert.ok(mockVAmiga.setBreakpoint.calledWith(0x5000));
+      assert.ok(mockVAmiga.setBreakpoint.calledWith(0x6000));
+      assert.ok(newSourceMap.lookupSourceLine.calledWith("test.s", 10));
+
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x5000),
+      );
+      assert.deepStrictEqual(result.hitBreakpointIds, [sourceBp.id]);
+    });
+
+    it("should report breakpoints which no longer have a location as unverified", async () => {
+      const [functionBp] = await breakpointManager.setFunctionBreakpoints([
+        { name: "main" },
+      ]);
+      newSourceMap.getSymbols.returns({});
+
+      const [changed] = breakpointManager.relocate(
+        newSourceMap,
+        mockEvaluateManager,
+      );
+
+      assert.strictEqual(changed.id, functionBp.id);
+      assert.strictEqual(changed.verified, false);
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x6000),
+      );
+      assert.strictEqual(result.hitBreakpointIds, undefined);
+    });
+
+    it("should remove data and copper breakpoints in the old program's memory", async () => {
+      useEvaluateManager();
+      mockSourceMap.getSymbols.returns({ counter: 0x3000 });
+      mockSourceMap.getSymbolLengths.returns({ counter: 2 });
+      const [dataBp] = await breakpointManager.setDataBreakpoints([
+        { dataId: "symbols:counter", accessType: "write" },
+      ]);
+      const [copperBp, otherCopperBp] =
+        await breakpointManager.setFunctionBreakpoints([
+          { name: "copper $3100" },
+          { name: "copper $20000" },
+        ]);
+
+      const changed = breakpointManager.relocate(
+        newSourceMap,
+        mockEvaluateManager,
+        [{ address: 0x3000, size: 0x200 }],
+      );
+
+      assert.deepStrictEqual(
+        changed.map((bp) => [bp.id, bp.verified]),
+        [
+          [dataBp.id, false],
+          [copperBp.id, false],
+        ],
+      );
+      assert.ok(mockVAmiga.removeWatchpoint.calledWith(0x3000));
+      assert.ok(mockVAmiga.removeCopperBreakpoint.calledOnceWith(0x3100));
+      assert.deepStrictEqual(
+        breakpointManager.getCopperBreakpoints().map((bp) => bp.id),
+        [otherCopperBp.id],
+      );
+    });
+  });
+
+  describe("Conditional breakpoints", () => {
+    it("should stop when condition is true", async () => {
+      mockEvaluateManager.evaluateCondition.resolves(true);
+      const [bp] = await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, condition: "d0 == $10" },
+      ]);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x1000),
+      );
+
+      assert.ok(mockEvaluateManager.evaluateCondition.calledWith("d0 == $10"));
+      assert.strictEqual(result.resume, undefined);
+      assert.strictEqual(result.reason, "breakpoint");
+      assert.deepStrictEqual(result.hitBreakpointIds, [bp.id]);
+    });
+
+    it("should resume when condition is false", async () => {
+      mockEvaluateManager.evaluateCondition.resolves(false);
+      await breakpointManager.setInstructionBreakpoints([
+        { instructionReference: "0x3000", condition: "d0 > 1" },
+      ]);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x3000),
+      );
+
+      assert.strictEqual(result.resume, true);
+    });
+
+    it("should stop and report evaluation errors", async () => {
+      mockEvaluateManager.evaluateCondition.rejects(new Error("bad address"));
+      await breakpointManager.setFunctionBreakpoints([
+        { name: "main", condition: "peekU16(a0) > 3" },
+      ]);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x2000),
+      );
+
+      assert.strictEqual(result.resume, undefined);
+      assert.ok(result.text?.includes("bad address"));
+    });
+
+    it("should not evaluate breakpoints without a condition", async () => {
+      await breakpointManager.setSourceBreakpoints("test.s", [{ line: 10 }]);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x1000),
+      );
+
+      assert.ok(mockEvaluateManager.evaluateCondition.notCalled);
+      assert.strictEqual(result.resume, undefined);
+    });
+
+    it("should report invalid conditions as unverified", async () => {
+      mockEvaluateManager.validateCondition.throws(new Error("unexpected TOP"));
+
+      const [bp] = await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, condition: "d0 ==" },
+      ]);
+
+      assert.strictEqual(bp.verified, false);
+      assert.ok(bp.message?.includes("Invalid condition 'd0 =='"));
+      assert.ok(mockVAmiga.setBreakpoint.notCalled);
+    });
+
+    it("should give temporary breakpoints precedence over conditions", async () => {
+      mockEvaluateManager.evaluateCondition.resolves(false);
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, condition: "d0 == 1" },
+      ]);
+      breakpointManager.setTmpBreakpoint(0x1000, "step");
+
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x1000),
+      );
+
+      assert.strictEqual(result.reason, "step");
+      assert.strictEqual(result.resume, undefined);
+      // Emulator breakpoint is still needed for the source breakpoint
+      assert.ok(mockVAmiga.removeBreakpoint.notCalled);
+    });
+
+    it("should keep a temporary breakpoint when a user breakpoint at the same address is removed", async () => {
+      await breakpointManager.setSourceBreakpoints("test.s", [{ line: 10 }]);
+      breakpointManager.setTmpBreakpoint(0x1000, "step");
+
+      await breakpointManager.setSourceBreakpoints("test.s", []);
+      assert.ok(mockVAmiga.removeBreakpoint.notCalled);
+
+      breakpointManager.clearTmpBreakpoints();
+      assert.ok(mockVAmiga.removeBreakpoint.calledOnceWithExactly(0x1000));
+    });
+  });
+
+  describe("Logpoints", () => {
+    it("should interpolate expressions and resume", async () => {
+      mockEvaluateManager.evaluateFormatted.callsFake(
+        async ({ expression }) => ({
+          result: expression === "d0" ? "0x00000010 = 16" : "0x1234",
+          variablesReference: 0,
+        }),
+      );
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, logMessage: "d0={d0} val={peekU16(a0)}" },
+      ]);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x1000),
+      );
+
+      assert.strictEqual(result.resume, true);
+      assert.strictEqual(result.output, "d0=0x00000010 = 16 val=0x1234");
+    });
+
+    it("should include evaluation errors in output", async () => {
+      mockEvaluateManager.evaluateFormatted.rejects(new Error("undefined"));
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, logMessage: "x={foo}" },
+      ]);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x1000),
+      );
+
+      assert.strictEqual(result.resume, true);
+      assert.strictEqual(result.output, "x=<undefined>");
+    });
+
+    it("should not log when condition is false", async () => {
+      mockEvaluateManager.evaluateCondition.resolves(false);
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, condition: "d0 == 1", logMessage: "hit" },
+      ]);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x1000),
+      );
+
+      assert.strictEqual(result.resume, true);
+      assert.strictEqual(result.output, undefined);
+    });
+  });
+
+  describe("Hit conditions", () => {
+    async function hitTimes(count: number) {
+      const results = [];
+      for (let i = 0; i < count; i++) {
+        results.push(
+          await breakpointManager.handleBreakpointStop(
+            breakpointMessage(0x1000),
+          ),
+        );
+      }
+      return results.map((r) => !r.resume);
+    }
+
+    it("should stop from the nth hit for >= conditions", async () => {
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, hitCondition: ">= 3" },
+      ]);
+      assert.deepStrictEqual(await hitTimes(4), [false, false, true, true]);
+    });
+
+    it("should treat a plain number as >=", async () => {
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, hitCondition: "2" },
+      ]);
+      assert.deepStrictEqual(await hitTimes(3), [false, true, true]);
+    });
+
+    it("should stop only on the nth hit for == conditions", async () => {
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, hitCondition: "== 2" },
+      ]);
+      assert.deepStrictEqual(await hitTimes(3), [false, true, false]);
+    });
+
+    it("should stop on every nth hit for % conditions", async () => {
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, hitCondition: "%2" },
+      ]);
+      assert.deepStrictEqual(await hitTimes(4), [false, true, false, true]);
+    });
+
+    it("should stop after the nth hit for > conditions", async () => {
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, hitCondition: "> 1" },
+      ]);
+      assert.deepStrictEqual(await hitTimes(3), [false, true, true]);
+    });
+
+    it("should only count hits where the condition is met", async () => {
+      mockEvaluateManager.evaluateCondition.onFirstCall().resolves(false);
+      mockEvaluateManager.evaluateCondition.resolves(true);
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, condition: "d0 == 1", hitCondition: "== 1" },
+      ]);
+      assert.deepStrictEqual(await hitTimes(2), [false, true]);
+    });
+
+    it("should report the hit count on the breakpoint", async () => {
+      const [bp] = await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10 },
+      ]);
+      await hitTimes(1);
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x1000),
+      );
+      assert.deepStrictEqual(result.changedBreakpoints, [
+        { id: bp.id, verified: true, line: 10, message: "Hit count: 2" },
+      ]);
+    });
+
+    it("should keep hit counts when breakpoints in the file are updated", async () => {
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, hitCondition: "== 2" },
+      ]);
+      await hitTimes(1);
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, hitCondition: "== 2" },
+        { line: 20 },
+      ]);
+      assert.deepStrictEqual(await hitTimes(1), [true]);
+    });
+
+    it("should not use emulator ignore counts", async () => {
+      await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, hitCondition: "5" },
+      ]);
+      assert.ok(mockVAmiga.setBreakpoint.calledOnceWithExactly(0x1000));
+    });
+
+    it("should report invalid hit conditions as unverified", async () => {
+      const [bp] = await breakpointManager.setSourceBreakpoints("test.s", [
+        { line: 10, hitCondition: "lots" },
+      ]);
+      assert.strictEqual(bp.verified, false);
+      assert.ok(bp.message?.includes("Invalid hit condition 'lots'"));
+    });
+  });
+
+  describe("Copper breakpoints", () => {
+    beforeEach(() => {
+      useEvaluateManager({ CopperList: 0x1fff8 });
+      mockVAmiga.getBeamPosition.resolves({ vpos: 100, hpos: 0x40 });
+    });
+
+    it("should set copper breakpoint from function breakpoint name", async () => {
+      const [bp] = await breakpointManager.setFunctionBreakpoints([
+        { name: "copper CopperList+8" },
+      ]);
+
+      assert.strictEqual(bp.verified, true);
+      assert.ok(mockVAmiga.setCopperBreakpoint.calledOnceWithExactly(0x20000));
+      assert.ok(mockVAmiga.setBreakpoint.notCalled);
+    });
+
+    it("should set copper breakpoint at a literal address, not the value stored there", async () => {
+      const [bp] = await breakpointManager.setFunctionBreakpoints([
+        { name: "copper $20000" },
+      ]);
+
+      assert.strictEqual(bp.verified, true);
+      assert.ok(mockVAmiga.setCopperBreakpoint.calledOnceWithExactly(0x20000));
+    });
+
+    it("should reject odd copper addresses", async () => {
+      const [bp] = await breakpointManager.setFunctionBreakpoints([
+        { name: "copper 0x20001" },
+      ]);
+
+      assert.strictEqual(bp.verified, false);
+      assert.ok(mockVAmiga.setCopperBreakpoint.notCalled);
+    });
+
+    it("should remove copper breakpoints when function breakpoints are replaced", async () => {
+      await breakpointManager.setFunctionBreakpoints([
+        { name: "copper 0x20000" },
+      ]);
+      await breakpointManager.setFunctionBreakpoints([]);
+
+      assert.ok(
+        mockVAmiga.removeCopperBreakpoint.calledOnceWithExactly(0x20000),
+      );
+      assert.deepStrictEqual(breakpointManager.getCopperBreakpoints(), []);
+    });
+
+    it("should stop with beam position when copper breakpoint is hit", async () => {
+      const [bp] = await breakpointManager.setFunctionBreakpoints([
+        { name: "copper 0x20000" },
+      ]);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        copperMessage(0x20000),
+      );
+
+      assert.strictEqual(result.reason, "copper breakpoint");
+      assert.deepStrictEqual(result.hitBreakpointIds, [bp.id]);
+      assert.ok(result.text?.includes("beam position 100,0x40"));
+    });
+
+    it("should clear all temporary copper breakpoints when one is hit", async () => {
+      breakpointManager.setTmpCopperBreakpoint(0x20004, "step");
+      breakpointManager.setTmpCopperBreakpoint(0x30000, "step");
+
+      const result = await breakpointManager.handleBreakpointStop(
+        copperMessage(0x20004),
+      );
+
+      assert.strictEqual(result.reason, "step");
+      assert.ok(mockVAmiga.removeCopperBreakpoint.calledWith(0x20004));
+      assert.ok(mockVAmiga.removeCopperBreakpoint.calledWith(0x30000));
+    });
+
+    it("should keep user copper breakpoint at temporary breakpoint address", async () => {
+      await breakpointManager.setFunctionBreakpoints([
+        { name: "copper 0x20000" },
+      ]);
+      breakpointManager.setTmpCopperBreakpoint(0x20000, "step");
+
+      await breakpointManager.handleBreakpointStop(copperMessage(0x20000));
+
+      assert.ok(mockVAmiga.setCopperBreakpoint.calledOnce);
+      assert.ok(mockVAmiga.removeCopperBreakpoint.notCalled);
+    });
+  });
+
+  describe("Beamtraps", () => {
+    beforeEach(() => {
+      useEvaluateManager();
+    });
+
+    it("should set beamtrap from function breakpoint name", async () => {
+      const [bp] = await breakpointManager.setFunctionBreakpoints([
+        { name: "beam 100,0x40" },
+      ]);
+
+      assert.strictEqual(bp.verified, true);
+      assert.ok(mockVAmiga.setBeamtrap.calledOnceWithExactly(100, 0x40));
+    });
+
+    it("should reject positions outside the frame", async () => {
+      const [bp] = await breakpointManager.setFunctionBreakpoints([
+        { name: "beam 400,0" },
+      ]);
+
+      assert.strictEqual(bp.verified, false);
+      assert.ok(bp.message?.includes("Vertical position"));
+      assert.ok(mockVAmiga.setBeamtrap.notCalled);
+    });
+
+    it("should stop when beamtrap is reached", async () => {
+      const [bp] = await breakpointManager.setFunctionBreakpoints([
+        { name: "beam 100,0x40" },
+      ]);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        beamtrapMessage(100, 0x40),
+      );
+
+      assert.strictEqual(result.reason, "beamtrap");
+      assert.deepStrictEqual(result.hitBreakpointIds, [bp.id]);
+      assert.strictEqual(result.text, "Beam position 100,0x40");
+    });
+
+    it("should remove beamtraps on clearAll", async () => {
+      await breakpointManager.setFunctionBreakpoints([
+        { name: "beam 100,0x40" },
+      ]);
+
+      breakpointManager.clearAll();
+
+      assert.ok(mockVAmiga.removeBeamtrap.calledOnceWithExactly(100, 0x40));
+    });
+  });
+
+  describe("Temporary beamtraps", () => {
+    it("should end a step which doesn't complete within a frame", async () => {
+      breakpointManager.setTmpBreakpoint(0x1006, "step");
+      breakpointManager.setTmpBeamtrap(100, 0x40, "step");
+
+      const result = await breakpointManager.handleBreakpointStop(
+        beamtrapMessage(100, 0x40),
+      );
+
+      assert.strictEqual(result.reason, "step");
+      assert.ok(result.output?.includes("within a frame"));
+      assert.ok(mockVAmiga.removeBreakpoint.calledOnceWithExactly(0x1006));
+      assert.ok(mockVAmiga.removeBeamtrap.calledOnceWithExactly(100, 0x40));
+      assert.deepStrictEqual(breakpointManager.getTmpBreakpoints(), []);
+    });
+
+    it("should remove the beamtrap when the step completes", async () => {
+      breakpointManager.setTmpBreakpoint(0x1006, "step");
+      breakpointManager.setTmpBeamtrap(100, 0x40, "step");
+
+      const result = await breakpointManager.handleBreakpointStop(
+        breakpointMessage(0x1006),
+      );
+
+      assert.strictEqual(result.reason, "step");
+      assert.ok(mockVAmiga.removeBeamtrap.calledOnceWithExactly(100, 0x40));
+    });
+
+    it("should report a user beamtrap at the same position", async () => {
+      useEvaluateManager();
+      const [bp] = await breakpointManager.setFunctionBreakpoints([
+        { name: "beam 100,0x40" },
+      ]);
+      breakpointManager.setTmpBreakpoint(0x1006, "step");
+      breakpointManager.setTmpBeamtrap(100, 0x40, "step");
+
+      const result = await breakpointManager.handleBreakpointStop(
+        beamtrapMessage(100, 0x40),
+      );
+
+      assert.strictEqual(result.reason, "beamtrap");
+      assert.deepStrictEqual(result.hitBreakpointIds, [bp.id]);
+      assert.ok(mockVAmiga.removeBreakpoint.calledOnceWithExactly(0x1006));
+      assert.deepStrictEqual(breakpointManager.getTmpBreakpoints(), []);
+    });
+
+    it("should end the step when a user beamtrap at the same position doesn't stop", async () => {
+      useEvaluateManager();
+      await breakpointManager.setFunctionBreakpoints([
+        { name: "beam 100,0x40", condition: "0" },
+      ]);
+      breakpointManager.setTmpBeamtrap(100, 0x40, "step");
+
+      const result = await breakpointManager.handleBreakpointStop(
+        beamtrapMessage(100, 0x40),
+      );
+
+      assert.strictEqual(result.reason, "step");
+      assert.ok(!result.resume);
+      assert.strictEqual(result.output, "Step did not complete within a frame");
+    });
+
+    it("should keep a user beamtrap at the same position", async () => {
+      useEvaluateManager();
+      await breakpointManager.setFunctionBreakpoints([
+        { name: "beam 100,0x40" },
+      ]);
+      breakpointManager.setTmpBeamtrap(100, 0x40, "step");
+
+      breakpointManager.clearTmpBreakpoints();
+
+      assert.ok(mockVAmiga.setBeamtrap.calledOnce);
+      assert.ok(mockVAmiga.removeBeamtrap.notCalled);
+    });
+  });
+
+  describe("Data breakpoints", () => {
+    beforeEach(() => {
+      mockSourceMap.getSymbols.returns({ counter: 0x3000 });
+      mockSourceMap.getSymbolLengths.returns({ counter: 2 });
+      mockVAmiga.peek16.resolves(1);
+    });
+
+    const lastInstruction = (instruction: string) =>
+      mockVAmiga.getCpuTrace.resolves([
+        { pc: "1234", instruction, flags: "", length: 4 },
+      ]);
+
+    it("should offer read, write and read/write access", () => {
+      const info = breakpointManager.getDataBreakpointInfo(
+        "symbols",
+        "counter",
+      );
+
+      assert.deepStrictEqual(info?.accessTypes, ["read", "write", "readWrite"]);
+    });
+
+    it("should report old and new values and the accessing instruction", async () => {
+      const [bp] = await breakpointManager.setDataBreakpoints([
+        { dataId: "symbols:counter", accessType: "write" },
+      ]);
+      mockVAmiga.peek16.resolves(2);
+      lastInstruction("addq.w #1,($3000).l");
+
+      const result = await breakpointManager.handleBreakpointStop(
+        watchpointMessage(0x3000),
+      );
+
+      assert.ok(mockVAmiga.setWatchpoint.calledOnceWithExactly(0x3000));
+      assert.strictEqual(result.resume, undefined);
+      assert.deepStrictEqual(result.hitBreakpointIds, [bp.id]);
+      assert.strictEqual(
+        result.text,
+        "Read/write counter: 0x0001 -> 0x0002 at 0x00001234",
+      );
+    });
+
+    it("should resume on reads of write breakpoints", async () => {
+      await breakpointManager.setDataBreakpoints([
+        { dataId: "symbols:counter", accessType: "write" },
+      ]);
+      lastInstruction("tst.w ($3000).l");
+
+      const result = await breakpointManager.handleBreakpointStop(
+        watchpointMessage(0x3000),
+      );
+
+      assert.strictEqual(result.resume, true);
+    });
+
+    it("should resume on writes of read breakpoints", async () => {
+      await breakpointManager.setDataBreakpoints([
+        { dataId: "symbols:counter", accessType: "read" },
+      ]);
+      lastInstruction("move.w d0,($3000).l");
+
+      const result = await breakpointManager.handleBreakpointStop(
+        watchpointMessage(0x3000),
+      );
+
+      assert.strictEqual(result.resume, true);
+    });
+
+    it("should detect writes from value changes if the instruction is unknown", async () => {
+      await breakpointManager.setDataBreakpoints([
+        { dataId: "symbols:counter", accessType: "write" },
+      ]);
+      mockVAmiga.getCpuTrace.resolves([]);
+
+      const unchanged = await breakpointManager.handleBreakpointStop(
+        watchpointMessage(0x3000),
+      );
+      mockVAmiga.peek16.resolves(5);
+      const changed = await breakpointManager.handleBreakpointStop(
+        watchpointMessage(0x3000),
+      );
+
+      assert.strictEqual(unchanged.resume, true);
+      assert.strictEqual(changed.resume, undefined);
+      assert.strictEqual(changed.text, "Write counter: 0x0001 -> 0x0005");
+    });
+
+    it("should only stop when the value changes to the condition value", async () => {
+      await breakpointManager.setDataBreakpoints([
+        { dataId: "symbols:counter", condition: "$10" },
+      ]);
+      lastInstruction("move.w d0,($3000).l");
+
+      mockVAmiga.peek16.resolves(0x0f);
+      const other = await breakpointManager.handleBreakpointStop(
+        watchpointMessage(0x3000),
+      );
+      mockVAmiga.peek16.resolves(0x10);
+      const matched = await breakpointManager.handleBreakpointStop(
+        watchpointMessage(0x3000),
+      );
+      const unchanged = await breakpointManager.handleBreakpointStop(
+        watchpointMessage(0x3000),
+      );
+
+      assert.strictEqual(other.resume, true);
+      assert.strictEqual(matched.resume, undefined);
+      assert.strictEqual(unchanged.resume, true);
+      assert.ok(mockEvaluateManager.evaluateCondition.notCalled);
+    });
+
+    it("should evaluate other conditions as expressions", async () => {
+      await breakpointManager.setDataBreakpoints([
+        { dataId: "symbols:counter", condition: "d0 > 2" },
+      ]);
+      mockEvaluateManager.evaluateCondition.resolves(false);
+      lastInstruction("move.w d0,($3000).l");
+
+      const result = await breakpointManager.handleBreakpointStop(
+        watchpointMessage(0x3000),
+      );
+
+      assert.ok(mockEvaluateManager.evaluateCondition.calledWith("d0 > 2"));
+      assert.strictEqual(result.resume, true);
+    });
+  });
+
+  describe("Custom register breakpoints", () => {
+    const copperWatchpointMessage = (address: number): StopMessage => ({
+      hasMessage: true,
+      name: "COPPERWP_REACHED",
+      payload: { pc: address, vector: 0 },
+    });
+
+    it("should offer write access for custom registers", () => {
+      const info = breakpointManager.getDataBreakpointInfo("custom", "DMACON");
+
+      assert.strictEqual(info?.dataId, "custom:DMACON");
+      assert.deepStrictEqual(info?.accessTypes, ["write"]);
+      assert.strictEqual(
+        breakpointManager.getDataBreakpointInfo("custom", "NOTAREG"),
+        undefined,
+      );
+    });
+
+    it("should watch CPU and copper writes to both words of long registers", async () => {
+      const [bp] = await breakpointManager.setDataBreakpoints([
+        { dataId: "custom:COP1LC" },
+      ]);
+
+      assert.strictEqual(bp.verified, true);
+      assert.deepStrictEqual(
+        mockVAmiga.setWatchpoint.args.map(([address]) => address),
+        [0xdff080, 0xdff082],
+      );
+      assert.deepStrictEqual(
+        mockVAmiga.setCopperWatchpoint.args.map(([address]) => address),
+        [0xdff080, 0xdff082],
+      );
+
+      await breakpointManager.setDataBreakpoints([]);
+
+      assert.strictEqual(mockVAmiga.removeWatchpoint.callCount, 2);
+      assert.strictEqual(mockVAmiga.removeCopperWatchpoint.callCount, 2);
+    });
+
+    it("should decode the value written by the CPU", async () => {
+      const [bp] = await breakpointManager.setDataBreakpoints([
+        { dataId: "custom:DMACON" },
+      ]);
+      mockVAmiga.getAllCustomRegisters.resolves({
+        DMACON: { value: "0x0380" },
+      });
+      mockVAmiga.getCpuTrace.resolves([
+        { pc: "1234", instruction: "move.w d0,$dff096", flags: "", length: 4 },
+      ]);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        watchpointMessage(0xdff096),
+      );
+
+      assert.strictEqual(result.reason, "data breakpoint");
+      assert.deepStrictEqual(result.hitBreakpointIds, [bp.id]);
+      assert.strictEqual(
+        result.text,
+        "DMACON written at 0x00001234: 0x0380 (ENABLE_ALL, BITPLANES, COPPER)",
+      );
+    });
+
+    it("should report writes by the copper", async () => {
+      const [bp] = await breakpointManager.setDataBreakpoints([
+        { dataId: "custom:BPLCON0" },
+      ]);
+      mockVAmiga.getAllCustomRegisters.resolves({
+        BPLCON0: { value: "0x4200" },
+      });
+      mockVAmiga.getCopperInfo.resolves({ coppc0: "0x00003000" } as any);
+
+      const result = await breakpointManager.handleBreakpointStop(
+        copperWatchpointMessage(0x100),
+      );
+
+      assert.deepStrictEqual(result.hitBreakpointIds, [bp.id]);
+      assert.strictEqual(
+        result.text,
+        "BPLCON0 written by copper at 0x00003000: 0x4200 (BITPLANES=4, COLOR)",
+      );
+    });
+  });
+
+  describe("Exception breakpoints", () => {
+    it("should set a catchpoint for each vector filter", () => {
+      const breakpoints = breakpointManager.setExceptionBreakpoints(["4", "6"]);
+
+      assert.strictEqual(breakpoints.length, 2);
+      assert.ok(mockVAmiga.setCatchpoint.calledWith(4));
+      assert.ok(mockVAmiga.setCatchpoint.calledWith(6));
+    });
+
+    it("should select TRAP numbers and interrupt levels from filter options", () => {
+      breakpointManager.setExceptionBreakpoints(
+        [],
+        [
+          { filterId: "trap", condition: "0, 2-3" },
+          { filterId: "irq", condition: "6" },
+        ],
+      );
+
+      assert.deepStrictEqual(
+        mockVAmiga.setCatchpoint.args.map(([vector]) => vector),
+        [32, 34, 35, 30],
+      );
+    });
+
+    it("should catch all TRAPs without a condition", () => {
+      breakpointManager.setExceptionBreakpoints(["trap"]);
+
+      assert.strictEqual(mockVAmiga.setCatchpoint.callCount, 16);
+    });
+
+    it("should reject an invalid condition", () => {
+      const [bp] = breakpointManager.setExceptionBreakpoints(
+        [],
+        [{ filterId: "irq", condition: "8" }],
+      );
+
+      assert.strictEqual(bp.verified, false);
+      assert.ok(mockVAmiga.setCatchpoint.notCalled);
+    });
+
+    it("should report the exception name and faulting address", async () => {
+      const [bp] = breakpointManager.setExceptionBreakpoints(
+        [],
+        [{ filterId: "trap", condition: "3" }],
+      );
+      mockVAmiga.getCpuTrace.resolves([
+        { pc: "1234", instruction: "trap #3", flags: "S", length: 2 },
+      ]);
+      mockVAmiga.getCpuInfo.resolves({ a7: "0x8000" } as any);
+      mockVAmiga.readMemory.resolves(
+        Buffer.from([0x20, 0x00, 0x00, 0x00, 0x12, 0x36, 0, 0]),
+      );
+
+      const result = await breakpointManager.handleBreakpointStop(
+        catchpointMessage(35),
+      );
+
+      assert.strictEqual(result.reason, "exception");
+      assert.strictEqual(result.text, "TRAP #3 (TRAP_03) at 0x00001234");
+      assert.deepStrictEqual(result.hitBreakpointIds, [bp.id]);
+      assert.deepStrictEqual(result.exceptionInstruction, {
+        address: 0x1234,
+        isSupervisor: true,
+      });
+      assert.strictEqual(result.exceptionFrame?.address, 0x8000);
+      assert.strictEqual(result.exceptionFrame?.pc, 0x1236);
+    });
+  });
+
+  describe("hasBreakpoint", () => {
+    it("should check whether a reported breakpoint is still set", async () => {
+      const [bp] = await breakpointManager.setInstructionBreakpoints([
+        { instructionReference: "0x3000" },
+      ]);
+      assert.ok(breakpointManager.hasBreakpoint([bp.id!]));
+
+      await breakpointManager.setInstructionBreakpoints([]);
+      assert.ok(!breakpointManager.hasBreakpoint([bp.id!]));
+    });
+  });
+
+  describe("instructionAccess", () => {
+    it("should decode memory reads and writes", () => {
+      assert.deepStrictEqual(instructionAccess("move.w ($3000).l,d0"), {
+        read: true,
+        write: false,
+      });
+      assert.deepStrictEqual(instructionAccess("move.l d0,4(a0)"), {
+        read: false,
+        write: true,
+      });
+      assert.deepStrictEqual(instructionAccess("movem.l d0-d7/a0-a6,-(sp)"), {
+        read: false,
+        write: true,
+      });
+      assert.deepStrictEqual(instructionAccess("cmp.w (2,a0,d0.w),d1"), {
+        read: true,
+        write: false,
+      });
+    });
+
+    it("should decode read-modify-write instructions", () => {
+      assert.deepStrictEqual(instructionAccess("bset #1,(a0)"), {
+        read: true,
+        write: true,
+      });
+      assert.deepStrictEqual(instructionAccess("not.b $10(a1)"), {
+        read: true,
+        write: true,
+      });
+    });
+
+    it("should not decode ambiguous instructions", () => {
+      assert.strictEqual(instructionAccess("move.w (a0)+,(a1)+"), undefined);
+      assert.strictEqual(instructionAccess("rts"), undefined);
+      assert.strictEqual(instructionAccess("lea (a0),a1"), undefined);
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import * as assert from "assert";
+import { buildCommands, buildTaskDefinition } from "../buildTaskProvider";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+describe("Build tasks", () => {
+  const cwd = "/work";
+
+  describe("buildTaskDefinition", () => {
+    it("should take output paths and CPU from the launch configuration", () => {
+      const definition = buildTaskDefinition({
+        type: "vamiga",
+        request: "launch",
+        name: "Launch",
+        program: "/work/out/a.exe",
+        debugProgram: "/work/out/a.debug.exe",
+        emulatorOptions: { cpuRevision: "68020" },
+        build: { sources: ["main.s"] },
+      });
+      assert.deepStrictEqual(definition, {
+        type: "vamiga",
+        sources: ["main.s"],
+        output: "/work/out/a.exe",
+        debugOutput: "/work/out/a.debug.exe",
+        cpu: "68020",
+      });
+    });
+
+    it("should return undefined without build settings", () => {
+      assert.strictEqual(
+        buildTaskDefinition({
+          type: "vamiga",
+          request: "launch",
+          name: "Launch",
+          program: "/work/out/a.exe",
+        }),
+        undefined,
+      );
+    });
+  });
+
+  describe("buildCommands", () => {
+    it("should assemble each source with vasm and link with vlink", () => {
+      const commands = buildCommands(
+        {
+          type: "vamiga",
+          sources: ["src/main.s", "src/gfx.s"],
+          output: "out/a.exe",
+          includePaths: ["include"],
+          args: ["-nosym"],
+        },
+        cwd,
+      );
+      assert.deepStrictEqual(commands, [
+        {
+          command: "vasmm68k_mot",
+          args: [
+            "-Fhunk",
+            "-linedebug",
+            "-quiet",
+            "-m68000",
+            "-I/work/include",
+            "-nosym",
+            "-o",
+            "/work/out/obj/src/main.o",
+            "/work/src/main.s",
+          ],
+        },
+        {
+          command: "vasmm68k_mot",
+          args: [
+            "-Fhunk",
+            "-linedebug",
+            "-quiet",
+            "-m68000",
+            "-I/work/include",
+            "-nosym",
+            "-o",
+            "/work/out/obj/src/gfx.o",
+            "/work/src/gfx.s",
+          ],
+        },
+        {
+          command: "vlink",
+          args: [
+            "-bamigahunk",
+            "-Bstatic",
+            "-o",
+            "/work/out/a.exe",
+            "/work/out/obj/src/main.o",
+            "/work/out/obj/src/gfx.o",
+          ],
+        },
+      ]);
+    });
+
+    it("should keep source directories in object paths", () => {
+      const commands = buildCommands(
+        {
+          type: "vamiga",
+          sources: ["a/main.s", "b/main.s", "../lib/util.s"],
+          output: "out/a.exe",
+        },
+        cwd,
+      );
+      assert.deepStrictEqual(commands.at(-1)?.args.slice(-3), [
+        "/work/out/obj/a/main.o",
+        "/work/out/obj/b/main.o",
+        "/work/out/obj/__/lib/util.o",
+      ]);
+    });
+
+    it("should substitute the workspace folder in paths", () => {
+      const commands = buildCommands(
+        {
+          type: "vamiga",
+          sources: ["${workspaceFolder}/src/main.s"],
+          output: "${workspaceFolder}/out/a.exe",
+          includePaths: ["${workspaceFolder}/include"],
+        },
+        cwd,
+      );
+      assert.deepStrictEqual(commands[0].args.slice(-4), [
+        "-I/work/include",
+        "-o",
+        "/work/out/obj/src/main.o",
+        "/work/src/main.s",
+      ]);
+      assert.deepStrictEqual(commands[1].args.slice(-3), [
+        "-o",
+        "/work/out/a.exe",
+        "/work/out/obj/src/main.o",
+      ]);
+    });
+
+    it("should link a stripped output alongside a separate debug output", () => {
+      const commands = buildCommands(
+        {
+          type: "vamiga",
+          sources: ["main.s"],
+          output: "out/a.exe",
+          debugOutput: "out/a.debug.exe",
+          cpu: "fake_68030",
+        },
+        cwd,
+      );
+      assert.ok(commands[0].args.includes("-m68030"));
+      assert.deepStrictEqual(commands.slice(1), [
+        {
+          command: "vlink",
+          args: [
+            "-bamigahunk",
+            "-Bstatic",
+            "-o",
+            "/work/out/a.debug.exe",
+            "/work/out/obj/main.o",
+          ],
+        },
+        {
+          command: "vlink",
+          args: [
+            "-bamigahunk",
+            "-Bstatic",
+            "-s",
+            "-o",
+            "/work/out/a.exe",
+            "/work/out/obj/main.o",
+          ],
+        },
+      ]);
+    });
+
+    it("should compile with gcc and convert the ELF output to hunks", () => {
+      const commands = buildCommands(
+        {
+          type: "vamiga",
+          toolchain: "gcc",
+          sources: ["main.c"],
+          output: "out/a.exe",
+          linkerArgs: ["-nostartfiles"],
+        },
+        cwd,
+      );
+      assert.deepStrictEqual(commands, [
+        {
+          command: "m68k-amiga-elf-gcc",
+          args: [
+            "-c",
+            "-g",
+            "-m68000",
+            "-o",
+            "/work/out/obj/main.o",
+            "/work/main.c",
+          ],
+        },
+        {
+          command: "m68k-amiga-elf-gcc",
+          args: [
+            "-g",
+            "-m68000",
+            "-nostartfiles",
+            "-o",
+            "/work/out/a.elf",
+            "/work/out/obj/main.o",
+          ],
+        },
+        { command: "elf2hunk", args: ["/work/out/a.elf", "/work/out/a.exe"] },
+      ]);
+    });
+  });
+
+  describe("Problem matchers", () => {
+    const { problemMatchers } = JSON.parse(
+      readFileSync(join(__dirname, "../../package.json"), "utf8"),
+    ).contributes;
+    const match = (name: string, line: string) => {
+      const matcher = problemMatchers.find(
+        (m: { name: string }) => m.name === name,
+      );
+      return line.match(new RegExp(matcher.pattern.regexp));
+    };
+
+    it("should match vasm errors and warnings", () => {
+      const error = match(
+        "vasm",
+        'error 2 in line 3 of "src/main.s": unknown mnemonic <moov>',
+      );
+      assert.deepStrictEqual(error?.slice(1), [
+        "error",
+        "2",
+        "3",
+        "src/main.s",
+        "unknown mnemonic <moov>",
+      ]);
+      const warning = match(
+        "vasm",
+        'warning 2047 in line 10 of "main.s": branch out of range',
+      );
+      assert.strictEqual(warning?.[1], "warning");
+    });
+
+    it("should match vlink errors for an object file", () => {
+      const error = match(
+        "vlink",
+        "Error 21: obj/main.o (CODE+0x1c): Reference to undefined symbol _init.",
+      );
+      assert.deepStrictEqual(error?.slice(1), [
+        "Error",
+        "21",
+        "obj/main.o",
+        "Reference to undefined symbol _init.",
+      ]);
+    });
+
+    it("should match gcc diagnostics", () => {
+      const error = match(
+        "m68k-gcc",
+        "src/main.c:12:5: error: 'x' undeclared (first use in this function)",
+      );
+      assert.deepStrictEqual(error?.slice(1), [
+        "src/main.c",
+        "12",
+        "5",
+        "error",
+        "'x' undeclared (first use in this function)",
+      ]);
+    });
+  });
+});
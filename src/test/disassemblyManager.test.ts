@@ -1,7 +1,10 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import * as assert from "assert";
 import * as sinon from "sinon";
-import { DisassemblyManager } from "../disassemblyManager";
+import {
+  DisassemblyManager,
+  isStepOverInstruction,
+} from "../disassemblyManager";
 import { VAmiga } from "../vAmiga";
 import { Source } from "@vscode/debugadapter";
 
@@ -453,4 +456,31 @@ describe("DisassemblyManager - Comprehensive Tests", () => {
       assert.strictEqual(result[2].instruction, "add.l #4,d0");
     });
   });
+
+  describe("isStepOverInstruction", () => {
+    it("should match subroutine calls, traps and loops", () => {
+      for (const instruction of [
+        "jsr     (-$c6,a6)",
+        "bsr.b   $1234",
+        "BSR.W   $1234",
+        "trap    #$f",
+        "trapv",
+        "dbra    d0,$1000",
+        "dbne    d1,$1000",
+      ]) {
+        assert.ok(isStepOverInstruction(instruction), instruction);
+      }
+    });
+
+    it("should match line A and line F opcodes", () => {
+      assert.ok(isStepOverInstruction("dc.w    $a00c", "a00c"));
+      assert.ok(isStepOverInstruction("dc.w    $f200", "F200 0000"));
+    });
+
+    it("should not match other instructions", () => {
+      for (const instruction of ["bra.b   $1000", "jmp     (a0)", "rts"]) {
+        assert.ok(!isStepOverInstruction(instruction, "4e75"), instruction);
+      }
+    });
+  });
 });
@@ -0,0 +1,45 @@
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { parseDwarf } from '../dwarfParser';
+import { callFrameTableFromDwarf } from '../dwarfCallFrames';
+import * as path from 'path';
+
+describe('dwarfCallFrames', () => {
+  const testFile = path.join(__dirname, 'fixtures/amigaPrograms/c_prog.elf');
+  const dwarfData = parseDwarf(readFileSync(testFile));
+  // .text loaded at 0x10000
+  const offsets = [0x10000, 0x20000, 0x30000, 0x40000, 0x50000];
+  const table = callFrameTableFromDwarf(dwarfData, offsets);
+
+  it('should apply CIE rules at function entry', () => {
+    const row = table.findRow(0x10a62);
+
+    expect(row?.cfaRegister).toBe(15); // a7
+    expect(row?.cfaOffset).toBe(4);
+    expect(row?.returnAddressRegister).toBe(24);
+    expect(row?.savedRegisters.get(24)).toBe(-4);
+  });
+
+  it('should apply FDE rules up to the address', () => {
+    const row = table.findRow(0x10aac);
+
+    expect(row?.cfaOffset).toBe(30);
+    expect(row?.savedRegisters.get(0)).toBe(-30); // d0
+    expect(row?.savedRegisters.get(14)).toBe(-10); // a6
+  });
+
+  it('should not apply rules for later addresses', () => {
+    expect(table.findRow(0x10aaa)?.cfaOffset).toBe(6);
+    expect(table.findRow(0x10b14)?.cfaOffset).toBe(6);
+  });
+
+  it('should restore remembered state', () => {
+    expect(table.findRow(0x10b52)?.cfaOffset).toBe(4);
+    expect(table.findRow(0x10b54)?.cfaOffset).toBe(144);
+  });
+
+  it('should return undefined for addresses without call frame information', () => {
+    expect(table.findRow(0xa62)).toBeUndefined();
+    expect(table.findRow(0x30000)).toBeUndefined();
+  });
+});
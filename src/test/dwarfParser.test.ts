@@ -1,6 +1,6 @@
 import { describe, it, expect } from '@jest/globals';
 import { readFileSync } from 'fs';
-import { parseDwarf } from '../dwarfParser';
+import { DW_AT, DW_TAG, parseDwarf } from '../dwarfParser';
 import * as path from 'path';
 
 describe('dwarfParser', () => {
@@ -72,4 +72,45 @@ describe('dwarfParser', () => {
     // These should exist in the raw parsed data
     expect(artificialFiles.length).toBeGreaterThan(0);
   });
+
+  it('should parse debug info entries as a tree', () => {
+    const testFile = path.join(__dirname, 'fixtures/amigaPrograms/c_prog.elf');
+    const result = parseDwarf(readFileSync(testFile));
+
+    const unit = result.compilationUnits[0];
+    expect(unit.dies).toHaveLength(1);
+    const [root] = unit.dies;
+    expect(root.tag).toBe(DW_TAG.compile_unit);
+    expect(root.offset).toBe(0xc);
+
+    // WaitVbl, with a lexical block for each loop
+    const fn = root.children[0];
+    expect(fn.tag).toBe(DW_TAG.subprogram);
+    expect(fn.offset).toBe(0x13d);
+    expect(fn.children.map((die) => die.tag)).toEqual([
+      DW_TAG.lexical_block,
+      DW_TAG.lexical_block,
+    ]);
+    expect(fn.children[0].children[0].tag).toBe(DW_TAG.variable);
+
+    // References are resolved to .debug_info offsets
+    const origin = fn.attributes.find((a) => a.name === DW_AT.abstract_origin);
+    expect(origin?.value).toBe(0x5438);
+  });
+
+  it('should parse call frame information from .debug_frame', () => {
+    const testFile = path.join(__dirname, 'fixtures/amigaPrograms/c_prog.elf');
+    const buffer = readFileSync(testFile);
+
+    const result = parseDwarf(buffer);
+
+    expect(result.frameDescriptionEntries.length).toBe(16);
+
+    const [fde] = result.frameDescriptionEntries;
+    expect(fde.initialLocation).toBe(0xa62);
+    expect(fde.addressRange).toBe(0x46);
+    expect(fde.cie.codeAlignmentFactor).toBe(1);
+    expect(fde.cie.dataAlignmentFactor).toBe(-2);
+    expect(fde.cie.returnAddressRegister).toBe(24);
+  });
 });
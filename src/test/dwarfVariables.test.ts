@@ -0,0 +1,288 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { parseDwarf } from '../dwarfParser';
+import {
+  DW_ATE,
+  DwarfType,
+  FrameContext,
+  formatTypedValue,
+  readMember,
+  variablesFromDwarf,
+} from '../dwarfVariables';
+import * as path from 'path';
+
+describe('dwarfVariables', () => {
+  const testFile = path.join(__dirname, 'fixtures/amigaPrograms/c_prog.elf');
+  const dwarfData = parseDwarf(readFileSync(testFile));
+  // .text loaded at 0x10000, .rodata at 0x20000
+  const offsets = [0x10000, 0x20000, 0x30000, 0x40000, 0x50000];
+  const table = variablesFromDwarf(dwarfData, offsets);
+
+  const frame = (registers: number[] = []): FrameContext => ({
+    registers,
+    cfa: 0x8000,
+    peek32: jest.fn(async () => 0x12345678),
+  });
+
+  describe('getVariables', () => {
+    it('should find variables in the lexical block containing the address', () => {
+      const variables = table.getVariables(0x10a70);
+
+      expect(variables.map((v) => v.name)).toEqual(['vpos']);
+      expect(variables[0].type?.name).toBe('volatile ULONG');
+      expect(variables[0].type?.size).toBe(4);
+    });
+
+    it('should list parameters first', () => {
+      const variables = table.getVariables(0x10b60);
+
+      expect(variables[0]).toMatchObject({ name: 'fmt', isParameter: true });
+      expect(variables[0].type?.name).toBe('const char *');
+      expect(variables.find((v) => v.name === 'temp')?.type).toMatchObject({
+        kind: 'array',
+        name: 'char[128]',
+        size: 128,
+      });
+    });
+
+    it('should ignore functions discarded by the linker', () => {
+      // Unused strlen has debug info at address 0, overlapping _start
+      const names = table.getVariables(0x10000).map((v) => v.name);
+
+      expect(names).not.toContain('s');
+    });
+
+    it('should return no variables outside of functions', () => {
+      expect(table.getVariables(0x20000)).toEqual([]);
+      expect(table.getVariables(0xa70)).toEqual([]);
+    });
+  });
+
+  describe('getLocation', () => {
+    it('should evaluate frame base offsets using the CFA', async () => {
+      const [vpos] = table.getVariables(0x10a70);
+
+      const location = await table.getLocation(vpos, 0x10a70, frame());
+
+      expect(location).toEqual({ kind: 'memory', address: 0x8000 - 12 });
+    });
+
+    it('should evaluate register locations', async () => {
+      const a3 = table.getVariables(0x10aec).find((v) => v.name === '_a3');
+
+      const location = await table.getLocation(a3!, 0x10aec, frame());
+
+      expect(location).toEqual({ kind: 'register', register: 11 });
+    });
+
+    it('should use the location list entry for the address', async () => {
+      const vl = table.getVariables(0x10b30).find((v) => v.name === 'vl');
+
+      expect(await table.getLocation(vl!, 0x10b30, frame())).toEqual({
+        kind: 'value',
+        value: 0x8000 - 12,
+      });
+      expect(await table.getLocation(vl!, 0x10b40, frame())).toEqual({
+        kind: 'register',
+        register: 9,
+      });
+    });
+
+    it('should relocate addresses and dereference memory', async () => {
+      const [sin] = table.getVariables(0x10ad0);
+      const context = frame([5]);
+
+      const location = await table.getLocation(sin, 0x10ad0, context);
+
+      // Table in .rodata indexed by d0, reading a single byte
+      expect(context.peek32).toHaveBeenCalledWith(0x20000 + 0x27fc - 0xdb2 + 5);
+      expect(location).toEqual({ kind: 'value', value: 0x12 });
+    });
+
+    it('should return undefined where the value is not available', async () => {
+      const [sin] = table.getVariables(0x10ae0);
+
+      expect(await table.getLocation(sin, 0x10ae0, frame())).toBeUndefined();
+    });
+
+    it('should reject locations which need unknown registers', async () => {
+      const fmt = table.getVariables(0x10b30)[0];
+
+      await expect(
+        table.getLocation(fmt, 0x10b30, { ...frame(), cfa: undefined }),
+      ).rejects.toThrow('Canonical frame address unavailable');
+    });
+  });
+
+  describe('getGlobal', () => {
+    it('should find global variables at their loaded address', () => {
+      const actiView = table.getGlobal('ActiView');
+
+      // .bss at 0x1343a is the fifth section
+      expect(actiView?.address).toBe(0x50000);
+      expect(actiView?.type).toMatchObject({
+        kind: 'pointer',
+        name: 'struct View *',
+        target: { kind: 'struct', name: 'struct View' },
+      });
+    });
+
+    it('should describe array element types', () => {
+      expect(table.getGlobal('copper2')?.type).toMatchObject({
+        kind: 'array',
+        name: 'const UWORD[64]',
+        count: 64,
+        size: 128,
+        target: { kind: 'base', size: 2 },
+      });
+    });
+
+    it('should return undefined for unknown variables', () => {
+      expect(table.getGlobal('nothing')).toBeUndefined();
+    });
+  });
+
+  describe('findType', () => {
+    it('should find structs with members', () => {
+      const node = table.findType('struct Node');
+
+      expect(node?.size).toBe(14);
+      expect(
+        node?.members?.map((m) => [m.name, m.type.name, m.offset]),
+      ).toEqual([
+        ['ln_Succ', 'struct Node *', 0],
+        ['ln_Pred', 'struct Node *', 4],
+        ['ln_Type', 'UBYTE', 8],
+        ['ln_Pri', 'BYTE', 9],
+        ['ln_Name', 'char *', 10],
+      ]);
+      // Recursive references resolve to the same type
+      expect(node?.members?.[0].type.target).toBe(node);
+    });
+
+    it('should find pointers to named types', () => {
+      expect(table.findType('struct  Node*')).toMatchObject({
+        kind: 'pointer',
+        name: 'struct Node *',
+        size: 4,
+      });
+      expect(table.findType('char **')?.name).toBe('char **');
+      expect(table.findType('void *')?.target?.kind).toBe('void');
+    });
+
+    it('should find enums with their values', () => {
+      expect(table.findType('enum barto_cmd')?.enumerators?.[1]).toEqual({
+        name: 'barto_cmd_rect',
+        value: 1,
+      });
+    });
+
+    it('should return undefined for unknown types', () => {
+      expect(table.findType('struct Nothing *')).toBeUndefined();
+      expect(table.findType('a0')).toBeUndefined();
+    });
+  });
+
+  describe('readMember', () => {
+    const uword = { kind: 'base' as const, name: 'UWORD', size: 2, encoding: DW_ATE.unsigned };
+
+    it('should read members at their offset', () => {
+      const data = Buffer.from([1, 2, 3, 4]);
+
+      expect(readMember(data, { name: 'b', type: uword, offset: 2 })).toEqual(
+        Buffer.from([3, 4]),
+      );
+    });
+
+    it('should extract bit fields', () => {
+      const data = Buffer.from([0b10110110, 0b01000000]);
+      const int = { ...uword, name: 'int', encoding: DW_ATE.signed };
+
+      expect(
+        readMember(data, { name: 'f', type: uword, offset: 0, bitSize: 3, bitOffset: 2 }),
+      ).toEqual(Buffer.from([0, 0b110]));
+      expect(
+        readMember(data, { name: 's', type: int, offset: 0, bitSize: 4, bitOffset: 6 }),
+      ).toEqual(Buffer.from([0xff, 0xf9]));
+    });
+  });
+
+  describe('formatTypedValue', () => {
+    const base = (name: string, size: number, encoding: number): DwarfType => ({
+      kind: 'base',
+      name,
+      size,
+      encoding,
+    });
+
+    it('should format signed and unsigned integers', () => {
+      const data = Buffer.from([0xff, 0xfe]);
+
+      expect(formatTypedValue(data, base('short', 2, DW_ATE.signed))).toBe('-2');
+      expect(
+        formatTypedValue(data, base('unsigned short', 2, DW_ATE.unsigned)),
+      ).toBe('65534');
+    });
+
+    it('should format characters', () => {
+      expect(
+        formatTypedValue(Buffer.from([0x41]), base('char', 1, DW_ATE.unsigned_char)),
+      ).toBe("65 'A'");
+      expect(
+        formatTypedValue(Buffer.from([0x0a]), base('char', 1, DW_ATE.signed_char)),
+      ).toBe('10');
+    });
+
+    it('should format floats and booleans', () => {
+      const data = Buffer.alloc(4);
+      data.writeFloatBE(1.5);
+
+      expect(formatTypedValue(data, base('float', 4, DW_ATE.float))).toBe('1.5');
+      expect(
+        formatTypedValue(Buffer.from([1]), base('_Bool', 1, DW_ATE.boolean)),
+      ).toBe('true');
+    });
+
+    it('should format enums with their names', () => {
+      const type: DwarfType = {
+        kind: 'enum',
+        name: 'enum cmd',
+        size: 4,
+        encoding: DW_ATE.unsigned,
+        enumerators: [{ name: 'cmd_rect', value: 1 }],
+      };
+
+      expect(formatTypedValue(Buffer.from([0, 0, 0, 1]), type)).toBe('cmd_rect');
+      expect(formatTypedValue(Buffer.from([0, 0, 0, 9]), type)).toBe('9');
+    });
+
+    it('should format char arrays as strings and other arrays with their length', () => {
+      const chars: DwarfType = {
+        kind: 'array',
+        name: 'char[8]',
+        size: 8,
+        count: 8,
+        target: base('char', 1, DW_ATE.signed_char),
+      };
+      const shorts: DwarfType = {
+        kind: 'array',
+        name: 'short[4]',
+        size: 8,
+        count: 4,
+        target: base('short', 2, DW_ATE.signed),
+      };
+      const data = Buffer.from('a"b\n\0xyz');
+
+      expect(formatTypedValue(data, chars)).toBe('"a\\"b\\x0a"');
+      expect(formatTypedValue(data, shorts)).toBe('[4]');
+    });
+
+    it('should format pointers as addresses', () => {
+      const pointer: DwarfType = { kind: 'pointer', name: 'char *', size: 4 };
+
+      expect(formatTypedValue(Buffer.from([0, 0, 0x10, 0]), pointer)).toBe(
+        '0x00001000',
+      );
+    });
+  });
+});
@@ -5,6 +5,7 @@ import { EvaluateManager, EvaluateResultType } from "../evaluateManager";
 import { VAmiga, CpuInfo } from "../vAmiga";
 import { VariablesManager } from "../variablesManager";
 import { DisassemblyManager } from "../disassemblyManager";
+import { DwarfType, DwarfVariables } from "../dwarfVariables";
 
 /**
  * Comprehensive tests for EvaluateManager
@@ -407,6 +408,142 @@ describe("EvaluateManager - Comprehensive Tests", () => {
     });
   });
 
+  describe("Typed Evaluation", () => {
+    let mockDwarfVariables: sinon.SinonStubbedInstance<DwarfVariables>;
+    const node: DwarfType = {
+      kind: "struct",
+      name: "struct Node",
+      size: 14,
+      members: [],
+    };
+    const nodePointer: DwarfType = {
+      kind: "pointer",
+      name: "struct Node *",
+      size: 4,
+      target: node,
+    };
+
+    beforeEach(() => {
+      mockDwarfVariables = sinon.createStubInstance(DwarfVariables);
+      mockDwarfVariables.findType.returns(undefined);
+      mockDwarfVariables.findType
+        .withArgs("struct Node *")
+        .returns(nodePointer);
+      mockVariablesManager.typedVariable.callsFake(
+        async (name, type, data, address) => ({
+          name,
+          value: data.toString("hex"),
+          type: type?.name,
+          variablesReference: 5,
+          memoryReference: address?.toString(16),
+        }),
+      );
+      evaluateManager = new EvaluateManager(
+        mockVAmiga,
+        mockSourceMap,
+        mockVariablesManager,
+        mockDisassemblyManager,
+        mockDwarfVariables,
+      );
+    });
+
+    it("should cast expressions to pointer types", async () => {
+      mockVariablesManager.getFlatVariables.resolves({ a0: 0x2000 });
+
+      const result = await evaluateManager.evaluateFormatted({
+        expression: "(struct Node *)a0",
+      });
+
+      assert.deepStrictEqual(result, {
+        result: "00002000",
+        type: "struct Node *",
+        memoryReference: undefined,
+        variablesReference: 5,
+      });
+    });
+
+    it("should dereference pointer casts", async () => {
+      mockVAmiga.readMemory.resolves(Buffer.alloc(14));
+
+      const result = await evaluateManager.evaluateFormatted({
+        expression: "*(struct Node *)$2000",
+      });
+
+      assert.ok(mockVAmiga.readMemory.calledWith(0x2000, 14));
+      assert.strictEqual(result.type, "struct Node");
+      assert.strictEqual(result.memoryReference, "2000");
+    });
+
+    it("should show global variables with their types", async () => {
+      mockDwarfVariables.getGlobal.withArgs("head").returns({
+        name: "head",
+        type: nodePointer,
+        address: 0x3000,
+      });
+      mockVariablesManager.globalVariable.resolves({
+        name: "head",
+        value: "0x00002000",
+        type: "struct Node *",
+        variablesReference: 7,
+        memoryReference: "0x00002000",
+      });
+
+      const result = await evaluateManager.evaluateFormatted({
+        expression: "head",
+      });
+
+      assert.ok(
+        mockVariablesManager.globalVariable.calledWith(
+          "head",
+          nodePointer,
+          0x3000,
+        ),
+      );
+      assert.strictEqual(result.result, "0x00002000");
+      assert.strictEqual(result.variablesReference, 7);
+    });
+
+    it("should evaluate parenthesized expressions which are not casts", async () => {
+      mockVariablesManager.getFlatVariables.resolves({ d0: 10 });
+
+      const result = await evaluateManager.evaluateFormatted({
+        expression: "(d0)+1",
+      });
+
+      assert.strictEqual(result.result, "0xb = 11");
+    });
+  });
+
+  describe("Condition Evaluation", () => {
+    it("should evaluate conditions with C-style operators", async () => {
+      mockVariablesManager.getFlatVariables.resolves({ d0: 0x10, a0: 0x2000 });
+      mockVAmiga.peek16.resolves(5);
+
+      const result = await evaluateManager.evaluateCondition(
+        "d0 == $10 && peekU16(a0) > 3",
+      );
+
+      assert.strictEqual(result, true);
+      assert.ok(mockVAmiga.peek16.calledWith(0x2000));
+    });
+
+    it("should return false for unmatched conditions", async () => {
+      mockVariablesManager.getFlatVariables.resolves({ d0: 1, d1: 2 });
+
+      const result =
+        await evaluateManager.evaluateCondition("d0 == 2 || d1 == 3");
+
+      assert.strictEqual(result, false);
+    });
+
+    it("should throw on condition syntax errors", () => {
+      assert.throws(() => evaluateManager.validateCondition("d0 == "));
+      assert.doesNotThrow(() =>
+        evaluateManager.validateCondition("d0 == $10 && peekU16(a0) > 3"),
+      );
+    });
+  });
+
   describe("Error Handling", () => {
     it("should handle invalid variable references", async () => {
       mockVariablesManager.getFlatVariables.resolves({});
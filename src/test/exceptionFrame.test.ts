@@ -0,0 +1,94 @@
+import * as assert from "assert";
+import { decodeExceptionFrame } from "../exceptionFrame";
+
+function frameData(words: number[]): Buffer {
+  const data = Buffer.alloc(92);
+  words.forEach((word, i) => data.writeUInt16BE(word, i * 2));
+  return data;
+}
+
+describe("exceptionFrame", () => {
+  describe("decodeExceptionFrame", () => {
+    it("should decode a 68000 short frame", () => {
+      const frame = decodeExceptionFrame(
+        frameData([0x2700, 0x0000, 0x1234]),
+        5,
+        0x8000,
+      );
+
+      assert.deepStrictEqual(frame, {
+        vector: 5,
+        address: 0x8000,
+        size: 6,
+        sr: 0x2700,
+        pc: 0x1234,
+      });
+    });
+
+    it("should decode a 68000 bus error frame", () => {
+      // Read from user data space, during instruction
+      const frame = decodeExceptionFrame(
+        frameData([0x0011, 0x00bf, 0xe001, 0x1039, 0x0000, 0x0000, 0x1238]),
+        2,
+      );
+
+      assert.strictEqual(frame.size, 14);
+      assert.strictEqual(frame.sr, 0);
+      assert.strictEqual(frame.pc, 0x1238);
+      assert.strictEqual(frame.accessAddress, 0xbfe001);
+      assert.strictEqual(frame.read, true);
+      assert.strictEqual(frame.instructionFetch, false);
+      assert.strictEqual(frame.functionCode, 1);
+      assert.strictEqual(frame.instructionRegister, 0x1039);
+    });
+
+    it("should decode a 68010 four-word frame", () => {
+      const frame = decodeExceptionFrame(
+        frameData([0x0000, 0x0000, 0x1234, 0x0080]),
+        32,
+      );
+
+      assert.strictEqual(frame.format, 0);
+      assert.strictEqual(frame.size, 8);
+      assert.strictEqual(frame.pc, 0x1234);
+    });
+
+    it("should decode a 68020 six-word frame", () => {
+      const frame = decodeExceptionFrame(
+        frameData([0x0000, 0x0000, 0x1236, 0x2014, 0x0000, 0x1230]),
+        5,
+      );
+
+      assert.strictEqual(frame.format, 2);
+      assert.strictEqual(frame.size, 12);
+      assert.strictEqual(frame.instructionAddress, 0x1230);
+    });
+
+    it("should decode a 68010 bus fault frame", () => {
+      const frame = decodeExceptionFrame(
+        frameData([0x0000, 0x0000, 0x1234, 0x800c, 0x0005, 0x0000, 0x1235]),
+        3,
+      );
+
+      assert.strictEqual(frame.format, 8);
+      assert.strictEqual(frame.size, 58);
+      assert.strictEqual(frame.accessAddress, 0x1235);
+      assert.strictEqual(frame.read, false);
+      assert.strictEqual(frame.functionCode, 5);
+    });
+
+    it("should decode a 68020 short bus cycle fault frame", () => {
+      const words = [0x0000, 0x0000, 0x1234, 0xa008, 0x0000, 0x0141];
+      words[8] = 0x00df;
+      words[9] = 0xf000;
+      const frame = decodeExceptionFrame(frameData(words), 2);
+
+      assert.strictEqual(frame.format, 0xa);
+      assert.strictEqual(frame.size, 32);
+      assert.strictEqual(frame.accessAddress, 0xdff000);
+      assert.strictEqual(frame.read, true);
+      assert.strictEqual(frame.instructionFetch, false);
+      assert.strictEqual(frame.functionCode, 1);
+    });
+  });
+});
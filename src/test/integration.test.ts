@@ -127,7 +127,7 @@ describe("VamigaDebugAdapter Integration Tests", () => {
         body: { scopes: [] },
       };
 
-      (adapter as any).scopesRequest(response);
+      (adapter as any).scopesRequest(response, { frameId: 0 });
 
       assert.ok(response.body);
       // After refactoring to VariablesManager, scopes are only available after launch
@@ -0,0 +1,184 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as assert from "assert";
+import * as sinon from "sinon";
+import { EXTERNAL_FUNCTION, ProfileManager } from "../profileManager";
+import { StackManager } from "../stackManager";
+import { VAmiga } from "../vAmiga";
+
+/**
+ * Tests for ProfileManager
+ */
+describe("ProfileManager", () => {
+  let profileManager: ProfileManager;
+  let mockVAmiga: sinon.SinonStubbedInstance<VAmiga>;
+  let mockStackManager: sinon.SinonStubbedInstance<StackManager>;
+  let mockSourceMap: any;
+
+  // main: 0x1000-0x10ff, draw: 0x1100-
+  const symbols: Record<string, number> = { main: 0x1000, draw: 0x1100 };
+
+  beforeEach(() => {
+    mockVAmiga = sinon.createStubInstance(VAmiga);
+    mockStackManager = sinon.createStubInstance(StackManager);
+    mockSourceMap = {
+      getSymbols: sinon.stub().returns(symbols),
+      findSymbolOffset: sinon.stub().callsFake((address: number) => {
+        if (address >= 0x1100 && address < 0x1200) {
+          return { symbol: "draw", offset: address - 0x1100 };
+        }
+        if (address >= 0x1000 && address < 0x1100) {
+          return { symbol: "main", offset: address - 0x1000 };
+        }
+        return undefined;
+      }),
+      lookupAddress: sinon.stub().callsFake((address: number) => {
+        if (address >= 0x1000 && address < 0x1200) {
+          return { path: "/src/main.s", line: (address - 0x1000) / 2 + 1 };
+        }
+        return undefined;
+      }),
+    };
+    profileManager = new ProfileManager(
+      mockVAmiga,
+      mockSourceMap,
+      mockStackManager,
+    );
+  });
+
+  afterEach(() => {
+    profileManager.stop();
+    sinon.restore();
+  });
+
+  describe("Aggregation", () => {
+    it("should count self samples by function", () => {
+      profileManager.addSample([0x1100]);
+      profileManager.addSample([0x1102]);
+      profileManager.addSample([0x1000]);
+
+      const report = profileManager.getReport();
+
+      assert.strictEqual(report.totalSamples, 3);
+      assert.deepStrictEqual(
+        report.functions.map((f) => [f.name, f.selfSamples]),
+        [
+          ["draw", 2],
+          ["main", 1],
+        ],
+      );
+    });
+
+    it("should count total samples for callers on the stack", () => {
+      profileManager.addSample([0x1100, 0x1010]);
+      profileManager.addSample([0x1010]);
+
+      // Equal self samples, so ordered by total
+      const [main, draw] = profileManager.getReport().functions;
+
+      assert.strictEqual(draw.totalSamples, 1);
+      assert.strictEqual(main.selfSamples, 1);
+      assert.strictEqual(main.totalSamples, 2);
+    });
+
+    it("should only count recursive functions once per sample", () => {
+      profileManager.addSample([0x1100, 0x1104, 0x1010]);
+
+      const draw = profileManager
+        .getReport()
+        .functions.find((f) => f.name === "draw");
+
+      assert.strictEqual(draw?.totalSamples, 1);
+    });
+
+    it("should include source location for functions", () => {
+      profileManager.addSample([0x1100]);
+
+      const [draw] = profileManager.getReport().functions;
+
+      assert.strictEqual(draw.path, "/src/main.s");
+      assert.strictEqual(draw.line, 129);
+    });
+
+    it("should count samples outside the program as external", () => {
+      profileManager.addSample([0xfc0000]);
+
+      const report = profileManager.getReport();
+
+      assert.strictEqual(report.functions[0].name, EXTERNAL_FUNCTION);
+      assert.deepStrictEqual(report.lines, []);
+    });
+
+    it("should count samples by source line", () => {
+      profileManager.addSample([0x1000]);
+      profileManager.addSample([0x1002]);
+      profileManager.addSample([0x1002]);
+
+      assert.deepStrictEqual(profileManager.getReport().lines, [
+        { path: "/src/main.s", line: 2, samples: 2 },
+        { path: "/src/main.s", line: 1, samples: 1 },
+      ]);
+    });
+  });
+
+  describe("Collapsed stacks", () => {
+    it("should format stacks outermost first with counts", () => {
+      profileManager.addSample([0x1100, 0x1010]);
+      profileManager.addSample([0x1100, 0x1010]);
+      profileManager.addSample([0x1010]);
+
+      assert.strictEqual(
+        profileManager.formatCollapsedStacks(),
+        "main;draw 2\nmain 1\n",
+      );
+    });
+  });
+
+  describe("Sampling", () => {
+    beforeEach(() => {
+      mockVAmiga.sampleCpuInfo.resolves({ pc: "0x1100", a7: "0x8000" } as any);
+      mockStackManager.guessStack.resolves([
+        [0x1100, 0x1100],
+        [0x1010, 0x1014],
+      ]);
+    });
+
+    it("should sample PC and stack from the emulator", async () => {
+      profileManager.start(true, 60000);
+
+      await profileManager.sample();
+
+      assert.ok(mockStackManager.guessStack.calledWith(0x1100, 0x8000));
+      assert.strictEqual(
+        profileManager.formatCollapsedStacks(),
+        "main;draw 1\n",
+      );
+    });
+
+    it("should not sample while the emulator is stopped", async () => {
+      profileManager.start(false, 60000);
+
+      await profileManager.sample();
+
+      assert.ok(mockVAmiga.sampleCpuInfo.notCalled);
+      assert.strictEqual(profileManager.getReport().totalSamples, 0);
+    });
+
+    it("should record the PC when the stack can't be read", async () => {
+      mockStackManager.guessStack.rejects(new Error("invalid address"));
+      profileManager.start(true, 60000);
+
+      await profileManager.sample();
+
+      assert.strictEqual(profileManager.formatCollapsedStacks(), "draw 1\n");
+    });
+
+    it("should discard previous samples on start", () => {
+      profileManager.addSample([0x1000]);
+
+      profileManager.start(true, 60000);
+
+      assert.strictEqual(profileManager.getReport().totalSamples, 0);
+      assert.ok(profileManager.isActive());
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import * as assert from "assert";
+import * as sinon from "sinon";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { VAmiga } from "../vAmiga";
+import { readSnapshot, saveSnapshot, snapshotInfoPath } from "../snapshot";
+
+describe("snapshot", () => {
+  let dir: string;
+  let mockVAmiga: sinon.SinonStubbedInstance<VAmiga>;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "vamiga-snapshot-"));
+    mockVAmiga = sinon.createStubInstance(VAmiga);
+  });
+
+  afterEach(async () => {
+    sinon.restore();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should save a snapshot with program info and read it back", async () => {
+    const snapshotPath = join(dir, "level2.vAmiga");
+    const data = Buffer.from([1, 2, 3, 4]);
+    mockVAmiga.saveSnapshot.resolves(data);
+    const info = { program: "/work/out/a.exe", segments: [0x20000, 0x30000] };
+
+    await saveSnapshot(mockVAmiga, snapshotPath, info);
+    const snapshot = await readSnapshot(snapshotPath);
+
+    assert.deepStrictEqual(snapshot.data, data);
+    assert.deepStrictEqual(snapshot.info, info);
+    assert.deepStrictEqual(
+      JSON.parse(await readFile(join(dir, "level2.vAmiga.json"), "utf8")),
+      info,
+    );
+  });
+
+  it("should reject a snapshot without program info", async () => {
+    const snapshotPath = join(dir, "other.vAmiga");
+    await writeFile(snapshotPath, Buffer.from([1, 2, 3, 4]));
+
+    await assert.rejects(readSnapshot(snapshotPath), /Snapshot info not found/);
+  });
+
+  it("should reject program info without segments", async () => {
+    const snapshotPath = join(dir, "empty.vAmiga");
+    await writeFile(snapshotPath, Buffer.from([1, 2, 3, 4]));
+    await writeFile(
+      snapshotInfoPath(snapshotPath),
+      JSON.stringify({ program: "a.exe", segments: [] }),
+    );
+
+    await assert.rejects(readSnapshot(snapshotPath), /No program segments/);
+  });
+});
@@ -263,4 +263,54 @@ describe("SourceMap Tests", () => {
       assert.strictEqual(offset, undefined);
     });
   });
+
+  describe("Modules", () => {
+    let module: SourceMap;
+
+    beforeEach(() => {
+      module = new SourceMap(
+        [
+          {
+            name: "0: CODE ANY",
+            address: 0x8000,
+            size: 0x400,
+            memType: MemoryType.ANY,
+          },
+        ],
+        new Set(["/test/lib.s"]),
+        { LibOpen: 0x8000, main: 0x8100 },
+        [
+          {
+            path: "/test/lib.s",
+            line: 3,
+            address: 0x8000,
+            segmentIndex: 0,
+            segmentOffset: 0,
+          },
+        ],
+      );
+      sourceMap.addModule(module, "my.library");
+    });
+
+    it("should add the module's segments with its name", () => {
+      const segment = sourceMap.findSegmentForAddress(0x8010);
+      assert.strictEqual(segment?.name, "my.library 0: CODE ANY");
+      assert.strictEqual(sourceMap.getSegmentsInfo().length, 3);
+    });
+
+    it("should map the module's source lines and addresses", () => {
+      assert.ok(sourceMap.getSourceFiles().includes("/test/lib.s"));
+      assert.strictEqual(
+        sourceMap.lookupSourceLine("/test/lib.s", 3).address,
+        0x8000,
+      );
+      assert.strictEqual(sourceMap.lookupAddress(0x8000)?.line, 3);
+    });
+
+    it("should keep existing symbols over the module's", () => {
+      const symbols = sourceMap.getSymbols();
+      assert.strictEqual(symbols.LibOpen, 0x8000);
+      assert.strictEqual(symbols.main, 0x1000);
+    });
+  });
 });
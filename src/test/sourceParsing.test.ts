@@ -1,4 +1,4 @@
-import { parseLine } from "../sourceParsing";
+import { findMacroRanges, parseLine } from "../sourceParsing";
 describe("parse", () => {
   describe("#parseLine()", () => {
     it("parses a complete instruction line", () => {
@@ -331,4 +331,31 @@ describe("parse", () => {
       });
     });
   });
+
+  describe("#findMacroRanges()", () => {
+    it("finds macro definitions in each syntax", () => {
+      const text = [
+        "WAITBLIT macro",
+        "  btst #6,2(a6)",
+        "  endm",
+        "  move.w d0,d1 ; macro in a comment",
+        "PUSH: MACRO",
+        "  movem.l \\1,-(sp)",
+        "  ENDM",
+        "macro POP",
+        "  movem.l (sp)+,\\1",
+        " endm",
+      ].join("\n");
+
+      expect(findMacroRanges(text)).toEqual([
+        [1, 3],
+        [5, 7],
+        [8, 10],
+      ]);
+    });
+
+    it("ignores an unterminated macro", () => {
+      expect(findMacroRanges("FOO macro\n  nop\n")).toEqual([]);
+    });
+  });
 });
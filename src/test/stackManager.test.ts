@@ -184,6 +184,33 @@ describe("StackManager - Comprehensive Tests", () => {
   });
 
   describe("Stack Analysis Algorithm", () => {
+    it("should start from the faulting instruction and skip a supervisor exception frame", async () => {
+      // Setup: Stopped in handler with a 6 byte frame at SSP, and return address above it
+      const mockCpuInfo = createMockCpuInfo({ pc: "0x4000", a7: "0x8000" });
+      mockVAmiga.getCpuInfo.resolves(mockCpuInfo);
+      mockVAmiga.readMemory.resolves(Buffer.alloc(128));
+      const stackBuffer = Buffer.alloc(128);
+      stackBuffer.writeInt32BE(0x2000, 0);
+      mockVAmiga.readMemory.withArgs(0x8006, 128).resolves(stackBuffer);
+      mockVAmiga.isValidAddress.withArgs(0x2000).returns(true);
+      const instrBuffer = Buffer.alloc(6);
+      instrBuffer.writeUInt16BE(0x4e80, 4);
+      mockVAmiga.readMemory.withArgs(0x2000 - 6, 6).resolves(instrBuffer);
+
+      // Test: Get stack frames for exception
+      const frames = await stackManager.getStackFrames(
+        0,
+        5,
+        { address: 0x1000, isSupervisor: true },
+        { vector: 5, address: 0x8000, size: 6, sr: 0x2000, pc: 0x1004 },
+      );
+
+      // Verify: Faulting instruction is the top frame, followed by its caller
+      assert.strictEqual(frames.length, 2);
+      assert.strictEqual(frames[0].instructionPointerReference, "0x00001000");
+      assert.strictEqual(frames[1].instructionPointerReference, "0x00001ffe");
+    });
+
     it("should include current PC as first frame", async () => {
       // Setup: Mock CPU state
       mockVAmiga.readMemory.resolves(Buffer.alloc(128));
@@ -317,6 +344,227 @@ describe("StackManager - Comprehensive Tests", () => {
     });
   });
 
+  describe("Call Frame Unwinding", () => {
+    let memory: Buffer;
+    let mockCallFrames: any;
+
+    // Function rules: CFA = A7 + offset, return address at CFA-4
+    const row = (cfaOffset: number, saved: [number, number][] = []) => ({
+      cfaRegister: 15,
+      cfaOffset,
+      savedRegisters: new Map([[24, -4], ...saved]),
+      returnAddressRegister: 24,
+    });
+
+    beforeEach(() => {
+      memory = Buffer.alloc(0x10000);
+      mockVAmiga.readMemory.callsFake(async (address: number, count: number) =>
+        Buffer.from(memory.subarray(address, address + count)),
+      );
+      mockVAmiga.peek32.callsFake(async (address: number) =>
+        memory.readUInt32BE(address),
+      );
+      mockVAmiga.isValidAddress.callsFake(
+        (address: number) => address > 0 && address < 0x10000,
+      );
+      // JSR instructions preceding return addresses 0x2006 and 0x3006
+      memory.writeUInt16BE(0x4eb9, 0x2000);
+      memory.writeUInt16BE(0x4eb9, 0x3000);
+
+      mockCallFrames = { findRow: sinon.stub() };
+      stackManager = new StackManager(
+        mockVAmiga,
+        mockSourceMap,
+        mockCallFrames,
+      );
+    });
+
+    it("should unwind frames using call frame information", async () => {
+      mockCallFrames.findRow.withArgs(0x1000).returns(row(12));
+      mockCallFrames.findRow.withArgs(0x2000).returns(row(4));
+      memory.writeUInt32BE(0x3006, 0x8000); // Stale return address in locals
+      memory.writeUInt32BE(0x2006, 0x8008);
+
+      const addresses = await stackManager.guessStack(0x1000, 0x8000, 5);
+
+      assert.deepStrictEqual(addresses, [
+        [0x1000, 0x1000],
+        [0x2000, 0x2006],
+      ]);
+    });
+
+    it("should restore saved frame pointer for caller", async () => {
+      // Callee saves A6 at CFA-8
+      mockCallFrames.findRow.withArgs(0x1000).returns(row(8, [[14, -8]]));
+      // Caller CFA is based on A6
+      mockCallFrames.findRow
+        .withArgs(0x2000)
+        .returns({ ...row(8), cfaRegister: 14 });
+      memory.writeUInt32BE(0x9000, 0x8000); // Saved A6
+      memory.writeUInt32BE(0x2006, 0x8004);
+      memory.writeUInt32BE(0x3006, 0x9004);
+
+      const addresses = await stackManager.guessStack(0x1000, 0x8000, 5);
+
+      assert.deepStrictEqual(addresses[2], [0x3000, 0x3006]);
+    });
+
+    // Function at 0xff0 starting with LINK A6,#-16
+    const linkFunction = () => {
+      memory.writeUInt32BE(0x4e56fff0, 0xff0);
+      mockSourceMap.findSymbolOffset
+        .withArgs(0x1000)
+        .returns({ symbol: "sub", offset: 0x10 });
+    };
+
+    it("should unwind link frames without call frame information", async () => {
+      mockCallFrames.findRow.returns(undefined);
+      linkFunction();
+      const registers = new Array(16).fill(0);
+      registers[14] = 0x8010; // A6
+      memory.writeUInt32BE(0x2006, 0x8014);
+
+      const addresses = await stackManager.guessStack(
+        0x1000,
+        0x8000,
+        5,
+        registers,
+      );
+
+      assert.deepStrictEqual(addresses, [
+        [0x1000, 0x1000],
+        [0x2000, 0x2006],
+      ]);
+    });
+
+    it("should keep frame state for each unwound frame", async () => {
+      mockVAmiga.getCpuInfo.resolves({ pc: "0x1000", a7: "0x8000" } as any);
+      mockCallFrames.findRow.withArgs(0x1000).returns(row(12));
+      mockCallFrames.findRow.withArgs(0x2000).returns(row(4));
+      memory.writeUInt32BE(0x2006, 0x8008);
+
+      await stackManager.getStackFrames(0, 5);
+
+      const top = stackManager.getFrameState(0);
+      const caller = stackManager.getFrameState(1);
+      assert.strictEqual(top?.pc, 0x1000);
+      assert.strictEqual(top?.cfa, 0x800c);
+      assert.strictEqual(caller?.pc, 0x2000);
+      assert.strictEqual(caller?.registers?.[15], 0x800c);
+      assert.strictEqual(caller?.cfa, 0x8010);
+    });
+
+    it("should get the return frame of the current function", async () => {
+      mockCallFrames.findRow.withArgs(0x1000).returns(row(12));
+      memory.writeUInt32BE(0x2006, 0x8008);
+      const registers = new Array(16).fill(0);
+      registers[15] = 0x8000;
+
+      const frame = await stackManager.getReturnFrame(0x1000, registers);
+
+      assert.deepStrictEqual(frame, {
+        returnAddress: 0x2006,
+        stackAddress: 0x800c,
+      });
+    });
+
+    it("should get the return frame from a link frame in a hunk program", async () => {
+      // No DWARF call frame information at all
+      stackManager = new StackManager(mockVAmiga, mockSourceMap);
+      linkFunction();
+      const registers = new Array(16).fill(0);
+      registers[14] = 0x8010; // A6
+      registers[15] = 0x8000;
+      memory.writeUInt32BE(0x2006, 0x8014);
+
+      const frame = await stackManager.getReturnFrame(0x1000, registers);
+
+      assert.deepStrictEqual(frame, {
+        returnAddress: 0x2006,
+        stackAddress: 0x8018,
+      });
+    });
+
+    it("should not unwind a link frame in a function without LINK", async () => {
+      // A6 holds a library base, which happens to look like a frame
+      stackManager = new StackManager(mockVAmiga, mockSourceMap);
+      mockSourceMap.findSymbolOffset
+        .withArgs(0x1000)
+        .returns({ symbol: "sub", offset: 0x10 });
+      const registers = new Array(16).fill(0);
+      registers[14] = 0x8010; // A6
+      registers[15] = 0x8000;
+      memory.writeUInt32BE(0x3006, 0x8004);
+      memory.writeUInt32BE(0x2006, 0x8014);
+
+      const frame = await stackManager.getReturnFrame(0x1000, registers);
+
+      // Falls back to the first return address on the stack
+      assert.deepStrictEqual(frame, {
+        returnAddress: 0x3006,
+        stackAddress: 0x8008,
+      });
+    });
+
+    it("should not unwind a link frame after UNLK", async () => {
+      stackManager = new StackManager(mockVAmiga, mockSourceMap);
+      linkFunction();
+      memory.writeUInt16BE(0x4e75, 0x1000); // RTS
+      const registers = new Array(16).fill(0);
+      registers[14] = 0x8010; // Caller's A6
+      registers[15] = 0x8000;
+      memory.writeUInt32BE(0x3006, 0x8004);
+      memory.writeUInt32BE(0x2006, 0x8014);
+
+      const frame = await stackManager.getReturnFrame(0x1000, registers);
+
+      // Falls back to the first return address on the stack
+      assert.deepStrictEqual(frame, {
+        returnAddress: 0x3006,
+        stackAddress: 0x8008,
+      });
+    });
+
+    it("should fall back to a return address on the stack", async () => {
+      mockCallFrames.findRow.returns(undefined);
+      memory.writeUInt32BE(0x12345678, 0x8000);
+      memory.writeUInt32BE(0x2006, 0x8004);
+      const registers = new Array(16).fill(0);
+      registers[15] = 0x8000;
+
+      const frame = await stackManager.getReturnFrame(0x1000, registers);
+
+      assert.deepStrictEqual(frame, {
+        returnAddress: 0x2006,
+        stackAddress: 0x8008,
+      });
+    });
+
+    it("should not return a frame without a return address on the stack", async () => {
+      mockCallFrames.findRow.returns(undefined);
+      const registers = new Array(16).fill(0);
+      registers[15] = 0x8000;
+
+      const frame = await stackManager.getReturnFrame(0x1000, registers);
+
+      assert.strictEqual(frame, undefined);
+    });
+
+    it("should scan remaining stack after call frame information ends", async () => {
+      mockCallFrames.findRow.withArgs(0x1000).returns(row(4));
+      memory.writeUInt32BE(0x2006, 0x8000);
+      memory.writeUInt32BE(0x3006, 0x8008);
+
+      const addresses = await stackManager.guessStack(0x1000, 0x8000, 5);
+
+      assert.deepStrictEqual(addresses, [
+        [0x1000, 0x1000],
+        [0x2000, 0x2006],
+        [0x3000, 0x3006],
+      ]);
+    });
+  });
+
   describe("Integration with Source Maps", () => {
     it("should use source map for frame naming when available", async () => {
       // Setup: Mock CPU info and stub guessStack
@@ -0,0 +1,216 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import * as assert from "assert";
+import * as sinon from "sinon";
+import { TraceManager } from "../traceManager";
+import { VAmiga, CpuTraceItem } from "../vAmiga";
+
+function traceItem(pc: number, instruction = "nop"): CpuTraceItem {
+  return {
+    pc: pc.toString(16),
+    instruction,
+    flags: "--S--",
+    length: 2,
+  };
+}
+
+/**
+ * Tests for TraceManager
+ */
+describe("TraceManager", () => {
+  let traceManager: TraceManager;
+  let mockVAmiga: sinon.SinonStubbedInstance<VAmiga>;
+  let mockSourceMap: any;
+
+  beforeEach(() => {
+    mockVAmiga = sinon.createStubInstance(VAmiga);
+    mockSourceMap = {
+      findSymbolOffset: sinon
+        .stub()
+        .callsFake((address: number) =>
+          address >= 0x1000
+            ? { symbol: "main", offset: address - 0x1000 }
+            : undefined,
+        ),
+      lookupAddress: sinon
+        .stub()
+        .callsFake((address: number) =>
+          address === 0x1000 ? { path: "/src/main.s", line: 12 } : undefined,
+        ),
+    };
+    traceManager = new TraceManager(mockVAmiga, mockSourceMap, 4);
+  });
+
+  afterEach(() => {
+    traceManager.dispose();
+    sinon.restore();
+  });
+
+  describe("Recording", () => {
+    it("should not capture when not recording", async () => {
+      await traceManager.capture();
+
+      assert.ok(mockVAmiga.getCpuTrace.notCalled);
+      assert.deepStrictEqual(traceManager.getEntries(), []);
+    });
+
+    it("should clear the emulator log when starting", () => {
+      traceManager.startRecording();
+
+      assert.ok(mockVAmiga.clearCpuTrace.calledOnce);
+      assert.ok(mockVAmiga.enableCpuLogging.calledWith(true));
+      assert.ok(traceManager.isRecording());
+    });
+
+    it("should capture entries in execution order", async () => {
+      mockVAmiga.getCpuTrace.resolves([traceItem(0x1004), traceItem(0x1000)]);
+      traceManager.startRecording();
+
+      await traceManager.capture();
+
+      const entries = traceManager.getEntries();
+      assert.deepStrictEqual(
+        entries.map((e) => e.pc),
+        ["1000", "1004"],
+      );
+      // Log is cleared as it's read to avoid duplicates
+      assert.ok(mockVAmiga.getCpuTrace.calledWith(256, true));
+    });
+
+    it("should collect the log periodically while recording", async () => {
+      const clock = sinon.useFakeTimers();
+      mockVAmiga.getCpuTrace.resolves([]);
+      mockVAmiga.getCpuTrace.onFirstCall().resolves([traceItem(0x1000)]);
+      mockVAmiga.getCpuTrace.onSecondCall().resolves([traceItem(0x1002)]);
+      traceManager.setRunning(true);
+      traceManager.startRecording();
+
+      await clock.tickAsync(TraceManager.POLL_INTERVAL * 2);
+      clock.restore();
+
+      assert.deepStrictEqual(
+        traceManager.getEntries().map((e) => e.pc),
+        ["1000", "1002"],
+      );
+    });
+
+    it("should not poll the log while the emulator is halted", async () => {
+      const clock = sinon.useFakeTimers();
+      mockVAmiga.getCpuTrace.resolves([]);
+      traceManager.startRecording();
+      traceManager.setRunning(true);
+      await clock.tickAsync(TraceManager.POLL_INTERVAL);
+      assert.ok(mockVAmiga.getCpuTrace.calledOnce);
+
+      traceManager.setRunning(false);
+      await clock.tickAsync(TraceManager.POLL_INTERVAL * 2);
+      clock.restore();
+
+      assert.ok(mockVAmiga.getCpuTrace.calledOnce);
+    });
+
+    it("should mark a gap when the emulator log was full", async () => {
+      const items = Array.from(
+        { length: TraceManager.EMULATOR_LOG_SIZE },
+        (_, i) => traceItem(0x2000 - i * 2),
+      );
+      mockVAmiga.getCpuTrace.onFirstCall().resolves([traceItem(0x1000)]);
+      mockVAmiga.getCpuTrace.onSecondCall().resolves(items);
+      traceManager = new TraceManager(mockVAmiga, mockSourceMap, 1000);
+      traceManager.startRecording();
+
+      await traceManager.capture();
+      await traceManager.capture();
+
+      const entries = traceManager.getEntries();
+      assert.strictEqual(entries[0].gap, undefined);
+      assert.strictEqual(entries[1].gap, true);
+      assert.strictEqual(entries[2].gap, undefined);
+      assert.ok(
+        traceManager
+          .formatText()
+          .split("\n")[1]
+          .includes("instructions not recorded"),
+      );
+    });
+
+    it("should annotate entries with symbol and source info", async () => {
+      mockVAmiga.getCpuTrace.resolves([traceItem(0x1000), traceItem(0x800)]);
+      traceManager.startRecording();
+
+      await traceManager.capture();
+
+      const [rom, main] = traceManager.getEntries();
+      assert.strictEqual(rom.symbol, undefined);
+      assert.strictEqual(rom.path, undefined);
+      assert.strictEqual(main.symbol, "main");
+      assert.strictEqual(main.symbolOffset, 0);
+      assert.strictEqual(main.path, "/src/main.s");
+      assert.strictEqual(main.line, 12);
+    });
+
+    it("should discard oldest entries when capacity is exceeded", async () => {
+      mockVAmiga.getCpuTrace
+        .onFirstCall()
+        .resolves([traceItem(0x1006), traceItem(0x1004), traceItem(0x1002)]);
+      mockVAmiga.getCpuTrace
+        .onSecondCall()
+        .resolves([traceItem(0x100c), traceItem(0x100a), traceItem(0x1008)]);
+      traceManager.startRecording();
+
+      await traceManager.capture();
+      await traceManager.capture();
+
+      assert.deepStrictEqual(
+        traceManager.getEntries().map((e) => e.pc),
+        ["1006", "1008", "100a", "100c"],
+      );
+    });
+
+    it("should collect the rest of the log when stopping, and keep entries", async () => {
+      mockVAmiga.getCpuTrace.resolves([traceItem(0x1000)]);
+      traceManager.startRecording();
+      await traceManager.capture();
+
+      await traceManager.stopRecording();
+      await traceManager.capture();
+
+      assert.strictEqual(traceManager.getEntries().length, 2);
+      assert.ok(!traceManager.isRecording());
+      assert.ok(mockVAmiga.enableCpuLogging.neverCalledWith(false));
+    });
+  });
+
+  describe("Formatting", () => {
+    beforeEach(async () => {
+      mockVAmiga.getCpuTrace.resolves([
+        traceItem(0x1002, "move.w #1,d0"),
+        traceItem(0x1000, "dc.w $1234,$5678"),
+      ]);
+      traceManager.startRecording();
+      await traceManager.capture();
+    });
+
+    it("should format text with symbol and source location", () => {
+      const lines = traceManager.formatText().trimEnd().split("\n");
+
+      assert.strictEqual(lines.length, 2);
+      assert.ok(lines[0].startsWith("0x00001000  --S--  dc.w $1234,$5678"));
+      assert.ok(lines[0].endsWith("; main /src/main.s:12"));
+      assert.ok(lines[1].endsWith("; main+2"));
+    });
+
+    it("should format CSV with header and escaped values", () => {
+      const lines = traceManager.formatCsv().trimEnd().split("\n");
+
+      assert.strictEqual(
+        lines[0],
+        "pc,instruction,flags,symbol,offset,path,line",
+      );
+      assert.strictEqual(
+        lines[1],
+        '0x00001000,"dc.w $1234,$5678",--S--,main,0,/src/main.s,12',
+      );
+      assert.strictEqual(lines[2], '0x00001002,"move.w #1,d0",--S--,main,2,,');
+    });
+  });
+});
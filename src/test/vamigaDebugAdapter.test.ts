@@ -9,6 +9,11 @@ import * as registerParsers from "../amigaRegisterParsers";
 import { VariablesManager } from "../variablesManager";
 import { BreakpointManager } from "../breakpointManager";
 import { DisassemblyManager } from "../disassemblyManager";
+import { AmigaMemoryMapper } from "../amigaMemoryMapper";
+import { AmigaHunkLoader } from "../amigaHunkLoader";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
 
 /**
  * Test subclass that exposes protected methods for testing
@@ -354,7 +359,7 @@ describe("VamigaDebugAdapter - Simplified Tests", () => {
       // Test: Get scopes should use VariablesManager
       const scopesResponse =
         createMockResponse<DebugProtocol.ScopesResponse>("scopes");
-      (adapter as any).scopesRequest(scopesResponse);
+      (adapter as any).scopesRequest(scopesResponse, { frameId: 0 });
 
       // Verify: Should return empty scopes if VariablesManager not initialized (before launch)
       assert.ok(scopesResponse.body);
@@ -396,6 +401,7 @@ describe("VamigaDebugAdapter - Simplified Tests", () => {
           { addr: "0x00001006", instruction: "move.l d0,d1", hex: "00" },
         ],
       });
+      mockVAmiga.getBeamPosition.resolves({ vpos: 100, hpos: 0x40 });
       mockVAmiga.run.resolves();
 
       const response = createMockResponse<DebugProtocol.NextResponse>("next");
@@ -403,12 +409,42 @@ describe("VamigaDebugAdapter - Simplified Tests", () => {
       // Test: Execute next request
       await (adapter as any).nextRequest(response);
 
-      // Verify: Breakpoint set on next instruction and run called
-      assert.ok(mockBreakpointManager.setTmpBreakpoint.called);
+      // Verify: Breakpoint set on next instruction, with a beamtrap to stop after a frame, and run called
+      assert.ok(
+        mockBreakpointManager.setTmpBreakpoint.calledWith(0x1006, "step"),
+      );
+      assert.ok(
+        mockBreakpointManager.setTmpBeamtrap.calledWith(100, 0x40, "step"),
+      );
       assert.ok(mockVAmiga.run.called);
       assert.strictEqual(response.success, true);
     });
 
+    it("should step over library calls and traps", async () => {
+      // Setup: Mock CPU state and disassembly showing TRAP
+      setupMockCpuState({ pc: "0x1000" });
+      const mockBreakpointManager = sinon.createStubInstance(BreakpointManager);
+      (adapter as any).breakpointManager = mockBreakpointManager;
+      mockVAmiga.disassemble.resolves({
+        instructions: [
+          { addr: "0x00001000", instruction: "trap    #$0", hex: "4e40" },
+          { addr: "0x00001002", instruction: "move.l d0,d1", hex: "2200" },
+        ],
+      });
+      mockVAmiga.getBeamPosition.resolves({ vpos: 100, hpos: 0x40 });
+
+      const response = createMockResponse<DebugProtocol.NextResponse>("next");
+
+      // Test: Execute next request
+      await (adapter as any).nextRequest(response);
+
+      // Verify: Runs to next instruction instead of stepping into handler
+      assert.ok(
+        mockBreakpointManager.setTmpBreakpoint.calledWith(0x1002, "step"),
+      );
+      assert.ok(mockVAmiga.stepInto.notCalled);
+    });
+
     it("should handle next (step over) request with non-call instruction", async () => {
       // Setup: Mock CPU state with move instruction (not a call)
       setupMockCpuState({ pc: "0x1000" });
@@ -431,20 +467,110 @@ describe("VamigaDebugAdapter - Simplified Tests", () => {
       assert.strictEqual(response.success, true);
     });
 
+    describe("line stepping", () => {
+      const lines: Record<number, number> = {
+        0x1000: 10,
+        0x1002: 10,
+        0x1004: 2, // macro body
+        0x1006: 3, // macro body
+        0x1008: 11,
+      };
+      let sendEvent: sinon.SinonStub;
+
+      beforeEach(() => {
+        (adapter as any).sourceMap = {
+          lookupAddress: (addr: number) => ({
+            path: "/src/main.s",
+            line: lines[addr],
+          }),
+        };
+        (adapter as any).macroRanges.set("/src/main.s", [[1, 4]]);
+        mockVAmiga.disassemble.resolves({
+          instructions: [
+            { addr: "0x00001000", instruction: "move.l d0,d1", hex: "2200" },
+            { addr: "0x00001002", instruction: "move.l d0,d1", hex: "2200" },
+          ],
+        });
+        sendEvent = sinon.stub(adapter as any, "sendEvent");
+      });
+
+      async function stopAt(pc: number) {
+        setupMockCpuState({ pc: "0x" + pc.toString(16) });
+        await (adapter as any).handleStep();
+      }
+
+      it("should step in until the source line changes", async () => {
+        setupMockCpuState({ pc: "0x1000" });
+        const response =
+          createMockResponse<DebugProtocol.StepInResponse>("stepIn");
+        await (adapter as any).stepInRequest(response, { threadId: 1 });
+
+        await stopAt(0x1002);
+        assert.strictEqual(mockVAmiga.stepInto.callCount, 2);
+        assert.ok(sendEvent.notCalled);
+
+        // Stops in the macro body when stepping in
+        await stopAt(0x1004);
+        assert.strictEqual(mockVAmiga.stepInto.callCount, 2);
+        assert.strictEqual(sendEvent.lastCall.args[0].event, "stopped");
+      });
+
+      it("should step over a macro expansion as part of the line", async () => {
+        setupMockCpuState({ pc: "0x1000" });
+        const response = createMockResponse<DebugProtocol.NextResponse>("next");
+        await (adapter as any).nextRequest(response, { threadId: 1 });
+
+        await stopAt(0x1002);
+        await stopAt(0x1004);
+        await stopAt(0x1006);
+        assert.ok(sendEvent.notCalled);
+        assert.ok(mockVAmiga.recordStop.notCalled);
+
+        await stopAt(0x1008);
+        assert.strictEqual(mockVAmiga.stepInto.callCount, 4);
+        assert.strictEqual(sendEvent.lastCall.args[0].event, "stopped");
+        // Only the end of the step is kept for stepping back
+        assert.ok(mockVAmiga.recordStop.calledOnce);
+      });
+
+      it("should step over lines inside a macro body", async () => {
+        setupMockCpuState({ pc: "0x1004" });
+        const response = createMockResponse<DebugProtocol.NextResponse>("next");
+        await (adapter as any).nextRequest(response, { threadId: 1 });
+
+        await stopAt(0x1006);
+        assert.strictEqual(mockVAmiga.stepInto.callCount, 1);
+        assert.strictEqual(sendEvent.lastCall.args[0].event, "stopped");
+      });
+
+      it("should step a single instruction with instruction granularity", async () => {
+        setupMockCpuState({ pc: "0x1000" });
+        const response = createMockResponse<DebugProtocol.NextResponse>("next");
+        await (adapter as any).nextRequest(response, {
+          threadId: 1,
+          granularity: "instruction",
+        });
+
+        await stopAt(0x1002);
+        assert.strictEqual(mockVAmiga.stepInto.callCount, 1);
+        assert.strictEqual(sendEvent.lastCall.args[0].event, "stopped");
+      });
+    });
+
     it("should handle stepOut request", async () => {
       // Setup: Mock stack manager and breakpoint manager
       setupMockCpuState({ pc: "0x1000", a7: "0x8000" });
       const mockStackManager = {
-        guessStack: sinon.stub().resolves([
-          [0x1000, 0x1000], // Current PC
-          [0x2000, 0x2010], // Return address
-        ]),
+        getReturnFrame: sinon
+          .stub()
+          .resolves({ returnAddress: 0x2010, stackAddress: 0x8004 }),
       };
       const mockBreakpointManager = sinon.createStubInstance(BreakpointManager);
 
       (adapter as any).stackManager = mockStackManager;
       (adapter as any).breakpointManager = mockBreakpointManager;
       mockVAmiga.run.returns(undefined);
+      mockVAmiga.getBeamPosition.resolves({ vpos: 100, hpos: 0x40 });
 
       const response =
         createMockResponse<DebugProtocol.StepOutResponse>("stepOut");
@@ -456,10 +582,126 @@ describe("VamigaDebugAdapter - Simplified Tests", () => {
       assert.ok(
         mockBreakpointManager.setTmpBreakpoint.calledWith(0x2010, "step"),
       );
+      // Limited to a frame, in case the return address is wrong
+      assert.ok(
+        mockBreakpointManager.setTmpBeamtrap.calledWith(100, 0x40, "step"),
+      );
       assert.ok(mockVAmiga.run.calledOnce);
       assert.strictEqual(response.success, true);
     });
 
+    describe("step out", () => {
+      let mockBreakpointManager: sinon.SinonStubbedInstance<BreakpointManager>;
+      let sendEvent: sinon.SinonStub;
+
+      beforeEach(() => {
+        mockBreakpointManager = sinon.createStubInstance(BreakpointManager);
+        mockBreakpointManager.handleBreakpointStop.resolves({ reason: "step" });
+        (adapter as any).breakpointManager = mockBreakpointManager;
+        sendEvent = sinon.stub(adapter as any, "sendEvent");
+        mockVAmiga.getBeamPosition.resolves({ vpos: 100, hpos: 0x40 });
+      });
+
+      function disassembleAt(instruction: string) {
+        mockVAmiga.disassemble.resolves({
+          instructions: [{ addr: "0x00001000", instruction, hex: "0000" }],
+        });
+      }
+
+      it("should keep running when a recursive call reaches the return address", async () => {
+        setupMockCpuState({ pc: "0x1000", a7: "0x8000" });
+        (adapter as any).stackManager = {
+          getReturnFrame: sinon
+            .stub()
+            .resolves({ returnAddress: 0x2010, stackAddress: 0x8004 }),
+        };
+        const response =
+          createMockResponse<DebugProtocol.StepOutResponse>("stepOut");
+        await (adapter as any).stepOutRequest(response);
+
+        // Deeper in the stack
+        setupMockCpuState({ pc: "0x2010", a7: "0x7f00" });
+        await (adapter as any).handleStop({});
+        assert.strictEqual(mockVAmiga.run.callCount, 2);
+        assert.ok(sendEvent.notCalled);
+
+        setupMockCpuState({ pc: "0x2010", a7: "0x8004" });
+        await (adapter as any).handleStop({});
+        assert.strictEqual(mockVAmiga.run.callCount, 2);
+        assert.strictEqual(sendEvent.lastCall.args[0].event, "stopped");
+      });
+
+      it("should step out of an interrupt handler until RTE", async () => {
+        setupMockCpuState({ pc: "0x1000", a7: "0x7000" });
+        (adapter as any).stackManager = {
+          getReturnFrame: sinon.stub().resolves(undefined),
+        };
+        disassembleAt("move.w d0,$dff09c");
+        const response =
+          createMockResponse<DebugProtocol.StepOutResponse>("stepOut");
+        await (adapter as any).stepOutRequest(response);
+
+        setupMockCpuState({ pc: "0x1006", a7: "0x7000" });
+        disassembleAt("rte");
+        await (adapter as any).handleStep();
+        assert.strictEqual(mockVAmiga.stepInto.callCount, 2);
+        assert.ok(sendEvent.notCalled);
+
+        // Back on the user stack, which is lower
+        setupMockCpuState({ pc: "0x2000", a7: "0x4000" });
+        await (adapter as any).handleStep();
+        assert.strictEqual(mockVAmiga.stepInto.callCount, 2);
+        assert.strictEqual(sendEvent.lastCall.args[0].event, "stopped");
+      });
+
+      it("should stop stepping out when RTS returns above the frame", async () => {
+        setupMockCpuState({ pc: "0x1000", a7: "0x8000" });
+        (adapter as any).stackManager = {
+          getReturnFrame: sinon.stub().resolves(undefined),
+        };
+        disassembleAt("movem.l (sp)+,d2-d3");
+        const response =
+          createMockResponse<DebugProtocol.StepOutResponse>("stepOut");
+        await (adapter as any).stepOutRequest(response);
+
+        // Restoring registers doesn't return
+        setupMockCpuState({ pc: "0x1004", a7: "0x8008" });
+        disassembleAt("rts");
+        await (adapter as any).handleStep();
+        assert.strictEqual(mockVAmiga.stepInto.callCount, 2);
+        assert.ok(sendEvent.notCalled);
+
+        setupMockCpuState({ pc: "0x2006", a7: "0x800c" });
+        await (adapter as any).handleStep();
+        assert.strictEqual(mockVAmiga.stepInto.callCount, 2);
+        assert.strictEqual(sendEvent.lastCall.args[0].event, "stopped");
+      });
+
+      it("should give up stepping out after too many instructions", async () => {
+        setupMockCpuState({ pc: "0x1000", a7: "0x8000" });
+        (adapter as any).stackManager = {
+          getReturnFrame: sinon.stub().resolves(undefined),
+        };
+        disassembleAt("bra.s *");
+        const response =
+          createMockResponse<DebugProtocol.StepOutResponse>("stepOut");
+        await (adapter as any).stepOutRequest(response);
+
+        for (let i = 0; i < 1000; i++) {
+          await (adapter as any).handleStep();
+        }
+        assert.strictEqual(mockVAmiga.stepInto.callCount, 1000);
+        assert.strictEqual(sendEvent.lastCall.args[0].event, "stopped");
+        assert.ok(
+          sendEvent.calledWithMatch({
+            body: {
+              output: sinon.match(/Step out stopped after 1000 instructions/),
+            },
+          }),
+        );
+      });
+    });
+
     it("should handle continue request", async () => {
       // Setup: Mock continue functionality
       mockVAmiga.run.resolves();
@@ -488,11 +730,543 @@ describe("VamigaDebugAdapter - Simplified Tests", () => {
       assert.ok(mockVAmiga.pause.calledOnce);
       assert.strictEqual(response.success, true);
     });
+
+    it("should send breakpoint changes from resumed hits at the next stop", async () => {
+      const mockBreakpointManager = sinon.createStubInstance(BreakpointManager);
+      const hit = (hitCount: number, resume?: boolean) =>
+        mockBreakpointManager.handleBreakpointStop.resolves({
+          reason: "breakpoint",
+          resume,
+          changedBreakpoints: [
+            { id: 1, verified: true, message: `Hit count: ${hitCount}` },
+          ],
+        });
+      (adapter as any).breakpointManager = mockBreakpointManager;
+      const sendEvent = sinon.stub(adapter as any, "sendEvent");
+
+      hit(1, true);
+      await (adapter as any).handleStop({});
+      hit(2, true);
+      await (adapter as any).handleStop({});
+      assert.ok(sendEvent.notCalled);
+
+      hit(3);
+      await (adapter as any).handleStop({});
+
+      const changed = sendEvent.args
+        .map(([event]) => event)
+        .filter((event) => event.event === "breakpoint");
+      assert.strictEqual(changed.length, 1);
+      assert.strictEqual(changed[0].body.breakpoint.message, "Hit count: 3");
+    });
+  });
+
+  describe("Goto and Run to Cursor", () => {
+    beforeEach(() => {
+      (adapter as any).sourceMap = {
+        lookupSourceLine: sinon
+          .stub()
+          .withArgs("/src/main.c", 12)
+          .returns({ path: "/src/main.c", line: 11, address: 0x1234 }),
+      };
+    });
+
+    it("should return the address of a source line as goto target", () => {
+      const response =
+        createMockResponse<DebugProtocol.GotoTargetsResponse>("gotoTargets");
+
+      (adapter as any).gotoTargetsRequest(response, {
+        source: { path: "/src/main.c" },
+        line: 12,
+      });
+
+      assert.strictEqual(response.success, true);
+      assert.deepStrictEqual(response.body.targets, [
+        {
+          id: 0x1234,
+          label: "main.c:11",
+          line: 11,
+          instructionPointerReference: "0x00001234",
+        },
+      ]);
+    });
+
+    it("should return an instruction address as goto target for a source without a path", () => {
+      const response =
+        createMockResponse<DebugProtocol.GotoTargetsResponse>("gotoTargets");
+
+      (adapter as any).gotoTargetsRequest(response, {
+        source: { name: "$4a2" },
+        line: 3,
+      });
+
+      assert.strictEqual(response.success, true);
+      assert.deepStrictEqual(response.body.targets, [
+        {
+          id: 0x4a2,
+          label: "0x000004a2",
+          line: 3,
+          instructionPointerReference: "0x000004a2",
+        },
+      ]);
+    });
+
+    it("should fail for a source without a path or instruction address", () => {
+      const response =
+        createMockResponse<DebugProtocol.GotoTargetsResponse>("gotoTargets");
+
+      (adapter as any).gotoTargetsRequest(response, {
+        source: { name: "main.c" },
+        line: 3,
+      });
+
+      assert.strictEqual(response.success, false);
+    });
+
+    it("should jump to the goto target", async () => {
+      mockVAmiga.jump.resolves();
+
+      const response = createMockResponse<DebugProtocol.GotoResponse>("goto");
+
+      await (adapter as any).gotoRequest(response, {
+        threadId: 1,
+        targetId: 0x1234,
+      });
+
+      assert.ok(mockVAmiga.jump.calledOnceWithExactly(0x1234));
+      assert.strictEqual(response.success, true);
+    });
+
+    it("should run to a source line with a temporary breakpoint", () => {
+      const mockBreakpointManager = sinon.createStubInstance(BreakpointManager);
+      (adapter as any).breakpointManager = mockBreakpointManager;
+      // A line step left from before shouldn't take over the stop
+      (adapter as any).lineStep = { path: "/src/main.c", line: 3 };
+      const sendEvent = sinon.stub(adapter as any, "sendEvent");
+
+      adapter.runToLine("/src/main.c", 12);
+
+      assert.ok(
+        mockBreakpointManager.setTmpBreakpoint.calledOnceWithExactly(
+          0x1234,
+          "breakpoint",
+        ),
+      );
+      assert.ok(mockVAmiga.run.calledOnce);
+      assert.strictEqual((adapter as any).lineStep, null);
+      assert.ok(adapter.isEmulatorRunning());
+      assert.strictEqual(sendEvent.lastCall.args[0].event, "continued");
+    });
+  });
+
+  describe("Launch", () => {
+    const program = join(__dirname, "fixtures/amigaPrograms/hello");
+
+    beforeEach(() => {
+      sinon.stub(adapter as any, "sendEvent");
+    });
+
+    it("should boot from disk images and wait for the program's process", async () => {
+      const response =
+        createMockResponse<DebugProtocol.LaunchResponse>("launch");
+
+      await (adapter as any).launchRequest(response, {
+        program,
+        emulatorOptions: { floppyPaths: ["/work/game.adf"] },
+      });
+
+      assert.ok(
+        mockVAmiga.open.calledWith({
+          floppyPaths: ["/work/game.adf"],
+          processName: "hello",
+        }),
+      );
+      assert.strictEqual(response.success, true);
+    });
+
+    it("should attach at fixed segments for a program loaded without AmigaDOS", async () => {
+      const response =
+        createMockResponse<DebugProtocol.LaunchResponse>("launch");
+
+      await (adapter as any).launchRequest(response, {
+        program: join(__dirname, "fixtures/amigaPrograms/gencop"),
+        segments: ["$40000"],
+        emulatorOptions: { floppyPaths: ["/work/game.adf"] },
+      });
+      assert.ok(
+        mockVAmiga.open.calledWith({
+          floppyPaths: ["/work/game.adf"],
+          fixedSegments: true,
+        }),
+      );
+
+      await (adapter as any).handleMessageFromEmulator({ type: "exec-ready" });
+
+      assert.deepStrictEqual((adapter as any).segmentOffsets, [0x40000]);
+    });
+
+    it("should reject invalid segment addresses", async () => {
+      const response =
+        createMockResponse<DebugProtocol.LaunchResponse>("launch");
+
+      await (adapter as any).launchRequest(response, {
+        program: join(__dirname, "fixtures/amigaPrograms/gencop"),
+        segments: ["$40000", "0x6OOOO"],
+        emulatorOptions: { floppyPaths: ["/work/game.adf"] },
+      });
+
+      assert.strictEqual(response.success, false);
+      assert.ok(response.message?.includes("0x6OOOO"));
+      assert.ok(mockVAmiga.open.notCalled);
+      assert.ok(
+        (adapter as any).sendEvent.calledWithMatch({ event: "terminated" }),
+      );
+    });
+
+    it("should use a configured process name for a hard drive", async () => {
+      const response =
+        createMockResponse<DebugProtocol.LaunchResponse>("launch");
+
+      await (adapter as any).launchRequest(response, {
+        program,
+        processName: "game",
+        emulatorOptions: { hardDrivePath: "/work/dh0" },
+      });
+
+      assert.ok(
+        mockVAmiga.open.calledWith({
+          hardDrivePath: "/work/dh0",
+          processName: "game",
+        }),
+      );
+    });
+  });
+
+  describe("Attach", () => {
+    const program = join(__dirname, "fixtures/amigaPrograms/hello");
+
+    beforeEach(() => {
+      sinon.stub(adapter as any, "sendEvent");
+    });
+
+    it("should boot without loading the program, and wait for its process", async () => {
+      const response =
+        createMockResponse<DebugProtocol.AttachResponse>("attach");
+
+      await (adapter as any).attachRequest(response, {
+        program,
+        emulatorOptions: { floppyPaths: ["/work/wb.adf"] },
+      });
+
+      assert.ok(
+        mockVAmiga.open.calledWith({
+          floppyPaths: ["/work/wb.adf"],
+          processName: "hello",
+          attach: true,
+        }),
+      );
+      assert.strictEqual(response.success, true);
+    });
+
+    it("should run to the program's entry point once its process is found", async () => {
+      await (adapter as any).attachRequest(
+        createMockResponse<DebugProtocol.AttachResponse>("attach"),
+        {
+          program: join(__dirname, "fixtures/amigaPrograms/gencop"),
+          stopOnEntry: true,
+        },
+      );
+
+      await (adapter as any).handleMessageFromEmulator({
+        type: "attached",
+        segments: [{ start: 0x20004, size: 0x100 }],
+      });
+      (adapter as any).configurationDoneRequest(
+        createMockResponse<DebugProtocol.ConfigurationDoneResponse>(
+          "configurationDone",
+        ),
+      );
+
+      assert.deepStrictEqual(
+        adapter.getBreakpointManager().getTmpBreakpoints(),
+        [{ address: 0x20004, reason: "entry" }],
+      );
+      assert.ok(mockVAmiga.run.calledOnce);
+    });
+  });
+
+  describe("Symbol files", () => {
+    const program = join(__dirname, "fixtures/amigaPrograms/gencop");
+    const symbolFile = join(__dirname, "fixtures/amigaPrograms/tutorial");
+    let sendEvent: sinon.SinonStub;
+
+    beforeEach(async () => {
+      sendEvent = sinon.stub(adapter as any, "sendEvent");
+      await (adapter as any).launchRequest(
+        createMockResponse<DebugProtocol.LaunchResponse>("launch"),
+        { program, symbolFiles: [symbolFile] },
+      );
+    });
+
+    it("should map a symbol file once its module is found, and set its breakpoints", async () => {
+      const findModuleSegments = sinon
+        .stub(AmigaMemoryMapper.prototype, "findModuleSegments")
+        .resolves(undefined);
+      (adapter as any).attach([0x10000]);
+      (adapter as any).isRunning = true;
+      await new Promise(setImmediate);
+
+      const module = (adapter as any).symbolModules[0];
+      const { sourceFilename, lines } = module.hunks[0].lineDebugInfo[0];
+      const [bp] = await adapter
+        .getBreakpointManager()
+        .setSourceBreakpoints(sourceFilename, [{ line: lines[0].line }]);
+      assert.strictEqual(bp.verified, false);
+      // Not loaded yet, so the emulator stops when a library or task is added
+      assert.ok(mockVAmiga.watchModules.calledOnce);
+
+      findModuleSegments.resolves([0x20000, 0x30000, 0x40000]);
+      await (adapter as any).handleMessageFromEmulator({
+        type: "modules-changed",
+      });
+
+      assert.ok(findModuleSegments.calledWith("tutorial"));
+      assert.ok(mockVAmiga.unwatchModules.calledOnce);
+      assert.ok(mockVAmiga.run.calledOnce);
+      const segmentNames = adapter
+        .getSourceMap()
+        .getSegmentsInfo()
+        .map((seg) => seg.name);
+      assert.ok(segmentNames.includes("tutorial 0: CODE ANY"));
+      const changed = sendEvent.args
+        .map(([event]) => event)
+        .find((event) => event.event === "breakpoint");
+      assert.strictEqual(changed.body.breakpoint.id, bp.id);
+      assert.strictEqual(changed.body.breakpoint.verified, true);
+    });
+
+    it("should add a symbol file at a segment list from the REPL", async () => {
+      const readSegList = sinon
+        .stub(AmigaMemoryMapper.prototype, "readSegList")
+        .resolves([0x20000, 0x30000, 0x40000]);
+      (adapter as any).attach([0x10000]);
+      (adapter as any).symbolModules = [];
+      const response =
+        createMockResponse<DebugProtocol.EvaluateResponse>("evaluate");
+
+      // A literal address is the segment list itself, not a value in memory
+      await (adapter as any).evaluateRequest(response, {
+        expression: `symbols ${symbolFile} $8000`,
+        context: "repl",
+      });
+
+      assert.strictEqual(response.success, true);
+      assert.ok(readSegList.calledWith(0x8000));
+      assert.deepStrictEqual(
+        (adapter as any).symbolModules[0].segments,
+        [0x20000, 0x30000, 0x40000],
+      );
+      assert.ok(adapter.getSourceMap().findSegmentForAddress(0x20000));
+    });
+
+    it("should reject ELF symbol files", async () => {
+      (adapter as any).attach([0x10000]);
+      const response =
+        createMockResponse<DebugProtocol.EvaluateResponse>("evaluate");
+
+      await (adapter as any).evaluateRequest(response, {
+        expression: `symbols ${join(__dirname, "fixtures/amigaPrograms/c_prog.elf")}`,
+        context: "repl",
+      });
+
+      assert.strictEqual(response.success, false);
+      assert.ok(response.message?.includes("is an ELF file"));
+    });
+  });
+
+  describe("Snapshots", () => {
+    let dir: string;
+    let snapshotPath: string;
+    let sendEvent: sinon.SinonStub;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "vamiga-adapter-"));
+      snapshotPath = join(dir, "snapshot.vAmiga");
+      await writeFile(snapshotPath, Buffer.from([1, 2, 3, 4]));
+      await writeFile(
+        snapshotPath + ".json",
+        JSON.stringify({ program: "/work/a.exe", segments: [0x20000] }),
+      );
+      (adapter as any).breakpointManager =
+        sinon.createStubInstance(BreakpointManager);
+      sendEvent = sinon.stub(adapter as any, "sendEvent");
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should restore a snapshot and stop there", async () => {
+      (adapter as any).segmentOffsets = [0x20000];
+
+      await adapter.restoreSnapshot(snapshotPath);
+
+      assert.ok(mockVAmiga.loadSnapshot.calledWith(Buffer.from([1, 2, 3, 4])));
+      assert.strictEqual(sendEvent.callCount, 1);
+      assert.strictEqual(sendEvent.firstCall.args[0].body.reason, "restore");
+    });
+
+    it("should warn when the snapshot has the program at different addresses", async () => {
+      (adapter as any).segmentOffsets = [0x30000];
+
+      await adapter.restoreSnapshot(snapshotPath);
+
+      const output = sendEvent.firstCall.args[0];
+      assert.strictEqual(output.event, "output");
+      assert.match(output.body.output, /a\.exe loaded at different addresses/);
+    });
+
+    it("should start from a snapshot instead of loading the program", async () => {
+      (adapter as any).snapshotPath = snapshotPath;
+      (adapter as any).fastLoad = true;
+      const attach = sinon.stub(adapter as any, "attach");
+      const injectProgram = sinon.stub(adapter as any, "injectProgram");
+
+      await (adapter as any).handleMessageFromEmulator({ type: "exec-ready" });
+
+      assert.ok(mockVAmiga.loadSnapshot.calledOnce);
+      assert.ok(attach.calledWith([0x20000]));
+      assert.ok(injectProgram.notCalled);
+    });
+  });
+
+  describe("Hot reload", () => {
+    const program = join(__dirname, "fixtures/amigaPrograms/gencop");
+    let sendEvent: sinon.SinonStub;
+
+    const loadedAt = (address: number) => ({
+      entryPoint: address,
+      allocations: [{ hunk: (adapter as any).hunks[0], address, size: 0x100 }],
+      totalSize: 0x100,
+      stackPointer: 0x7f000,
+    });
+
+    beforeEach(async () => {
+      sendEvent = sinon.stub(adapter as any, "sendEvent");
+      await (adapter as any).launchRequest(
+        createMockResponse<DebugProtocol.LaunchResponse>("launch"),
+        { program, fastLoad: true, stopOnEntry: true },
+      );
+    });
+
+    it("should load the new build and move breakpoints to it", async () => {
+      (adapter as any).attach([0x10000]);
+      (adapter as any).loadedProgram = loadedAt(0x10000);
+      const { sourceFilename, lines } = (adapter as any).hunks[0]
+        .lineDebugInfo[0];
+      const [bp] = await adapter
+        .getBreakpointManager()
+        .setSourceBreakpoints(sourceFilename, [{ line: lines[0].line }]);
+      const unloadProgram = sinon.stub(
+        AmigaHunkLoader.prototype,
+        "unloadProgram",
+      );
+      sinon
+        .stub(AmigaHunkLoader.prototype, "loadProgram")
+        .resolves(loadedAt(0x20000));
+      const setupProgramEntry = sinon.stub(
+        AmigaHunkLoader.prototype,
+        "setupProgramEntry",
+      );
+      mockVAmiga.setBreakpoint.resetHistory();
+      sendEvent.resetHistory();
+
+      await adapter.hotReload();
+
+      assert.ok(unloadProgram.calledOnce);
+      // Restarted with the original stack
+      assert.strictEqual(setupProgramEntry.firstCall.args[1], 0x7f000);
+      assert.ok(
+        mockVAmiga.clearStepHistory.calledBefore(mockVAmiga.recordStop),
+      );
+      assert.ok(mockVAmiga.setBreakpoint.calledWith(0x20000 + lines[0].offset));
+      const events = sendEvent.args.map(([event]) => event);
+      const changed = events.find((event) => event.event === "breakpoint");
+      assert.strictEqual(changed.body.reason, "changed");
+      assert.strictEqual(changed.body.breakpoint.id, bp.id);
+      assert.strictEqual(changed.body.breakpoint.verified, true);
+      assert.strictEqual(events.at(-1).body.reason, "entry");
+      assert.ok(mockVAmiga.run.notCalled);
+    });
+
+    it("should keep a trace recording across a hot reload", async () => {
+      (adapter as any).attach([0x10000]);
+      (adapter as any).loadedProgram = loadedAt(0x10000);
+      sinon.stub(AmigaHunkLoader.prototype, "unloadProgram");
+      sinon
+        .stub(AmigaHunkLoader.prototype, "loadProgram")
+        .resolves(loadedAt(0x20000));
+      sinon.stub(AmigaHunkLoader.prototype, "setupProgramEntry");
+      const traceManager = adapter.getTraceManager();
+      traceManager.startRecording();
+
+      await adapter.hotReload();
+
+      assert.strictEqual(adapter.getTraceManager(), traceManager);
+      assert.ok(traceManager.isRecording());
+      traceManager.dispose();
+    });
+
+    it("should fail without fast loading", async () => {
+      (adapter as any).fastLoad = false;
+
+      await assert.rejects(adapter.hotReload(), /needs a program loaded/);
+    });
   });
 
   describe("Reverse Debugging Features", () => {
+    const history = (...stops: Array<[number, number, number[]?]>) =>
+      mockVAmiga.getStepHistory.resolves({
+        stops: stops.map(([pc, sp, breakpointIds = []]) => ({
+          pc,
+          sp,
+          breakpointIds,
+        })),
+        maxStops: 50,
+      });
+
+    it("should record reported stops in the step history", async () => {
+      const mockBreakpointManager = sinon.createStubInstance(BreakpointManager);
+      mockBreakpointManager.handleBreakpointStop.resolves({
+        reason: "breakpoint",
+        hitBreakpointIds: [1],
+      });
+      (adapter as any).breakpointManager = mockBreakpointManager;
+      sinon.stub(adapter as any, "sendEvent");
+
+      await (adapter as any).handleStop({});
+
+      assert.ok(mockVAmiga.recordStop.calledOnceWithExactly([1]));
+    });
+
+    it("should not record stops which are resumed", async () => {
+      // Setup: Breakpoint with a false condition
+      const mockBreakpointManager = sinon.createStubInstance(BreakpointManager);
+      mockBreakpointManager.handleBreakpointStop.resolves({
+        reason: "breakpoint",
+        resume: true,
+      });
+      (adapter as any).breakpointManager = mockBreakpointManager;
+
+      await (adapter as any).handleStop({});
+
+      assert.ok(mockVAmiga.run.calledOnce);
+      assert.ok(mockVAmiga.recordStop.notCalled);
+    });
+
     it("should handle stepBack request", async () => {
       // Setup: Mock stepBack functionality
+      history([0x1000, 0x8000], [0x1004, 0x8000]);
       mockVAmiga.stepBack.resolves();
 
       const response =
@@ -502,12 +1276,49 @@ describe("VamigaDebugAdapter - Simplified Tests", () => {
       await (adapter as any).stepBackRequest(response);
 
       // Verify: stepBack was called and stopped event sent
-      assert.ok(mockVAmiga.stepBack.calledOnce);
+      assert.ok(mockVAmiga.stepBack.calledOnceWithExactly(1));
+      assert.strictEqual(response.success, true);
+    });
+
+    it("should step back over calls to the previous source line", async () => {
+      // Setup: Previous line at 0x1000, a call at 0x2000, and two stops on the current line
+      history(
+        [0x1000, 0x8000],
+        [0x1004, 0x8000],
+        [0x2000, 0x7ffc],
+        [0x1008, 0x8000],
+      );
+      mockVAmiga.stepBack.resolves();
+      const lines: Record<number, number> = {
+        0x1000: 10,
+        0x1004: 11,
+        0x2000: 20,
+        0x1008: 11,
+      };
+      (adapter as any).sourceMap = {
+        lookupAddress: (address: number) => ({
+          path: "/src/main.c",
+          line: lines[address],
+        }),
+      };
+
+      const response =
+        createMockResponse<DebugProtocol.StepBackResponse>("stepBack");
+
+      // Test: Execute stepBack request with line granularity
+      await (adapter as any).stepBackRequest(response, {
+        threadId: 1,
+        granularity: "line",
+      });
+
+      // Verify: Back over the call and the current line
+      assert.ok(mockVAmiga.stepBack.calledOnceWithExactly(3));
       assert.strictEqual(response.success, true);
     });
 
     it("should handle stepBack errors gracefully", async () => {
       // Setup: Mock stepBack to fail
+      history([0x1000, 0x8000], [0x1004, 0x8000]);
       mockVAmiga.stepBack.rejects(new Error("Step back failed"));
 
       const response =
@@ -522,9 +1333,34 @@ describe("VamigaDebugAdapter - Simplified Tests", () => {
       assert.ok(response.message.includes("Step operation failed"));
     });
 
+    it("should report the start of step history", async () => {
+      // Setup: Only the current stop in history
+      history([0x1000, 0x8000]);
+
+      const response =
+        createMockResponse<DebugProtocol.StepBackResponse>("stepBack");
+
+      // Test: Execute stepBack with no history
+      await (adapter as any).stepBackRequest(response);
+
+      // Verify: Error explains history limit
+      assert.strictEqual(response.success, false);
+      assert.ok(mockVAmiga.stepBack.notCalled);
+      assert.ok(response.message?.includes("Start of step history reached"));
+    });
+
     it("should handle reverseContinue request", async () => {
-      // Setup: Mock reverseContinue functionality
-      mockVAmiga.continueReverse.resolves();
+      // Setup: Breakpoint hit at 0x1004, and later stepped onto it with its condition false
+      history(
+        [0x1000, 0x8000],
+        [0x1004, 0x8000, [1]],
+        [0x1004, 0x8000],
+        [0x100c, 0x8000],
+      );
+      mockVAmiga.stepBack.resolves();
+      const mockBreakpointManager = sinon.createStubInstance(BreakpointManager);
+      mockBreakpointManager.hasBreakpoint.callsFake((ids) => ids.includes(1));
+      (adapter as any).breakpointManager = mockBreakpointManager;
 
       const response =
         createMockResponse<DebugProtocol.ReverseContinueResponse>(
@@ -534,14 +1370,14 @@ describe("VamigaDebugAdapter - Simplified Tests", () => {
       // Test: Execute reverseContinue request
       await (adapter as any).reverseContinueRequest(response);
 
-      // Verify: continueReverse was called and stopped event sent
-      assert.ok(mockVAmiga.continueReverse.calledOnce);
+      // Verify: Stepped back to the breakpoint
+      assert.ok(mockVAmiga.stepBack.calledOnceWithExactly(2));
       assert.strictEqual(response.success, true);
     });
 
     it("should handle reverseContinue errors gracefully", async () => {
-      // Setup: Mock reverseContinue to fail
-      mockVAmiga.continueReverse.rejects(new Error("Reverse continue failed"));
+      // Setup: Mock history to fail
+      mockVAmiga.getStepHistory.rejects(new Error("Reverse continue failed"));
 
       const response =
         createMockResponse<DebugProtocol.ReverseContinueResponse>(
@@ -4,6 +4,7 @@ import { VariablesManager } from "../variablesManager";
 import { VAmiga, CpuInfo } from "../vAmiga";
 import { SourceMap } from "../sourceMap";
 import { MemoryType } from "../amigaHunkParser";
+import { DwarfType, DwarfVariables } from "../dwarfVariables";
 
 /**
  * Comprehensive test suite for VariablesManager
@@ -50,6 +51,278 @@ describe("VariablesManager - Comprehensive Tests", () => {
     });
   });
 
+  describe("Exception Scope", () => {
+    it("should add exception scope with decoded frame", async () => {
+      mockSourceMap.findSymbolOffset.returns(undefined);
+      const [scope] = variablesManager.getScopes(undefined, {
+        vector: 2,
+        address: 0x8000,
+        size: 14,
+        sr: 0x0000,
+        pc: 0x1238,
+        accessAddress: 0xbfe001,
+        faultStatus: 0x0011,
+        read: true,
+        instructionFetch: false,
+        functionCode: 1,
+        instructionRegister: 0x1039,
+      });
+
+      const variables = await variablesManager.getVariables(
+        scope.variablesReference,
+      );
+
+      assert.strictEqual(scope.name, "Exception");
+      assert.deepStrictEqual(
+        variables.map(({ name, value }) => `${name}: ${value}`),
+        [
+          "vector: 2 (BUS_ERROR)",
+          "sr: 0x0000",
+          "pc: 0x00001238",
+          "accessAddress: 0x00bfe001",
+          "faultStatus: 0x0011 (read, data, FC=1)",
+          "instructionRegister: 0x1039",
+        ],
+      );
+    });
+  });
+
+  describe("Local Variables", () => {
+    let mockDwarfVariables: sinon.SinonStubbedInstance<DwarfVariables>;
+    const registers = new Array(16).fill(0);
+    registers[0] = 0x1234fffe; // d0
+    const frame = { pc: 0x1000, registers, cfa: 0x8000 };
+    const short = {
+      kind: "base" as const,
+      name: "short",
+      size: 2,
+      encoding: 5,
+    };
+
+    beforeEach(() => {
+      mockDwarfVariables = sinon.createStubInstance(DwarfVariables);
+      mockDwarfVariables.getVariables.returns([
+        { name: "count", isParameter: false, type: short },
+      ]);
+      variablesManager = new VariablesManager(
+        mockVAmiga,
+        mockSourceMap,
+        mockDwarfVariables,
+      );
+    });
+
+    it("should add locals scope for frames with variables", () => {
+      const scopes = variablesManager.getScopes(frame);
+
+      assert.strictEqual(scopes.length, 6);
+      assert.strictEqual(scopes[0].name, "Locals");
+      assert.strictEqual(scopes[0].presentationHint, "locals");
+      assert.ok(mockDwarfVariables.getVariables.calledWith(0x1000));
+    });
+
+    it("should not add locals scope without variables in scope", () => {
+      mockDwarfVariables.getVariables.returns([]);
+
+      assert.strictEqual(variablesManager.getScopes(frame).length, 5);
+      assert.strictEqual(variablesManager.getScopes().length, 5);
+    });
+
+    it("should read register values using the low-order bytes", async () => {
+      mockDwarfVariables.getLocation.resolves({
+        kind: "register",
+        register: 0,
+      });
+      const [scope] = variablesManager.getScopes(frame);
+
+      const variables = await variablesManager.getVariables(
+        scope.variablesReference,
+      );
+
+      assert.deepStrictEqual(variables, [
+        { name: "count", value: "-2", type: "short", variablesReference: 0 },
+      ]);
+      const context = mockDwarfVariables.getLocation.firstCall.args[2];
+      assert.strictEqual(context.cfa, 0x8000);
+    });
+
+    it("should read memory values with a memory reference", async () => {
+      mockDwarfVariables.getLocation.resolves({
+        kind: "memory",
+        address: 0x7ff4,
+      });
+      mockVAmiga.readMemory.resolves(Buffer.from([0x00, 0x2a]));
+
+      const [variable] = await variablesManager.localVariables(frame);
+
+      assert.ok(mockVAmiga.readMemory.calledWith(0x7ff4, 2));
+      assert.strictEqual(variable.value, "42");
+      assert.strictEqual(variable.memoryReference, "0x00007ff4");
+    });
+
+    it("should show unavailable values", async () => {
+      mockDwarfVariables.getLocation.onFirstCall().resolves(undefined);
+      mockDwarfVariables.getLocation
+        .onSecondCall()
+        .rejects(new Error("Frame base unavailable"));
+
+      const [optimized] = await variablesManager.localVariables(frame);
+      const [failed] = await variablesManager.localVariables(frame);
+
+      assert.strictEqual(optimized.value, "<optimized out>");
+      assert.strictEqual(failed.value, "<Frame base unavailable>");
+    });
+  });
+
+  describe("Typed Variables", () => {
+    const ubyte = {
+      kind: "base" as const,
+      name: "UBYTE",
+      size: 1,
+      encoding: 8,
+    };
+    const node: DwarfType = {
+      kind: "struct",
+      name: "struct Node",
+      size: 6,
+      members: [
+        { name: "ln_Type", type: ubyte, offset: 0 },
+        { name: "ln_Flags", type: ubyte, offset: 1, bitSize: 4, bitOffset: 0 },
+      ],
+    };
+    node.members!.push({
+      name: "ln_Succ",
+      type: { kind: "pointer", name: "struct Node *", size: 4, target: node },
+      offset: 2,
+    });
+
+    beforeEach(() => {
+      mockVAmiga.isValidAddress.returns(true);
+    });
+
+    it("should expand structs in memory to their members", async () => {
+      mockVAmiga.readMemory.resolves(
+        Buffer.from([0x02, 0x5f, 0x00, 0x00, 0x20, 0x00]),
+      );
+
+      const variable = await variablesManager.typedVariable(
+        "node",
+        node,
+        Buffer.alloc(6),
+        0x1000,
+      );
+      const members = await variablesManager.getVariables(
+        variable.variablesReference,
+      );
+
+      assert.strictEqual(variable.value, "{...}");
+      assert.strictEqual(variable.type, "struct Node");
+      assert.ok(mockVAmiga.readMemory.calledWith(0x1000, 6));
+      assert.deepStrictEqual(
+        members.map((m) => [m.name, m.value, m.memoryReference]),
+        [
+          ["ln_Type", "2", "0x00001000"],
+          ["ln_Flags", "5", undefined],
+          ["ln_Succ", "0x00002000", "0x00002000"],
+        ],
+      );
+      assert.ok(members[2].variablesReference > 0);
+    });
+
+    it("should dereference pointers to their target", async () => {
+      const pointer: DwarfType = {
+        kind: "pointer",
+        name: "UBYTE *",
+        size: 4,
+        target: ubyte,
+      };
+      mockVAmiga.readMemory.resolves(Buffer.from("Hi\0"));
+
+      const variable = await variablesManager.typedVariable(
+        "str",
+        pointer,
+        Buffer.from([0, 0, 0x20, 0]),
+      );
+      const [target] = await variablesManager.getVariables(
+        variable.variablesReference,
+      );
+
+      assert.strictEqual(variable.value, '0x00002000 "Hi"');
+      assert.strictEqual(target.name, "*str");
+      assert.strictEqual(target.value, "72 'H'");
+    });
+
+    it("should not expand null pointers", async () => {
+      const pointer: DwarfType = {
+        kind: "pointer",
+        name: "struct Node *",
+        size: 4,
+        target: node,
+      };
+
+      const variable = await variablesManager.typedVariable(
+        "node",
+        pointer,
+        Buffer.alloc(4),
+      );
+
+      assert.strictEqual(variable.variablesReference, 0);
+    });
+
+    it("should list array elements", async () => {
+      const array: DwarfType = {
+        kind: "array",
+        name: "UWORD[3]",
+        size: 6,
+        count: 3,
+        target: { kind: "base", name: "UWORD", size: 2, encoding: 7 },
+      };
+      mockVAmiga.readMemory.resolves(Buffer.from([0, 1, 0, 2, 0, 3]));
+
+      const variable = await variablesManager.typedVariable(
+        "values",
+        array,
+        Buffer.alloc(6),
+        0x1000,
+      );
+      const elements = await variablesManager.getVariables(
+        variable.variablesReference,
+      );
+
+      assert.strictEqual(variable.value, "[3]");
+      assert.deepStrictEqual(
+        elements.map((e) => [e.name, e.value, e.memoryReference]),
+        [
+          ["[0]", "1", "0x00001000"],
+          ["[1]", "2", "0x00001002"],
+          ["[2]", "3", "0x00001004"],
+        ],
+      );
+    });
+
+    it("should show typed values for symbols with debug info", async () => {
+      const mockDwarfVariables = sinon.createStubInstance(DwarfVariables);
+      mockDwarfVariables.getGlobal.returns({
+        name: "counter",
+        type: ubyte,
+        address: 0x1000,
+      });
+      mockSourceMap.getSymbols.returns({ counter: 0x1000 });
+      mockSourceMap.getSymbolLengths.returns({ counter: 1 });
+      mockVAmiga.readMemory.resolves(Buffer.from([7]));
+      variablesManager = new VariablesManager(
+        mockVAmiga,
+        mockSourceMap,
+        mockDwarfVariables,
+      );
+
+      const [variable] = await variablesManager.symbolVariables();
+
+      assert.strictEqual(variable.value, "7");
+      assert.strictEqual(variable.type, "UBYTE");
+      assert.strictEqual(variable.memoryReference, "0x00001000");
+    });
+  });
+
   describe("CPU Register Variables", () => {
     it("should return all CPU register variables", async () => {
       const mockCpuInfo: CpuInfo = {
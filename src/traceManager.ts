@@ -0,0 +1,308 @@
+import { writeFile } from "fs/promises";
+import { extname } from "path";
+import { SourceMap } from "./sourceMap";
+import { VAmiga, CpuTraceItem } from "./vAmiga";
+import { formatHex } from "./numbers";
+
+/**
+ * CPU trace item annotated with debug symbol information
+ */
+export interface TraceEntry extends CpuTraceItem {
+  /** Nearest preceding symbol, if in a program segment */
+  symbol?: string;
+  /** Byte offset from symbol */
+  symbolOffset?: number;
+  /** Source file path, if address has line info */
+  path?: string;
+  /** Source line number (1-based) */
+  line?: number;
+  /** Instructions before this one may be missing, as the emulator log was full when it was collected */
+  gap?: boolean;
+}
+
+export type TraceExportFormat = "text" | "csv";
+
+/**
+ * Records an instruction-level execution trace.
+ *
+ * The emulator keeps a log of the most recently executed instructions. While
+ * recording, this log is collected each time the emulator stops, and polled
+ * while it runs, and appended to a bounded ring buffer so the history can span
+ * many stops. Collected items are cleared from the emulator log, though other
+ * reads of it still see them. The log only holds the last few hundred
+ * instructions, so when it's full on collection, earlier instructions are
+ * missing and the entry is marked as following a gap. Entries are annotated
+ * with symbol and source line info from the source map.
+ */
+export class TraceManager {
+  /** Maximum number of items to request from the emulator log per capture */
+  public static EMULATOR_LOG_SIZE = 256;
+  /** Interval in ms to collect the emulator log while recording */
+  public static POLL_INTERVAL = 20;
+
+  private entries: TraceEntry[] = [];
+  private start = 0;
+  private recording = false;
+  private running = false;
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  /** Captures are run in turn, so items are appended in order */
+  private capturing: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new TraceManager instance.
+   *
+   * @param vAmiga VAmiga instance for reading the CPU trace log
+   * @param sourceMap Source map for annotating trace entries
+   * @param capacity Maximum number of entries to keep - oldest are discarded
+   */
+  constructor(
+    private vAmiga: VAmiga,
+    private sourceMap: SourceMap,
+    private capacity = 10000,
+  ) {}
+
+  /**
+   * Starts a new recording, discarding any previous entries.
+   */
+  public startRecording(): void {
+    this.clear();
+    this.vAmiga.clearCpuTrace();
+    this.vAmiga.enableCpuLogging(true);
+    this.recording = true;
+    this.updatePolling();
+  }
+
+  /**
+   * Sets whether the emulator is running. The log is only polled while it
+   * runs, as nothing is added to it while it's halted.
+   */
+  public setRunning(running: boolean): void {
+    this.running = running;
+    this.updatePolling();
+  }
+
+  /**
+   * Stops recording, after collecting what's left in the emulator log.
+   * Captured entries are retained for export.
+   *
+   * CPU logging stays enabled in the emulator, as it's also used to find the
+   * faulting instruction on exceptions.
+   */
+  public async stopRecording(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    try {
+      await this.capture();
+    } finally {
+      this.recording = false;
+    }
+  }
+
+  /**
+   * Stops polling the emulator log
+   */
+  public dispose(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.recording = false;
+  }
+
+  /**
+   * Sets the source map to annotate new entries with, e.g. when the program is reloaded.
+   * Entries already recorded keep their annotations from the code that ran.
+   */
+  public setSourceMap(sourceMap: SourceMap): void {
+    this.sourceMap = sourceMap;
+  }
+
+  public isRecording(): boolean {
+    return this.recording;
+  }
+
+  /**
+   * Discards all recorded entries.
+   */
+  public clear(): void {
+    this.entries = [];
+    this.start = 0;
+  }
+
+  /**
+   * Collects new items from the emulator CPU log into the ring buffer.
+   *
+   * Should be called whenever the emulator stops. The emulator log is cleared
+   * as it's read, so that items aren't collected twice.
+   */
+  public capture(): Promise<void> {
+    const result = this.capturing.then(() => this.collect());
+    this.capturing = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Gets recorded entries in execution order, oldest first.
+   */
+  public getEntries(): TraceEntry[] {
+    return [
+      ...this.entries.slice(this.start),
+      ...this.entries.slice(0, this.start),
+    ];
+  }
+
+  /**
+   * Formats recorded entries as aligned plain text, one instruction per line.
+   */
+  public formatText(): string {
+    const lines = this.getEntries().map((entry) => {
+      let out = entry.gap ? GAP_TEXT + "\n" : "";
+      out +=
+        formatHex(parseInt(entry.pc, 16)) +
+        "  " +
+        entry.flags +
+        "  " +
+        entry.instruction.padEnd(32);
+      const location = this.formatLocation(entry);
+      if (location) {
+        out += "  ; " + location;
+      }
+      return out.trimEnd();
+    });
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Formats recorded entries as CSV with a header row.
+   */
+  public formatCsv(): string {
+    const rows = [
+      ["pc", "instruction", "flags", "symbol", "offset", "path", "line"],
+    ];
+    for (const entry of this.getEntries()) {
+      if (entry.gap) {
+        rows.push(["", GAP_TEXT, "", "", "", "", ""]);
+      }
+      rows.push([
+        formatHex(parseInt(entry.pc, 16)),
+        entry.instruction,
+        entry.flags,
+        entry.symbol ?? "",
+        entry.symbolOffset?.toString() ?? "",
+        entry.path ?? "",
+        entry.line?.toString() ?? "",
+      ]);
+    }
+    return rows.map((row) => row.map(csvEscape).join(",")).join("\n") + "\n";
+  }
+
+  /**
+   * Writes recorded entries to a file.
+   *
+   * @param path Destination file path
+   * @param format Output format - defaults to CSV for `.csv` files, otherwise text
+   */
+  public async exportTrace(
+    path: string,
+    format?: TraceExportFormat,
+  ): Promise<number> {
+    format =
+      format ?? (extname(path).toLowerCase() === ".csv" ? "csv" : "text");
+    const content = format === "csv" ? this.formatCsv() : this.formatText();
+    await writeFile(path, content);
+    return this.entries.length;
+  }
+
+  private async collect(): Promise<void> {
+    if (!this.recording) {
+      return;
+    }
+    const items = await this.vAmiga.getCpuTrace(
+      TraceManager.EMULATOR_LOG_SIZE,
+      true,
+    );
+    // Log is ordered most recent first
+    for (let i = items.length - 1; i >= 0; i--) {
+      const entry = this.annotate(items[i]);
+      if (
+        i === items.length - 1 &&
+        items.length >= TraceManager.EMULATOR_LOG_SIZE
+      ) {
+        entry.gap = true;
+      }
+      this.push(entry);
+    }
+  }
+
+  private updatePolling() {
+    if (this.recording && this.running) {
+      this.timer ??= setInterval(() => this.poll(), TraceManager.POLL_INTERVAL);
+    } else {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async poll() {
+    // Skip if the last poll is still waiting for the emulator
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      await this.capture();
+    } catch (error) {
+      console.warn("Failed to capture CPU trace:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private push(entry: TraceEntry) {
+    if (this.entries.length < this.capacity) {
+      this.entries.push(entry);
+    } else {
+      this.entries[this.start] = entry;
+      this.start = (this.start + 1) % this.capacity;
+    }
+  }
+
+  private annotate(item: CpuTraceItem): TraceEntry {
+    const entry: TraceEntry = { ...item };
+    const address = parseInt(item.pc, 16);
+    const symbolOffset = this.sourceMap.findSymbolOffset(address);
+    if (symbolOffset) {
+      entry.symbol = symbolOffset.symbol;
+      entry.symbolOffset = symbolOffset.offset;
+    }
+    const location = this.sourceMap.lookupAddress(address);
+    if (location) {
+      entry.path = location.path;
+      entry.line = location.line;
+    }
+    return entry;
+  }
+
+  private formatLocation(entry: TraceEntry): string {
+    const parts: string[] = [];
+    if (entry.symbol) {
+      parts.push(
+        entry.symbolOffset
+          ? `${entry.symbol}+${entry.symbolOffset}`
+          : entry.symbol,
+      );
+    }
+    if (entry.path) {
+      parts.push(`${entry.path}:${entry.line}`);
+    }
+    return parts.join(" ");
+  }
+}
+
+const GAP_TEXT = "... instructions not recorded";
+
+function csvEscape(value: string): string {
+  if (/[",\n]/.test(value)) {
+    return '"' + value.replace(/"/g, '""') + '"';
+  }
+  return value;
+}
@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import * as vscode from "vscode";
-import { existsSync, readFileSync } from "fs";
-import { dirname, join } from "path";
+import { existsSync, readFileSync, readdirSync, statSync } from "fs";
+import { basename, dirname, join, relative } from "path";
 import { u32, u16, u8 } from "./numbers";
 
 export interface CpuInfo {
@@ -72,6 +72,27 @@ export interface MemoryInfo {
   agnusMemSrc: MemSrc[];
 }
 
+export interface CopperInfo {
+  /** Active copper list (1 or 2) */
+  copList: number;
+  active: boolean;
+  cdang: boolean;
+  /** Address of the current copper instruction */
+  coppc0: string;
+  cop1lc: string;
+  cop2lc: string;
+}
+
+/**
+ * Raster beam position
+ */
+export interface BeamPosition {
+  /** Vertical position (line) */
+  vpos: number;
+  /** Horizontal position in color clocks */
+  hpos: number;
+}
+
 export interface CpuTraceItem {
   pc: string;
   instruction: string;
@@ -79,6 +100,17 @@ export interface CpuTraceItem {
   length: number;
 }
 
+export interface StepHistory {
+  stops: Array<{
+    pc: number;
+    sp: number;
+    /** IDs of the breakpoints reported as hit at this stop */
+    breakpointIds: number[];
+  }>;
+  /** Number of stops kept before the oldest are discarded */
+  maxStops: number;
+}
+
 export interface CustomRegisters {
   [name: string]: {
     value: string;
@@ -109,7 +141,13 @@ export interface Segment {
 
 export interface StopMessage {
   hasMessage: boolean;
-  name: "BREAKPOINT_REACHED" | "WATCHPOINT_REACHED" | "CATCHPOINT_REACHED";
+  name:
+    | "BREAKPOINT_REACHED"
+    | "WATCHPOINT_REACHED"
+    | "CATCHPOINT_REACHED"
+    | "COPPERBP_REACHED"
+    | "COPPERWP_REACHED"
+    | "BEAMTRAP_REACHED";
   payload: {
     pc: number;
     vector: number;
@@ -135,6 +173,11 @@ export interface ExecReadyMessage {
   type: "exec-ready";
 }
 
+/** The emulator stopped after a task, library or device was added, while watching for modules */
+export interface ModulesChangedMessage {
+  type: "modules-changed";
+}
+
 export interface RpcResponseMessage {
   type: "rpcResponse";
   id: string;
@@ -146,6 +189,7 @@ export type EmulatorMessage =
   | EmulatorStateMessage
   | EmulatorOutputMessage
   | ExecReadyMessage
+  | ModulesChangedMessage
   | RpcResponseMessage;
 
 /**
@@ -196,6 +240,18 @@ export function isExecReadyMessage(
   return message.type === "exec-ready";
 }
 
+/**
+ * Type guard to check if a message is a ModulesChangedMessage.
+ *
+ * @param message The emulator message to check
+ * @returns True if the message is a ModulesChangedMessage
+ */
+export function isModulesChangedMessage(
+  message: EmulatorMessage,
+): message is ModulesChangedMessage {
+  return message.type === "modules-changed";
+}
+
 /**
  * Type guard to check if a message is an RpcResponseMessage.
  *
@@ -214,6 +270,18 @@ export function isRpcResponseMessage(
 export interface OpenOptions {
   // Paths will need to be converted to URIs
   programPath?: string;
+  /** Stop on startup and wait for a snapshot to be loaded, instead of booting Kickstart */
+  startFromSnapshot?: boolean;
+  /** Disk images to insert into DF0-DF3 */
+  floppyPaths?: string[];
+  /** HDF image, or directory to use as the contents of a hard drive, to attach as DH0 */
+  hardDrivePath?: string;
+  /** Name of the process to attach to, when the program is loaded from a disk */
+  processName?: string;
+  /** Keep running once Kickstart has started, for the debugger to attach when the program is loaded */
+  attach?: boolean;
+  /** Stop once Kickstart has started, as the program is loaded at addresses known in advance */
+  fixedSegments?: boolean;
   kickstartRomPath?: string;
   kickstartExtPath?: string;
   useArosRom?: boolean;
@@ -281,6 +349,13 @@ const fastRam = {
  */
 interface CallParams {
   url?: string;
+  snapshot?: boolean;
+  floppy_urls?: string[];
+  hdf_url?: string;
+  hd_folder?: { name: string; files: { path: string; url: string }[] };
+  process_name?: string;
+  attach?: boolean;
+  fixed_segments?: boolean;
   kickstart_rom_url?: string;
   kickstart_ext_url?: string;
   AROS?: boolean;
@@ -524,6 +599,56 @@ export class VAmiga {
     this.sendCommand("removeWatchpoint", { address });
   }
 
+  /**
+   * Sets a copper breakpoint, which stops when the copper reaches an instruction
+   * @param address Memory address of the copper instruction
+   */
+  public setCopperBreakpoint(address: number): void {
+    this.sendCommand("setCopperBreakpoint", { address });
+  }
+
+  /**
+   * Removes a copper breakpoint at the specified memory address
+   * @param address Memory address of the copper breakpoint to remove
+   */
+  public removeCopperBreakpoint(address: number): void {
+    this.sendCommand("removeCopperBreakpoint", { address });
+  }
+
+  /**
+   * Sets a copper watchpoint, which stops when the copper writes to a custom register
+   * @param address Address of the custom register
+   */
+  public setCopperWatchpoint(address: number): void {
+    this.sendCommand("setCopperWatchpoint", { address });
+  }
+
+  /**
+   * Removes a copper watchpoint for a custom register
+   * @param address Address of the custom register
+   */
+  public removeCopperWatchpoint(address: number): void {
+    this.sendCommand("removeCopperWatchpoint", { address });
+  }
+
+  /**
+   * Sets a beamtrap, which stops when the raster beam reaches a position
+   * @param vpos Vertical position (line)
+   * @param hpos Horizontal position in color clocks
+   */
+  public setBeamtrap(vpos: number, hpos: number): void {
+    this.sendCommand("setBeamtrap", { vpos, hpos });
+  }
+
+  /**
+   * Removes a beamtrap at the specified beam position
+   * @param vpos Vertical position (line)
+   * @param hpos Horizontal position in color clocks
+   */
+  public removeBeamtrap(vpos: number, hpos: number): void {
+    this.sendCommand("removeBeamtrap", { vpos, hpos });
+  }
+
   /**
    * Sets a catchpoint for the specified exception vector
    * @param vector Exception vector number (e.g. 2 for bus error)
@@ -549,20 +674,76 @@ export class VAmiga {
     this.sendCommand("stepInto");
   }
 
+  /**
+   * Records the current stop in the step history, to step back to.
+   *
+   * Only stops reported to the client are recorded, not those the adapter resumes from.
+   *
+   * @param breakpointIds IDs of the breakpoints reported as hit
+   */
+  public recordStop(breakpointIds: number[] = []): void {
+    this.sendCommand("recordStop", { breakpointIds });
+  }
+
+  /**
+   * Stops the emulator each time a task, library or device is added, to look for modules loaded at runtime.
+   *
+   * The emulator sends a `modules-changed` message once the call returns, and waits to be resumed.
+   */
+  public watchModules(): void {
+    this.sendCommand("watchModules");
+  }
+
+  /**
+   * Stops watching for modules loaded at runtime
+   */
+  public unwatchModules(): void {
+    this.sendCommand("unwatchModules");
+  }
+
+  /**
+   * Discards the step history, when earlier stops can no longer be stepped back to
+   */
+  public clearStepHistory(): void {
+    this.sendCommand("clearStepHistory");
+  }
+
   /**
    * Restore previous stopped state
+   *
+   * @param count Number of stops to go back in the history
    */
-  public async stepBack(): Promise<boolean> {
+  public async stepBack(count = 1): Promise<boolean> {
     this.invalidateCache();
-    return this.sendRpcCommand("stepBack");
+    return this.sendRpcCommand("stepBack", { count });
+  }
+
+  /**
+   * Gets the stops recorded for stepping back, oldest first. The last is the current state.
+   */
+  public async getStepHistory(): Promise<StepHistory> {
+    return this.sendRpcCommand("getStepHistory");
   }
 
   /**
-   * Continue stepping back until breakpoint, or start of history
+   * Saves the full emulator state
+   * @returns Snapshot data in vAmiga format
    */
-  public async continueReverse(): Promise<boolean> {
+  public async saveSnapshot(): Promise<Buffer> {
+    const res = await this.sendRpcCommand("saveSnapshot");
+    return Buffer.from(res.data);
+  }
+
+  /**
+   * Restores the full emulator state, leaving it stopped.
+   *
+   * This also clears the step back history, as earlier states aren't related to the restored one.
+   *
+   * @param data Snapshot data in vAmiga format
+   */
+  public async loadSnapshot(data: Buffer): Promise<void> {
     this.invalidateCache();
-    return this.sendRpcCommand("continueReverse");
+    return this.sendRpcCommand("loadSnapshot", { data: new Uint8Array(data) });
   }
 
   /**
@@ -589,12 +770,25 @@ export class VAmiga {
     this.sendCommand("enableCpuLogging", { enabled });
   }
 
+  /**
+   * Clears the CPU instruction trace log
+   */
+  public clearCpuTrace(): void {
+    this.sendCommand("clearCpuTrace");
+  }
+
   /**
    * Get CPU instruction trace log
+   * @param count Maximum number of items, most recent first
+   * @param clear Clear the log after reading it, without missing any instructions executed in between, so the next
+   * read which clears only gets new items. Reads which don't clear still get the items read before.
    * @returns Promise resolving to array of CPU trace items
    */
-  public async getCpuTrace(count = 256): Promise<CpuTraceItem[]> {
-    const res = await this.sendRpcCommand("getCpuTrace", { count });
+  public async getCpuTrace(
+    count = 256,
+    clear = false,
+  ): Promise<CpuTraceItem[]> {
+    const res = await this.sendRpcCommand("getCpuTrace", { count, clear });
     return res.trace;
   }
 
@@ -609,6 +803,38 @@ export class VAmiga {
     return this.cpuInfo;
   }
 
+  /**
+   * Gets the current CPU state, bypassing the cache.
+   *
+   * Used to sample registers while the emulator is running.
+   * @returns Promise resolving to CPU information
+   */
+  public async sampleCpuInfo(): Promise<CpuInfo> {
+    return this.sendRpcCommand("getCpuInfo");
+  }
+
+  /**
+   * Gets the current copper state
+   * @returns Promise resolving to copper information
+   */
+  public async getCopperInfo(): Promise<CopperInfo> {
+    return this.sendRpcCommand("getCopperInfo");
+  }
+
+  /**
+   * Gets the current raster beam position from the VPOSR and VHPOSR registers
+   * @returns Promise resolving to beam position
+   */
+  public async getBeamPosition(): Promise<BeamPosition> {
+    const registers = await this.getAllCustomRegisters();
+    const vposr = Number(registers.VPOSR.value);
+    const vhposr = Number(registers.VHPOSR.value);
+    return {
+      vpos: ((vposr & 1) << 8) | (vhposr >> 8),
+      hpos: vhposr & 0xff,
+    };
+  }
+
   /**
    * Gets the memory information from emulator
    * @returns Promise resolving to memory information
@@ -855,6 +1081,18 @@ export class VAmiga {
       const progDir = dirname(options.programPath);
       localResourceRoots.push(vscode.Uri.file(progDir));
     }
+    for (const floppyPath of options.floppyPaths ?? []) {
+      localResourceRoots.push(vscode.Uri.file(dirname(floppyPath)));
+    }
+    if (options.hardDrivePath) {
+      localResourceRoots.push(
+        vscode.Uri.file(
+          this.isDirectory(options.hardDrivePath)
+            ? options.hardDrivePath
+            : dirname(options.hardDrivePath),
+        ),
+      );
+    }
     if (options.kickstartRomPath) {
       if (!existsSync(options.kickstartRomPath)) {
         throw new Error(
@@ -1004,6 +1242,19 @@ export class VAmiga {
       chip_ram: options.chipRam ? chipRam[options.chipRam] : undefined,
       slow_ram: options.slowRam ? slowRam[options.slowRam] : undefined,
       fast_ram: options.fastRam ? fastRam[options.fastRam] : undefined,
+      // Connect enough drives for the inserted disks
+      floppy_drive_count:
+        Math.max(
+          options.floppyDriveCount ?? 0,
+          options.floppyPaths?.length ?? 0,
+        ) || undefined,
+      snapshot: options.startFromSnapshot,
+      floppy_urls: options.floppyPaths?.map((floppyPath) =>
+        this.absolutePathToWebviewUri(floppyPath).toString(),
+      ),
+      process_name: options.processName,
+      attach: options.attach,
+      fixed_segments: options.fixedSegments,
       url: options.programPath
         ? this.absolutePathToWebviewUri(options.programPath).toString()
         : undefined,
@@ -1014,9 +1265,47 @@ export class VAmiga {
         ? this.absolutePathToWebviewUri(options.kickstartExtPath).toString()
         : undefined,
     };
+    if (options.hardDrivePath) {
+      if (this.isDirectory(options.hardDrivePath)) {
+        params.hd_folder = this.hardDriveFolder(options.hardDrivePath);
+      } else {
+        params.hdf_url = this.absolutePathToWebviewUri(
+          options.hardDrivePath,
+        ).toString();
+      }
+    }
     return params;
   }
 
+  private isDirectory(path: string): boolean {
+    return existsSync(path) && statSync(path).isDirectory();
+  }
+
+  /**
+   * Lists the files in a directory to build a hard drive from, with paths relative to the drive root.
+   * The directory name is used as the volume name. Hidden files and folders e.g. `.git` are skipped.
+   */
+  private hardDriveFolder(dir: string): CallParams["hd_folder"] {
+    const files: { path: string; url: string }[] = [];
+    const addFiles = (current: string) => {
+      for (const entry of readdirSync(current, { withFileTypes: true })) {
+        const entryPath = join(current, entry.name);
+        if (entry.name.startsWith(".")) {
+          continue;
+        } else if (entry.isDirectory()) {
+          addFiles(entryPath);
+        } else if (entry.isFile()) {
+          files.push({
+            path: relative(dir, entryPath).split("\\").join("/"),
+            url: this.absolutePathToWebviewUri(entryPath).toString(),
+          });
+        }
+      }
+    };
+    addFiles(dir);
+    return { name: basename(dir), files };
+  }
+
   private invalidateCache() {
     this.cpuInfo = undefined;
     this.customRegisters = undefined;
@@ -1,17 +1,10 @@
 // TODO: bugs
-// - exception breakpoints need useful stack trace
-// - bp ignores not working - implemented in vamiga?
 // - step on first instruction in non-fast mode
 // TODO: features
-// - trace
 // - memory to disk?
-// - beamtraps?
 // - Constants/symbols browser in variables view
-// - Copper debugging support
 // - Custom register offset prefix display
-// - Profiler
 // - Control warp from Amiga
-// - conditional breakpoints
 
 import {
   logger,
@@ -21,6 +14,7 @@ import {
   StoppedEvent,
   ContinuedEvent,
   OutputEvent,
+  BreakpointEvent,
   Thread,
   Source,
 } from "@vscode/debugadapter";
@@ -29,6 +23,7 @@ import { DebugProtocol } from "@vscode/debugprotocol";
 import * as vscode from "vscode";
 import * as path from "path";
 import { readFile } from "fs/promises";
+import { isDeepStrictEqual } from "util";
 
 import {
   VAmiga,
@@ -39,13 +34,17 @@ import {
   EmulatorStateMessage,
   StopMessage,
   isExecReadyMessage,
+  isModulesChangedMessage,
   OpenOptions,
+  StepHistory,
 } from "./vAmiga";
 import { Hunk, parseHunks } from "./amigaHunkParser";
 import { DWARFData, parseDwarf } from "./dwarfParser";
-import { loadAmigaProgram } from "./amigaHunkLoader";
-import { LoadedProgram } from "./amigaMemoryMapper";
+import { AmigaHunkLoader, loadAmigaProgram } from "./amigaHunkLoader";
+import { AmigaMemoryMapper, LoadedProgram } from "./amigaMemoryMapper";
 import { sourceMapFromDwarf } from "./dwarfSourceMap";
+import { CallFrameTable, callFrameTableFromDwarf } from "./dwarfCallFrames";
+import { DwarfVariables, variablesFromDwarf } from "./dwarfVariables";
 import { sourceMapFromHunks } from "./amigaHunkSourceMap";
 import { SourceMap } from "./sourceMap";
 import { formatHex } from "./numbers";
@@ -58,17 +57,24 @@ import {
   syntaxText,
 } from "./repl";
 import { exceptionBreakpointFilters } from "./hardware";
+import { findMacroRanges } from "./sourceParsing";
+import { ExceptionFrame } from "./exceptionFrame";
+import { readSnapshot, saveSnapshot } from "./snapshot";
 import { VariablesManager } from "./variablesManager";
 import { BreakpointManager } from "./breakpointManager";
-import { StackManager } from "./stackManager";
-import { DisassemblyManager } from "./disassemblyManager";
+import { StackManager, registersFromCpuInfo } from "./stackManager";
+import {
+  DisassemblyManager,
+  isStepOverInstruction,
+} from "./disassemblyManager";
 import { EvaluateManager } from "./evaluateManager";
+import { TraceManager } from "./traceManager";
+import { ProfileManager } from "./profileManager";
 
 /**
- * Launch configuration arguments for starting a debug session.
- * Extends the standard DAP launch arguments with Vamiga-specific options.
+ * Arguments common to launch and attach configurations
  */
-interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
+interface SessionArguments {
   /** Path to the Amiga program executable to debug */
   program: string;
   /** Optional path to separate file containing debug symbols (defaults to program path) */
@@ -77,12 +83,65 @@ interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArguments {
   stopOnEntry?: boolean;
   /** Enable verbose logging of debug adapter protocol messages */
   trace?: boolean;
-  /** Inject program directly into memory */
-  fastLoad?: boolean;
+  /** Hunk files with debug symbols for libraries or other programs loaded at runtime */
+  symbolFiles?: string[];
   /** Options to pass when opening vAmiga */
   emulatorOptions?: Exclude<OpenOptions, "programPath">;
 }
 
+/**
+ * Launch configuration arguments for starting a debug session.
+ * Extends the standard DAP launch arguments with Vamiga-specific options.
+ */
+interface LaunchRequestArguments
+  extends DebugProtocol.LaunchRequestArguments,
+    SessionArguments {
+  /** Inject program directly into memory */
+  fastLoad?: boolean;
+  /** Path to a snapshot saved from a previous session, to start from instead of booting */
+  snapshot?: string;
+  /** Name of the program's process when it's loaded from a disk image (defaults to program file name) */
+  processName?: string;
+  /** Address of each hunk when the program is loaded from a disk image without AmigaDOS, e.g. by a trackloader */
+  segments?: Array<number | string>;
+}
+
+/**
+ * Attach configuration arguments for debugging a program started on the emulated Amiga,
+ * from Workbench or a startup-sequence.
+ */
+interface AttachRequestArguments
+  extends DebugProtocol.AttachRequestArguments,
+    SessionArguments {
+  /** Name of the program's process to wait for (defaults to program file name) */
+  processName?: string;
+}
+
+/**
+ * Step out in progress, finished once the stack is above the frame
+ */
+interface StepOut {
+  /** Stack pointer after returning, or on entry when stepping by instruction */
+  stackAddress: number;
+  /** Return address to run to, if the frame could be unwound */
+  returnAddress?: number;
+  /** Mnemonic of the last instruction stepped, if it was a return */
+  returned?: string;
+  /** Number of instructions stepped so far */
+  steps: number;
+}
+
+/**
+ * Debug symbols for code loaded at runtime e.g. a shared library, mapped once its segments are found
+ */
+interface SymbolModule {
+  /** Path of the hunk file */
+  path: string;
+  hunks: Hunk[];
+  /** Addresses of the loaded segments, once found */
+  segments?: number[];
+}
+
 /**
  * Categorized error codes for debug adapter operations.
  * Organized by functional area with reserved number ranges.
@@ -95,6 +154,8 @@ export enum ErrorCode {
   DEBUG_SYMBOLS_READ_ERROR = 2002,
   /** Failed to start the VAmiga emulator */
   EMULATOR_START_ERROR = 2003,
+  /** Invalid value in launch configuration */
+  INVALID_CONFIGURATION = 2004,
 
   // Runtime/execution errors (3000-3099)
   /** RPC call to emulator timed out */
@@ -153,23 +214,46 @@ export enum ErrorCode {
  */
 export class VamigaDebugAdapter extends LoggingDebugSession {
   private static THREAD_ID = 1;
+  private static MAX_LINE_STEPS = 1000;
+  private static MAX_STEP_OUT_STEPS = 1000;
   private static activeAdapter?: VamigaDebugAdapter;
 
   private trace = false;
   private fastLoad = false;
   private programPath = "";
+  private debugProgramPath = "";
+  private snapshotPath?: string;
+  /** Addresses the program is loaded at by its own loader, to attach to as soon as Kickstart has started */
+  private fixedSegments?: number[];
+  private segmentOffsets: number[] = [];
+  private symbolModules: SymbolModule[] = [];
+  private watchingModules = false;
 
   private isRunning = false;
   private stopOnEntry = false;
   private loadedProgram: LoadedProgram | null = null;
   private stepping = false;
   private lastStepGranularity: DebugProtocol.SteppingGranularity | undefined;
+  /** Source line step in progress, repeated until the location changes */
+  private lineStep: {
+    path: string;
+    line: number;
+    over: boolean;
+    skipMacros: boolean;
+    steps: number;
+  } | null = null;
+  private macroRanges = new Map<string, [number, number][]>();
+  private stepOut: StepOut | null = null;
+  /** Breakpoint state changed by hits which didn't stop, e.g. hit counts, sent to the client at the next stop */
+  private breakpointChanges = new Map<number, DebugProtocol.Breakpoint>();
 
   private variablesManager?: VariablesManager;
   private breakpointManager?: BreakpointManager;
   private stackManager?: StackManager;
   private disassemblyManager?: DisassemblyManager;
   private evaluateManager?: EvaluateManager;
+  private traceManager?: TraceManager;
+  private profileManager?: ProfileManager;
 
   private hunks: Hunk[] = [];
   private dwarfData?: DWARFData;
@@ -178,6 +262,7 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     address: number;
     isSupervisor: boolean;
   } | null = null;
+  private exceptionFrame: ExceptionFrame | null = null;
 
   private disposables: (vscode.Disposable | undefined)[] = [];
 
@@ -221,6 +306,8 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
       VamigaDebugAdapter.activeAdapter = undefined;
     }
     this.vAmiga.run(); // unpause emulator if we're leaving it open
+    this.profileManager?.stop();
+    this.traceManager?.dispose();
     this.breakpointManager?.clearAll();
     this.disposables.forEach((d) => d?.dispose());
     this.disposables = [];
@@ -241,12 +328,17 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     response.body.supportsDataBreakpoints = true;
     response.body.supportsConfigurationDoneRequest = true;
     response.body.supportsHitConditionalBreakpoints = true;
+    response.body.supportsConditionalBreakpoints = true;
+    response.body.supportsLogPoints = true;
     response.body.supportsEvaluateForHovers = true;
     response.body.supportsCompletionsRequest = true;
     response.body.supportsFunctionBreakpoints = true;
     response.body.supportsStepBack = true;
+    response.body.supportsSteppingGranularity = true;
+    response.body.supportsGotoTargetsRequest = true;
 
     response.body.exceptionBreakpointFilters = exceptionBreakpointFilters;
+    response.body.supportsExceptionFilterOptions = true;
 
     this.sendResponse(response);
   }
@@ -255,6 +347,91 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     response: DebugProtocol.LaunchResponse,
     args: LaunchRequestArguments,
   ) {
+    this.fastLoad = args.fastLoad ?? false;
+    this.snapshotPath = args.snapshot;
+    const segments = args.segments?.map((address) => String(address).trim());
+    const invalid = segments?.find(
+      (address) => !/^(\$[0-9a-f]+|0x[0-9a-f]+|\d+)$/i.test(address),
+    );
+    if (invalid !== undefined) {
+      this.sendError(
+        response,
+        ErrorCode.INVALID_CONFIGURATION,
+        `invalid segment address '${invalid}'`,
+      );
+      this.sendEvent(new TerminatedEvent());
+      return;
+    }
+    this.fixedSegments = segments?.map((address) =>
+      Number(address.replace(/^\$/, "0x")),
+    );
+    if (!(await this.initSession(response, args))) {
+      return;
+    }
+
+    let options: OpenOptions;
+    if (this.snapshotPath) {
+      logger.log(`Starting from snapshot ${this.snapshotPath}`);
+      options = { ...args.emulatorOptions, startFromSnapshot: true };
+    } else if (this.fastLoad) {
+      // Use fast loading - inject program directly into memory
+      logger.log("Using fast memory injection mode");
+      // Start emulator with no program
+      options = { ...args.emulatorOptions };
+    } else if (
+      args.emulatorOptions?.floppyPaths?.length ||
+      args.emulatorOptions?.hardDrivePath
+    ) {
+      if (this.fixedSegments) {
+        // Loaded without AmigaDOS, so there's no process to find. Attach before the program is loaded from the disks.
+        logger.log(
+          `Booting from disks, with the program at ${this.fixedSegments.map((s) => formatHex(s)).join(", ")}`,
+        );
+        options = { ...args.emulatorOptions, fixedSegments: true };
+      } else {
+        // Boot from disk images, and attach when the program is started from them
+        const processName = args.processName ?? path.basename(this.programPath);
+        logger.log(`Booting from disks, waiting for process ${processName}`);
+        this.sendEvent(
+          new OutputEvent(
+            `Waiting for the process ${processName} to start. Programs loaded without AmigaDOS, e.g. by a trackloader, need 'segments' in the launch configuration.\n`,
+          ),
+        );
+        options = { ...args.emulatorOptions, processName };
+      }
+    } else {
+      // Traditional loading via floppy disk emulation
+      options = { programPath: this.programPath, ...args.emulatorOptions };
+    }
+    this.startEmulator(response, args, options);
+  }
+
+  protected async attachRequest(
+    response: DebugProtocol.AttachResponse,
+    args: AttachRequestArguments,
+  ) {
+    if (!(await this.initSession(response, args))) {
+      return;
+    }
+    // Boot normally, and wait for the user to start the program
+    const processName = args.processName ?? path.basename(this.programPath);
+    logger.log(`Waiting for process ${processName}`);
+    this.startEmulator(response, args, {
+      ...args.emulatorOptions,
+      processName,
+      attach: true,
+    });
+  }
+
+  /**
+   * Sets up logging and reads debug symbols for a launch or attach request.
+   *
+   * @returns False if the session can't be started
+   */
+  private async initSession(
+    response: DebugProtocol.Response,
+    args: SessionArguments,
+  ): Promise<boolean> {
     // Register this as the active adapter
     VamigaDebugAdapter.activeAdapter = this;
 
@@ -267,7 +444,7 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
         "program not specified",
       );
       this.sendEvent(new TerminatedEvent());
-      return;
+      return false;
     }
 
     this.sendEvent(new OutputEvent(initOutput));
@@ -277,30 +454,10 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     logger.setup(args.trace ? LogLevel.Verbose : LogLevel.Warn);
 
     this.trace = args.trace ?? false;
-    this.fastLoad = args.fastLoad ?? false;
 
-    const debugProgram = args.debugProgram || this.programPath;
-    logger.log(`Reading debug symbols from ${debugProgram}`);
-
-    // Read debug symbols:
-    // We can support either Amiga hunks from vasm linedebug option, of elf files with dwarf data (must be a separate file).
-    // Elf is useful to have compatibility with bartman's profiler in a single build.
+    this.debugProgramPath = args.debugProgram || this.programPath;
     try {
-      const buffer = await readFile(debugProgram);
-      // Detect file format from extension
-      // TODO: could check file header instead of extension
-      if (debugProgram.match(/\.(elf|o)$/i)) {
-        logger.log("Interpreting as dwarf data");
-        this.dwarfData = parseDwarf(buffer);
-        // Still need hunks for loading
-        if (this.fastLoad) {
-          const hunkExeBuffer = await readFile(this.programPath);
-          this.hunks = parseHunks(hunkExeBuffer);
-        }
-      } else {
-        logger.log("Interpreting as hunk data");
-        this.hunks = parseHunks(buffer);
-      }
+      await this.readDebugSymbols();
     } catch (err) {
       this.sendError(
         response,
@@ -310,21 +467,62 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
       );
     }
 
-    try {
-      logger.log(`Starting emulator with program ${this.programPath}`);
+    for (const symbolFile of args.symbolFiles ?? []) {
+      try {
+        await this.addSymbolFile(symbolFile);
+      } catch (err) {
+        this.sendEvent(
+          new OutputEvent(
+            `Error reading debug symbols from ${symbolFile}: ${this.errorString(err)}\n`,
+            "stderr",
+          ),
+        );
+      }
+    }
+    return true;
+  }
 
+  /**
+   * Reads debug symbols from the debug program, and hunks to load from the program if they're separate.
+   *
+   * We can support either Amiga hunks from vasm linedebug option, of elf files with dwarf data (must be a separate file).
+   * Elf is useful to have compatibility with bartman's profiler in a single build.
+   */
+  private async readDebugSymbols() {
+    const debugProgram = this.debugProgramPath;
+    logger.log(`Reading debug symbols from ${debugProgram}`);
+    const buffer = await readFile(debugProgram);
+    // Detect file format from extension
+    // TODO: could check file header instead of extension
+    if (debugProgram.match(/\.(elf|o)$/i)) {
+      logger.log("Interpreting as dwarf data");
+      this.dwarfData = parseDwarf(buffer);
+      // Still need hunks for loading
       if (this.fastLoad) {
-        // Use fast loading - inject program directly into memory
-        logger.log("Using fast memory injection mode");
-        // Start emulator with no program
-        this.vAmiga.open(args.emulatorOptions);
-      } else {
-        // Traditional loading via floppy disk emulation
-        this.vAmiga.open({
-          programPath: this.programPath,
-          ...args.emulatorOptions,
-        });
+        const hunkExeBuffer = await readFile(this.programPath);
+        this.hunks = parseHunks(hunkExeBuffer);
       }
+    } else {
+      logger.log("Interpreting as hunk data");
+      this.hunks = parseHunks(buffer);
+    }
+  }
+
+  /**
+   * Opens the emulator and starts listening to it.
+   *
+   * @param response Launch or attach response to send
+   * @param args Session arguments
+   * @param options Options to open vAmiga with
+   */
+  private startEmulator(
+    response: DebugProtocol.Response,
+    args: SessionArguments,
+    options: OpenOptions,
+  ) {
+    try {
+      logger.log(`Starting emulator with program ${this.programPath}`);
+      this.vAmiga.open(options);
 
       // Add listeners to emulator
       this.disposables.push(
@@ -368,8 +566,8 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     response: DebugProtocol.ConfigurationDoneResponse,
   ): void {
     // All breakpoints etc are set by client now and we can continue...
-    if (this.stopOnEntry && this.fastLoad) {
-      // Fast load: send stop on entry event - we're already at this address
+    if (this.stopOnEntry && this.isStoppedAtStart()) {
+      // Fast load or snapshot: send stop on entry event - we're already stopped in the program
       const evt: DebugProtocol.StoppedEvent = new StoppedEvent(
         "entry",
         VamigaDebugAdapter.THREAD_ID,
@@ -386,12 +584,14 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
   }
 
   protected continueRequest(response: DebugProtocol.ContinueResponse): void {
-    this.vAmiga.run();
+    this.resume();
     response.body = { allThreadsContinued: true };
     this.sendResponse(response);
   }
 
   protected pauseRequest(response: DebugProtocol.PauseResponse): void {
+    this.lineStep = null;
+    this.stepOut = null;
     this.vAmiga.pause();
     this.sendResponse(response);
   }
@@ -425,8 +625,8 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
         startFrame,
         maxLevels,
         this.exceptionInstruction,
+        this.exceptionFrame,
       );
-      this.exceptionInstruction = null; // clear after using it once
       response.body = {
         stackFrames: stk,
         totalFrames: stk.length,
@@ -442,8 +642,15 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     }
   }
 
-  protected scopesRequest(response: DebugProtocol.ScopesResponse): void {
-    const scopes = this.variablesManager?.getScopes() ?? [];
+  protected scopesRequest(
+    response: DebugProtocol.ScopesResponse,
+    args: DebugProtocol.ScopesArguments,
+  ): void {
+    const scopes =
+      this.variablesManager?.getScopes(
+        this.stackManager?.getFrameState(args.frameId),
+        args.frameId === 0 ? (this.exceptionFrame ?? undefined) : undefined,
+      ) ?? [];
     response.body = { scopes };
     this.sendResponse(response);
   }
@@ -497,9 +704,10 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     args: DebugProtocol.StepInArguments,
   ): Promise<void> {
     try {
+      this.lastStepGranularity = args.granularity;
+      await this.startLineStep(false);
       this.stepping = true;
       this.isRunning = true;
-      this.lastStepGranularity = args.granularity;
       this.vAmiga.stepInto();
       this.sendResponse(response);
     } catch (err) {
@@ -514,29 +722,12 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
 
   protected async nextRequest(
     response: DebugProtocol.NextResponse,
+    args?: DebugProtocol.NextArguments,
   ): Promise<void> {
     try {
-      // vAmiga's built-in stepOver doesn't work correctly. It seems to only work with short branches.
-      // Need to implement this ourselves.
-
-      // Disassemble at pc to get current and next instruction.
-      const cpuInfo = await this.vAmiga.getCpuInfo();
-      const pc = Number(cpuInfo.pc);
-      const disasm = await this.vAmiga.disassemble(pc, 2);
-      const currInst = disasm?.instructions[0].instruction ?? "";
-      const next = disasm?.instructions[1];
-
-      // If current intruction is one of these i.e. it should eventually reach the next line,
-      // set tmp breakpoint on next instruction, otherwise just use built-in stepInto.
-      const isBranch = currInst.match(/^(jsr|bsr|dbra)/i);
-      if (next && isBranch) {
-        const addr = parseInt(next.addr, 16);
-        this.getBreakpointManager().setTmpBreakpoint(addr, "step");
-        this.vAmiga.run();
-      } else {
-        this.stepping = true;
-        this.vAmiga.stepInto();
-      }
+      this.lastStepGranularity = args?.granularity;
+      await this.startLineStep(true);
+      await this.stepOver();
       this.isRunning = true;
       this.sendResponse(response);
     } catch (err) {
@@ -549,43 +740,453 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     }
   }
 
+  /**
+   * Steps one instruction, running subroutine calls, traps and loops to completion.
+   *
+   * vAmiga's built-in stepOver doesn't work correctly. It seems to only work with short branches.
+   * Instead, a temporary breakpoint is set on the next instruction. In case the called code never
+   * returns there e.g. because it changes the return address, a temporary beamtrap at the current
+   * beam position stops it after one frame.
+   */
+  private async stepOver(): Promise<void> {
+    // Disassemble at pc to get current and next instruction.
+    const cpuInfo = await this.vAmiga.getCpuInfo();
+    const pc = Number(cpuInfo.pc);
+    const disasm = await this.vAmiga.disassemble(pc, 2);
+    const curr = disasm?.instructions[0];
+    const next = disasm?.instructions[1];
+
+    if (curr && next && isStepOverInstruction(curr.instruction, curr.hex)) {
+      const breakpointManager = this.getBreakpointManager();
+      breakpointManager.setTmpBreakpoint(parseInt(next.addr, 16), "step");
+      const { vpos, hpos } = await this.vAmiga.getBeamPosition();
+      breakpointManager.setTmpBeamtrap(vpos, hpos, "step");
+      this.vAmiga.run();
+    } else {
+      this.stepping = true;
+      this.vAmiga.stepInto();
+    }
+  }
+
+  /**
+   * Starts stepping by source line, unless stepping by instruction or there's no source at the pc.
+   *
+   * Step over runs through macro expansions as a single line, unless it starts inside the macro
+   * body, e.g. after explicitly stepping in.
+   *
+   * @param over Whether to step over calls
+   */
+  private async startLineStep(over: boolean): Promise<void> {
+    this.lineStep = null;
+    if (this.lastStepGranularity === "instruction" || !this.sourceMap) {
+      return;
+    }
+    const cpuInfo = await this.vAmiga.getCpuInfo();
+    const location = this.sourceMap.lookupAddress(Number(cpuInfo.pc));
+    if (!location) {
+      return;
+    }
+    const skipMacros =
+      over && !(await this.isInMacro(location.path, location.line));
+    this.lineStep = {
+      path: location.path,
+      line: location.line,
+      over,
+      skipMacros,
+      steps: 0,
+    };
+  }
+
+  /**
+   * Steps again if a line step is still on its starting line or in a skipped macro.
+   *
+   * @returns Whether another step was started
+   */
+  private async continueLineStep(): Promise<boolean> {
+    const step = this.lineStep;
+    this.lineStep = null;
+    if (!step) {
+      return false;
+    }
+    const cpuInfo = await this.vAmiga.getCpuInfo();
+    const location = this.sourceMap?.lookupAddress(Number(cpuInfo.pc));
+    if (!location) {
+      return false;
+    }
+    const sameLine = location.path === step.path && location.line === step.line;
+    if (
+      !sameLine &&
+      !(step.skipMacros && (await this.isInMacro(location.path, location.line)))
+    ) {
+      return false;
+    }
+    if (++step.steps >= VamigaDebugAdapter.MAX_LINE_STEPS) {
+      this.sendEvent(
+        new OutputEvent(
+          `Line step stopped after ${step.steps} instructions\n`,
+          "console",
+        ),
+      );
+      return false;
+    }
+
+    this.lineStep = step;
+    this.isRunning = true;
+    if (step.over) {
+      await this.stepOver();
+    } else {
+      this.stepping = true;
+      this.vAmiga.stepInto();
+    }
+    return true;
+  }
+
+  /**
+   * Checks whether a source line is in the body of a macro definition.
+   *
+   * @param sourcePath Source file path
+   * @param line Line number, 1-based
+   */
+  private async isInMacro(sourcePath: string, line: number): Promise<boolean> {
+    let ranges = this.macroRanges.get(sourcePath);
+    if (!ranges) {
+      try {
+        ranges = findMacroRanges(await readFile(sourcePath, "utf8"));
+      } catch {
+        // Source not available, so no macros to skip
+        ranges = [];
+      }
+      this.macroRanges.set(sourcePath, ranges);
+    }
+    return ranges.some(([start, end]) => line > start && line < end);
+  }
+
   protected async stepOutRequest(
     response: DebugProtocol.StepOutResponse,
   ): Promise<void> {
     try {
-      // vAmiga has no stepOut function, as it doesn't track stack frames. We need to use our guessed stack list to set a tmp breakpoint.
+      this.lineStep = null;
       const cpuInfo = await this.vAmiga.getCpuInfo();
-      const pc = Number(cpuInfo.pc);
-      const stackAddress = Number(cpuInfo.a7);
-      const stack = await this.getStackManager().guessStack(pc, stackAddress);
+      const frame = await this.getStackManager().getReturnFrame(
+        Number(cpuInfo.pc),
+        registersFromCpuInfo(cpuInfo),
+      );
+      // Without an unwound frame, step until the function or exception handler returns
+      await this.resumeStepOut({
+        ...(frame ?? { stackAddress: Number(cpuInfo.a7) }),
+        steps: 0,
+      });
+      this.sendResponse(response);
+    } catch (err) {
+      this.sendError(
+        response,
+        ErrorCode.STEP_ERROR,
+        "Step operation failed",
+        err,
+      );
+    }
+  }
 
-      // stack 0 is pc
-      if (stack[1]) {
-        this.getBreakpointManager().setTmpBreakpoint(stack[1][1], "step");
-        this.isRunning = true;
-        this.vAmiga.run();
-      } else {
-        this.stepping = true;
-        this.isRunning = true;
-        this.vAmiga.stepInto();
+  /**
+   * Runs to the return address of a step out, or steps one more instruction if it isn't known.
+   *
+   * vAmiga has no stepOut function, as it doesn't track stack frames.
+   */
+  private async resumeStepOut(step: StepOut): Promise<void> {
+    this.stepOut = step;
+    this.isRunning = true;
+    if (step.returnAddress !== undefined) {
+      // Limited to a frame like a step over, in case the return address is wrong
+      const breakpointManager = this.getBreakpointManager();
+      breakpointManager.setTmpBreakpoint(step.returnAddress, "step");
+      const { vpos, hpos } = await this.vAmiga.getBeamPosition();
+      breakpointManager.setTmpBeamtrap(vpos, hpos, "step");
+      this.vAmiga.run();
+      return;
+    }
+    const cpuInfo = await this.vAmiga.getCpuInfo();
+    const disasm = await this.vAmiga.disassemble(Number(cpuInfo.pc), 1);
+    step.returned = /^(rts|rte|rtr|rtd)\b/i
+      .exec(disasm?.instructions[0]?.instruction ?? "")?.[1]
+      .toLowerCase();
+    await this.stepOver();
+  }
+
+  /**
+   * Continues a step out until the stack pointer is above the frame.
+   *
+   * When running to a return address, stopping with a lower stack pointer means a recursive call
+   * returned there. When stepping, only a return instruction ends the step, as restoring saved
+   * registers also moves the stack pointer up.
+   *
+   * @returns Whether the step out was resumed
+   */
+  private async continueStepOut(): Promise<boolean> {
+    const step = this.stepOut;
+    this.stepOut = null;
+    if (!step) {
+      return false;
+    }
+    const cpuInfo = await this.vAmiga.getCpuInfo();
+    const stackAddress = Number(cpuInfo.a7);
+    if (step.returnAddress !== undefined) {
+      if (stackAddress >= step.stackAddress) {
+        return false;
+      }
+    } else if (
+      // RTE can switch to the user stack, so the stack pointer can't be compared afterwards
+      step.returned === "rte" ||
+      (step.returned && stackAddress > step.stackAddress)
+    ) {
+      return false;
+    } else if (++step.steps >= VamigaDebugAdapter.MAX_STEP_OUT_STEPS) {
+      this.sendEvent(
+        new OutputEvent(
+          `Step out stopped after ${step.steps} instructions, as the return address couldn't be found\n`,
+          "console",
+        ),
+      );
+      return false;
+    }
+    await this.resumeStepOut(step);
+    return true;
+  }
+
+  protected gotoTargetsRequest(
+    response: DebugProtocol.GotoTargetsResponse,
+    args: DebugProtocol.GotoTargetsArguments,
+  ): void {
+    try {
+      if (!args.source.path) {
+        // Sources without a path, e.g. from the disassembly view, name the instruction address to jump to
+        const address = Number(args.source.name?.replace(/^\$/, "0x"));
+        if (!args.source.name || !Number.isInteger(address)) {
+          throw new Error("Source has no path or instruction address");
+        }
+        response.body = {
+          targets: [
+            {
+              id: address,
+              label: formatHex(address),
+              line: args.line,
+              instructionPointerReference: formatHex(address),
+            },
+          ],
+        };
+        this.sendResponse(response);
+        return;
       }
+      const location = this.getSourceMap().lookupSourceLine(
+        args.source.path,
+        args.line,
+      );
+      response.body = {
+        targets: [
+          {
+            // Target ID is the address to jump to
+            id: location.address,
+            label: `${path.basename(location.path)}:${location.line}`,
+            line: location.line,
+            instructionPointerReference: formatHex(location.address),
+          },
+        ],
+      };
       this.sendResponse(response);
     } catch (err) {
       this.sendError(
         response,
         ErrorCode.STEP_ERROR,
-        "Step operation failed",
+        "Failed to get goto targets",
         err,
       );
     }
   }
 
+  protected async gotoRequest(
+    response: DebugProtocol.GotoResponse,
+    args: DebugProtocol.GotoArguments,
+  ): Promise<void> {
+    try {
+      await this.vAmiga.jump(args.targetId);
+      this.clearException();
+      this.sendResponse(response);
+      this.sendEvent(new StoppedEvent("goto", VamigaDebugAdapter.THREAD_ID));
+    } catch (err) {
+      this.sendError(
+        response,
+        ErrorCode.STEP_ERROR,
+        "Goto operation failed",
+        err,
+      );
+    }
+  }
+
+  /**
+   * Runs until the CPU reaches a source line, using a temporary breakpoint.
+   *
+   * @param sourcePath Path of the source file
+   * @param line Line number, 1-based
+   */
+  public runToLine(sourcePath: string, line: number): void {
+    const { address } = this.getSourceMap().lookupSourceLine(sourcePath, line);
+    this.getBreakpointManager().setTmpBreakpoint(address, "breakpoint");
+    this.resume();
+    // Not requested by the client, so it needs to be told
+    this.sendEvent(new ContinuedEvent(VamigaDebugAdapter.THREAD_ID));
+  }
+
+  /**
+   * Resumes execution, ending any step in progress.
+   */
+  private resume() {
+    this.lineStep = null;
+    this.stepOut = null;
+    this.clearException();
+    this.isRunning = true;
+    this.vAmiga.run();
+  }
+
+  /**
+   * Saves the full emulator state to a file, to restore later or start another session from.
+   *
+   * @param snapshotPath Path to save the snapshot to
+   */
+  public async saveSnapshot(snapshotPath: string): Promise<void> {
+    await saveSnapshot(this.vAmiga, snapshotPath, {
+      program: this.programPath,
+      segments: this.segmentOffsets,
+    });
+  }
+
+  /**
+   * Restores emulator state from a snapshot file, stopping at the restored state.
+   *
+   * @param snapshotPath Path of the snapshot file
+   */
+  public async restoreSnapshot(snapshotPath: string): Promise<void> {
+    const { data, info } = await readSnapshot(snapshotPath);
+    await this.vAmiga.loadSnapshot(data);
+    this.clearException();
+    this.lineStep = null;
+    this.stepOut = null;
+    this.getBreakpointManager().clearTmpBreakpoints();
+    this.isRunning = false;
+    if (!isDeepStrictEqual(info.segments, this.segmentOffsets)) {
+      this.sendEvent(
+        new OutputEvent(
+          `Snapshot was saved with ${path.basename(info.program)} loaded at different addresses. Source locations won't match.\n`,
+          "stderr",
+        ),
+      );
+    }
+    this.sendEvent(new StoppedEvent("restore", VamigaDebugAdapter.THREAD_ID));
+  }
+
+  /**
+   * Reloads the program after it's been rebuilt, without restarting the emulator.
+   *
+   * Frees the memory of the injected program, injects the new build and starts it from its entry point in user mode,
+   * with the stack it was first started with. Breakpoints are moved to their locations in the new build, and the step
+   * history is cleared. The rest of the machine state is kept. Only supported with fast loading, where the debugger
+   * allocates the program's memory itself.
+   */
+  public async hotReload(): Promise<void> {
+    if (!this.fastLoad || !this.loadedProgram) {
+      throw new Error("Hot reload needs a program loaded with fastLoad");
+    }
+    const breakpointManager = this.getBreakpointManager();
+    await this.readDebugSymbols();
+    if (this.isRunning) {
+      // Stop without reporting a pause, as the program is restarted
+      this.isRunning = false;
+      this.vAmiga.pause();
+    }
+
+    const { allocations, stackPointer } = this.loadedProgram;
+    await new AmigaHunkLoader(this.vAmiga).unloadProgram(this.loadedProgram);
+    this.loadedProgram = await loadAmigaProgram(
+      this.vAmiga,
+      this.hunks,
+      stackPointer,
+    );
+    // Stops in the old build can't be stepped back to
+    this.vAmiga.clearStepHistory();
+    const offsets = this.loadedProgram.allocations.map((s) => s.address);
+
+    this.profileManager?.stop();
+    this.createManagers(offsets);
+    for (const module of this.symbolModules) {
+      if (module.segments) {
+        this.getSourceMap().addModule(
+          sourceMapFromHunks(module.hunks, module.segments),
+          path.basename(module.path),
+        );
+      }
+    }
+    this.breakpointManager = breakpointManager;
+    for (const bp of breakpointManager.relocate(
+      this.getSourceMap(),
+      this.getEvaluateManager(),
+      allocations,
+    )) {
+      this.sendEvent(new BreakpointEvent("changed", bp));
+    }
+    this.clearException();
+    this.lineStep = null;
+    this.stepOut = null;
+    this.sendEvent(
+      new OutputEvent(
+        `Reloaded ${path.basename(this.programPath)} at ${formatHex(this.loadedProgram.entryPoint)}\n`,
+      ),
+    );
+
+    if (this.stopOnEntry) {
+      this.vAmiga.recordStop();
+      this.sendEvent(new StoppedEvent("entry", VamigaDebugAdapter.THREAD_ID));
+    } else {
+      this.vAmiga.run();
+    }
+  }
+
+  /**
+   * Runs until the copper executes its next instruction.
+   *
+   * vAmiga has no copper step function, so this sets temporary copper breakpoints on every
+   * instruction the copper could execute next: the following instruction, the one after a SKIP,
+   * and the start of either list in case of a jump or the start of the next frame.
+   */
+  public async copperStep(): Promise<void> {
+    const copper = await this.vAmiga.getCopperInfo();
+    const pc = Number(copper.coppc0);
+    const targets = new Set([
+      pc + 4,
+      Number(copper.cop1lc),
+      Number(copper.cop2lc),
+    ]);
+    const instruction = await this.vAmiga.readMemory(pc, 4);
+    const isSkip =
+      (instruction.readUInt16BE(0) & 1) === 1 &&
+      (instruction.readUInt16BE(2) & 1) === 1;
+    if (isSkip) {
+      targets.add(pc + 8);
+    }
+    for (const address of targets) {
+      this.getBreakpointManager().setTmpCopperBreakpoint(address, "step");
+    }
+    this.vAmiga.run();
+  }
+
   protected async stepBackRequest(
     response: DebugProtocol.StepBackResponse,
+    args?: DebugProtocol.StepBackArguments,
   ): Promise<void> {
     try {
-      await this.vAmiga.stepBack();
-      this.sendEvent(new StoppedEvent("step", VamigaDebugAdapter.THREAD_ID));
+      const { stops, maxStops } = await this.vAmiga.getStepHistory();
+      const target =
+        args?.granularity === "instruction"
+          ? stops.length - 2
+          : this.previousLineStop(stops);
+      await this.stepBackTo(stops, maxStops, target);
       this.sendResponse(response);
     } catch (err) {
       this.sendError(
@@ -601,8 +1202,16 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     response: DebugProtocol.ReverseContinueResponse,
   ): Promise<void> {
     try {
-      await this.vAmiga.continueReverse();
-      this.sendEvent(new StoppedEvent("step", VamigaDebugAdapter.THREAD_ID));
+      const { stops, maxStops } = await this.vAmiga.getStepHistory();
+      // Only stops which were reported as hits had their condition and hit count met
+      let target = stops.length - 2;
+      while (
+        target > 0 &&
+        !this.breakpointManager?.hasBreakpoint(stops[target].breakpointIds)
+      ) {
+        target--;
+      }
+      await this.stepBackTo(stops, maxStops, target);
       this.sendResponse(response);
     } catch (err) {
       this.sendError(
@@ -614,6 +1223,68 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     }
   }
 
+  /**
+   * Finds the most recent stop in the step history on a different source line to the current one.
+   *
+   * Stops deeper in the stack than the current one are skipped, to step back over calls. Where the
+   * current location has no source, this is just the previous stop.
+   *
+   * @param stops Step history, with the current stop last
+   * @returns Index of the stop in the history
+   */
+  private previousLineStop(stops: StepHistory["stops"]): number {
+    const current = stops[stops.length - 1];
+    const currentLine = current && this.sourceMap?.lookupAddress(current.pc);
+    let target = stops.length - 2;
+    if (!currentLine) {
+      return target;
+    }
+    for (; target > 0; target--) {
+      const { pc, sp } = stops[target];
+      if (sp < current.sp) {
+        continue; // In a called function
+      }
+      const line = this.sourceMap?.lookupAddress(pc);
+      if (
+        sp > current.sp ||
+        !line ||
+        line.path !== currentLine.path ||
+        line.line !== currentLine.line
+      ) {
+        break;
+      }
+    }
+    return target;
+  }
+
+  /**
+   * Restores a previous stop from the step history and reports how much history remains.
+   *
+   * @param stops Step history, with the current stop last
+   * @param maxStops Number of stops kept in the history
+   * @param target Index of the stop to restore
+   */
+  private async stepBackTo(
+    stops: StepHistory["stops"],
+    maxStops: number,
+    target: number,
+  ) {
+    if (target < 0) {
+      throw new Error(
+        `Start of step history reached. The last ${maxStops} stops are kept for stepping back.`,
+      );
+    }
+    await this.vAmiga.stepBack(stops.length - 1 - target);
+    this.clearException();
+    this.sendEvent(
+      new OutputEvent(
+        `Stepped back to ${formatHex(stops[target].pc)}. ${target} earlier stop${target === 1 ? "" : "s"} in history.\n`,
+        "console",
+      ),
+    );
+    this.sendEvent(new StoppedEvent("step", VamigaDebugAdapter.THREAD_ID));
+  }
+
   protected async setBreakPointsRequest(
     response: DebugProtocol.SetBreakpointsResponse,
     args: DebugProtocol.SetBreakpointsArguments,
@@ -660,14 +1331,15 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     }
   }
 
-  protected setFunctionBreakPointsRequest(
+  protected async setFunctionBreakPointsRequest(
     response: DebugProtocol.SetFunctionBreakpointsResponse,
     args: DebugProtocol.SetFunctionBreakpointsArguments,
-  ): void {
+  ): Promise<void> {
     try {
-      const breakpoints = this.getBreakpointManager().setFunctionBreakpoints(
-        args.breakpoints ?? [],
-      );
+      const breakpoints =
+        await this.getBreakpointManager().setFunctionBreakpoints(
+          args.breakpoints ?? [],
+        );
 
       response.body = { breakpoints };
       this.sendResponse(response);
@@ -769,6 +1441,89 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
         this.sendResponse(response);
         return;
       }
+
+      // Symbol names are case sensitive, so take expression arguments from the original input
+      const argsText = args.expression.trim().slice(firstWord.length).trim();
+
+      // Beamtrap command:
+      if (firstWord === "beam") {
+        if (!argsText.includes(",")) {
+          this.sendError(
+            response,
+            ErrorCode.EXPRESSION_EVALUATION_ERROR,
+            "Usage: beam <vpos>,<hpos>",
+          );
+          return;
+        }
+        vscode.debug.addBreakpoints([
+          new vscode.FunctionBreakpoint(`beam ${argsText}`),
+        ]);
+        this.sendResponse(response);
+        return;
+      }
+
+      // Copper commands:
+      if (firstWord === "cbreak") {
+        const expression = argsText;
+        if (!expression) {
+          this.sendError(
+            response,
+            ErrorCode.EXPRESSION_EVALUATION_ERROR,
+            "Usage: cbreak <address>",
+          );
+          return;
+        }
+        vscode.debug.addBreakpoints([
+          new vscode.FunctionBreakpoint(`copper ${expression}`),
+        ]);
+        this.sendResponse(response);
+        return;
+      }
+      if (firstWord === "symbols") {
+        const [symbolFile, ...segListArgs] = argsText.split(/\s+/g);
+        try {
+          if (symbolFile) {
+            // Optional expression for the segment list returned by LoadSeg
+            let segList: number | undefined;
+            if (segListArgs.length) {
+              segList = await this.getEvaluateManager().evaluateNumber(
+                segListArgs.join(" "),
+              );
+            }
+            const workspaceDir =
+              vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? "";
+            await this.addSymbolFile(
+              path.resolve(workspaceDir, symbolFile),
+              segList,
+            );
+          } else {
+            this.sendEvent(new OutputEvent(this.symbolModulesText()));
+          }
+          this.sendResponse(response);
+        } catch (err) {
+          this.sendError(
+            response,
+            ErrorCode.DEBUG_SYMBOLS_READ_ERROR,
+            "Error adding debug symbols",
+            err,
+          );
+        }
+        return;
+      }
+      if (firstWord === "cstep") {
+        try {
+          await this.copperStep();
+          this.sendResponse(response);
+        } catch (err) {
+          this.sendError(
+            response,
+            ErrorCode.STEP_ERROR,
+            "Copper step failed",
+            err,
+          );
+        }
+        return;
+      }
     }
 
     try {
@@ -899,6 +1654,7 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     try {
       const breakpoints = this.getBreakpointManager().setExceptionBreakpoints(
         args.filters,
+        args.filterOptions,
       );
 
       response.body = { breakpoints };
@@ -1003,10 +1759,167 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     } else if (isEmulatorOutputMessage(message)) {
       this.sendEvent(new OutputEvent(message.data + "\n"));
     } else if (isExecReadyMessage(message)) {
-      if (this.fastLoad) {
+      if (this.snapshotPath) {
+        await this.restoreStartSnapshot(this.snapshotPath);
+      } else if (this.fastLoad) {
         await this.injectProgram();
+      } else if (this.fixedSegments) {
+        this.attach(this.fixedSegments);
+      }
+    } else if (isModulesChangedMessage(message)) {
+      if (await this.findModules()) {
+        this.watchingModules = false;
+        this.vAmiga.unwatchModules();
+      }
+      if (this.isRunning) {
+        this.vAmiga.run();
+      }
+    }
+  }
+
+  /**
+   * Whether the emulator is already stopped in the program when configuration is done, rather than needing to run
+   * to the entry point.
+   */
+  private isStoppedAtStart(): boolean {
+    return this.fastLoad || !!this.snapshotPath;
+  }
+
+  /**
+   * Reads debug symbols for a module loaded at runtime. They're mapped once the module is found in memory, or straight
+   * away if its segment list is given.
+   *
+   * @param symbolFile Path of the hunk file
+   * @param segList BPTR to the module's segment list, as returned by LoadSeg
+   */
+  private async addSymbolFile(symbolFile: string, segList?: number) {
+    const buffer = await readFile(symbolFile);
+    if (buffer.subarray(0, 4).toString("latin1") === "\x7fELF") {
+      throw new Error(
+        `${path.basename(symbolFile)} is an ELF file. Symbol files need to be hunk files with line debug info.`,
+      );
+    }
+    const module: SymbolModule = {
+      path: symbolFile,
+      hunks: parseHunks(buffer),
+    };
+    this.symbolModules.push(module);
+    if (!this.sourceMap) {
+      // Modules are looked for once the program is attached
+      return;
+    }
+    if (segList) {
+      const segments = await new AmigaMemoryMapper(this.vAmiga).readSegList(
+        segList,
+      );
+      if (segments.length !== module.hunks.length) {
+        throw new Error(
+          `Segment list has ${segments.length} segments, but ${symbolFile} has ${module.hunks.length} hunks`,
+        );
+      }
+      this.loadModule(module, segments);
+    } else {
+      await this.watchForModules();
+      if (!module.segments) {
+        this.sendEvent(
+          new OutputEvent(
+            `Waiting for ${path.basename(symbolFile)} to be loaded\n`,
+          ),
+        );
+      }
+    }
+  }
+
+  /**
+   * Looks for symbol modules which are already loaded, and has the emulator stop to look again each time a task,
+   * library or device is added until all are found.
+   */
+  private async watchForModules() {
+    if ((await this.findModules()) || this.watchingModules) {
+      return;
+    }
+    this.watchingModules = true;
+    this.vAmiga.watchModules();
+  }
+
+  /**
+   * Looks for symbol modules in the exec process and library lists, and maps any that are found.
+   *
+   * @returns Whether all modules have been found
+   */
+  private async findModules(): Promise<boolean> {
+    const memoryMapper = new AmigaMemoryMapper(this.vAmiga);
+    try {
+      for (const module of this.symbolModules) {
+        if (module.segments) {
+          continue;
+        }
+        const segments = await memoryMapper.findModuleSegments(
+          path.basename(module.path),
+          module.hunks.map((hunk) => hunk.allocSize),
+        );
+        if (segments) {
+          this.loadModule(module, segments);
+        }
       }
+    } catch (error) {
+      // Memory can be inconsistent while the OS is updating the lists, so try again next time
+      logger.log(`Error finding modules: ${this.errorString(error)}`);
     }
+    return this.symbolModules.every((module) => module.segments);
+  }
+
+  /**
+   * Adds a module's debug symbols to the source map at its loaded segments, and sets any breakpoints in its sources.
+   *
+   * @param module Symbol module
+   * @param segments Addresses of the module's segments
+   */
+  private loadModule(module: SymbolModule, segments: number[]) {
+    module.segments = segments;
+    const name = path.basename(module.path);
+    try {
+      if (!this.sourceMap) {
+        throw new Error("No program attached");
+      }
+      this.sourceMap.addModule(
+        sourceMapFromHunks(module.hunks, segments),
+        name,
+      );
+      this.sendEvent(
+        new OutputEvent(
+          `Loaded debug symbols for ${name} at ${formatHex(segments[0])}\n`,
+        ),
+      );
+      for (const bp of this.breakpointManager?.resolvePendingBreakpoints() ??
+        []) {
+        this.sendEvent(new BreakpointEvent("changed", bp));
+      }
+    } catch (error) {
+      this.sendEvent(
+        new OutputEvent(
+          `Error loading debug symbols for ${name}: ${this.errorString(error)}\n`,
+          "stderr",
+        ),
+      );
+    }
+  }
+
+  /**
+   * Lists the symbol modules and where they're loaded, for the REPL.
+   */
+  private symbolModulesText(): string {
+    if (!this.symbolModules.length) {
+      return "No symbol files added\n";
+    }
+    return (
+      this.symbolModules
+        .map(
+          (module) =>
+            `${path.basename(module.path)}: ${module.segments ? module.segments.map((s) => formatHex(s)).join(", ") : "not loaded"}`,
+        )
+        .join("\n") + "\n"
+    );
   }
 
   /**
@@ -1035,6 +1948,28 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     }
   }
 
+  /**
+   * Restores the snapshot to start the session from, and attaches to the program segments saved with it.
+   *
+   * @param snapshotPath Path of the snapshot file
+   */
+  private async restoreStartSnapshot(snapshotPath: string) {
+    logger.log(`Restoring snapshot ${snapshotPath}`);
+    try {
+      const { data, info } = await readSnapshot(snapshotPath);
+      await this.vAmiga.loadSnapshot(data);
+      this.attach(info.segments);
+    } catch (error) {
+      this.sendEvent(
+        new OutputEvent(
+          `Fatal error restoring snapshot: ${this.errorString(error)}\n`,
+          "stderr",
+        ),
+      );
+      this.sendEvent(new TerminatedEvent());
+    }
+  }
+
   /**
    * Handles emulator attachment to a program.
    *
@@ -1044,37 +1979,19 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
    */
   private attach(offsets: number[]) {
     try {
-      if (this.dwarfData) {
-        // Elf doesn't contain absolute path of sources. Assume it's one level up e.g. `out/a.elf`
-        // TODO: find a better way to do this, add launch option, check files exist there
-        const baseDir = path.dirname(path.dirname(this.programPath));
-        this.sourceMap = sourceMapFromDwarf(this.dwarfData, offsets, baseDir);
-      } else if (this.hunks) {
-        this.sourceMap = sourceMapFromHunks(this.hunks, offsets);
-      } else {
-        throw new Error("No debug symbols");
-      }
+      this.createManagers(offsets);
 
-      // Initialize specialized manager classes for debugging functionality:
-      this.variablesManager = new VariablesManager(this.vAmiga, this.sourceMap);
-      this.breakpointManager = new BreakpointManager(
-        this.vAmiga,
-        this.sourceMap,
-      );
-      this.stackManager = new StackManager(this.vAmiga, this.sourceMap);
-      this.disassemblyManager = new DisassemblyManager(
-        this.vAmiga,
-        this.sourceMap,
-      );
-      this.evaluateManager = new EvaluateManager(
-        this.vAmiga,
-        this.sourceMap,
-        this.variablesManager,
-        this.disassemblyManager,
-      );
+      if (this.stopOnEntry && !this.isStoppedAtStart()) {
+        this.getBreakpointManager().setTmpBreakpoint(offsets[0], "entry");
+      }
 
-      if (this.stopOnEntry && !this.fastLoad) {
-        this.breakpointManager.setTmpBreakpoint(offsets[0], "entry");
+      // Modules need to be found again in the attached program's memory
+      for (const module of this.symbolModules) {
+        module.segments = undefined;
+      }
+      this.watchingModules = false;
+      if (this.symbolModules.length) {
+        this.watchForModules();
       }
       this.sendEvent(new InitializedEvent());
     } catch (error) {
@@ -1088,6 +2005,75 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     }
   }
 
+  /**
+   * Creates the source map for the program loaded at the given segment offsets, and the managers which use it.
+   *
+   * @param offsets Addresses of the program's segments
+   */
+  private createManagers(offsets: number[]) {
+    this.segmentOffsets = offsets;
+    let callFrames: CallFrameTable | undefined;
+    let dwarfVariables: DwarfVariables | undefined;
+    if (this.dwarfData) {
+      // Elf doesn't contain absolute path of sources. Assume it's one level up e.g. `out/a.elf`
+      // TODO: find a better way to do this, add launch option, check files exist there
+      const baseDir = path.dirname(path.dirname(this.programPath));
+      this.sourceMap = sourceMapFromDwarf(this.dwarfData, offsets, baseDir);
+      callFrames = callFrameTableFromDwarf(this.dwarfData, offsets);
+      dwarfVariables = variablesFromDwarf(this.dwarfData, offsets);
+    } else if (this.hunks) {
+      this.sourceMap = sourceMapFromHunks(this.hunks, offsets);
+    } else {
+      throw new Error("No debug symbols");
+    }
+
+    // Initialize specialized manager classes for debugging functionality:
+    this.variablesManager = new VariablesManager(
+      this.vAmiga,
+      this.sourceMap,
+      dwarfVariables,
+    );
+    this.stackManager = new StackManager(
+      this.vAmiga,
+      this.sourceMap,
+      callFrames,
+    );
+    this.disassemblyManager = new DisassemblyManager(
+      this.vAmiga,
+      this.sourceMap,
+    );
+    this.evaluateManager = new EvaluateManager(
+      this.vAmiga,
+      this.sourceMap,
+      this.variablesManager,
+      this.disassemblyManager,
+      dwarfVariables,
+    );
+    this.breakpointManager = new BreakpointManager(
+      this.vAmiga,
+      this.sourceMap,
+      this.evaluateManager,
+    );
+    // A recording in progress carries on, e.g. across a hot reload
+    if (this.traceManager) {
+      this.traceManager.setSourceMap(this.sourceMap);
+    } else {
+      this.traceManager = new TraceManager(
+        this.vAmiga,
+        this.sourceMap,
+        vscode.workspace
+          .getConfiguration("vamiga-debugger")
+          .get<number>("traceBufferSize", 10000),
+      );
+      this.traceManager.setRunning(this.isRunning);
+    }
+    this.profileManager = new ProfileManager(
+      this.vAmiga,
+      this.sourceMap,
+      this.stackManager,
+    );
+  }
+
   /**
    * Updates the debug session state based on emulator state changes.
    *
@@ -1099,9 +2085,13 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
   private async updateState(msg: EmulatorStateMessage) {
     const { state, message } = msg;
     logger.log(`State: ${state}, ${JSON.stringify(message)}`);
+    this.clearException();
+    this.traceManager?.setRunning(state === "running");
     if (state === "paused") {
       if (this.isRunning) {
         this.isRunning = false;
+        await this.captureTrace();
+        this.sendBreakpointChanges();
         this.sendEvent(new StoppedEvent("pause", VamigaDebugAdapter.THREAD_ID));
       }
     } else if (state === "running") {
@@ -1113,7 +2103,7 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
       if (this.stepping) {
         await this.handleStep();
       } else {
-        this.handleStop(message);
+        await this.handleStop(message);
       }
     }
   }
@@ -1128,6 +2118,12 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     // Special case for built-in stepIn function. No actual breakpoints used.
     this.isRunning = false;
     this.stepping = false;
+    await this.captureTrace();
+    if ((await this.continueLineStep()) || (await this.continueStepOut())) {
+      return;
+    }
+    // Only the stop at the end of a line step is recorded, so its steps don't fill the history
+    this.vAmiga.recordStop();
     const evt = new StoppedEvent("step", VamigaDebugAdapter.THREAD_ID);
 
     // Fake stop reason as 'instruction breakpoint' to allow selecting a stack frame with no source, and open disassembly
@@ -1151,6 +2147,19 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     this.sendEvent(evt);
   }
 
+  /**
+   * Sends breakpoint changes held since the last stop.
+   *
+   * Hits which are resumed, e.g. logpoints or unmet hit conditions, only update the client when the emulator
+   * stops, rather than on every hit while it's running.
+   */
+  private sendBreakpointChanges() {
+    for (const bp of this.breakpointChanges.values()) {
+      this.sendEvent(new BreakpointEvent("changed", bp));
+    }
+    this.breakpointChanges.clear();
+  }
+
   /**
    * Handles emulator stop events (breakpoints, watchpoints, exceptions).
    *
@@ -1169,11 +2178,35 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     this.isRunning = false;
 
     if (!this.breakpointManager) {
+      this.vAmiga.recordStop();
       this.sendEvent(evt);
       return;
     }
 
-    const result = this.breakpointManager.handleBreakpointStop(message);
+    const result = await this.breakpointManager.handleBreakpointStop(message);
+    for (const bp of result.changedBreakpoints ?? []) {
+      this.breakpointChanges.set(bp.id!, bp);
+    }
+    if (result.output !== undefined) {
+      this.sendEvent(new OutputEvent(result.output + "\n", "console"));
+    }
+    if (result.resume) {
+      await this.captureTrace();
+      this.isRunning = true;
+      this.vAmiga.run();
+      return;
+    }
+    this.sendBreakpointChanges();
+    // Stopping for any reason ends a step in progress
+    this.breakpointManager.clearTmpBreakpoints();
+    if (result.reason === "step" && result.output === undefined) {
+      await this.captureTrace();
+      if ((await this.continueLineStep()) || (await this.continueStepOut())) {
+        return;
+      }
+    }
+    this.lineStep = null;
+    this.stepOut = null;
     evt.body.reason = result.reason;
     if (result.text) {
       evt.body.text = result.text;
@@ -1182,26 +2215,35 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
       evt.body.hitBreakpointIds = result.hitBreakpointIds;
     }
 
-    if (result.reason === "exception") {
-      try {
-        // Get last instruction executed before exception
-        // The current PC is the exception vector handler, so we need to step back one instruction
-        // If the previous instruction is not in supervisor mode, we need to use the user stack for the next stack frame request
-        const trace = await this.vAmiga.getCpuTrace(1);
-        if (trace[0]) {
-          const lastInst = trace[0];
-          const isSupervisor = lastInst.flags.includes("S");
-          const address = parseInt(lastInst.pc, 16);
-          this.exceptionInstruction = { address, isSupervisor };
-        }
-      } catch (error) {
-        console.warn("Failed to get CPU trace:", error);
-      }
-    }
+    // The current PC is the exception vector handler, so the stack starts from the faulting instruction
+    this.exceptionInstruction = result.exceptionInstruction ?? null;
+    this.exceptionFrame = result.exceptionFrame ?? null;
 
+    // Capture after reading the exception instruction, as this clears the emulator log
+    await this.captureTrace();
+    this.vAmiga.recordStop(result.hitBreakpointIds);
     this.sendEvent(evt);
   }
 
+  /**
+   * Clears the exception state when the emulator moves on from an exception stop.
+   */
+  private clearException() {
+    this.exceptionInstruction = null;
+    this.exceptionFrame = null;
+  }
+
+  /**
+   * Collects the emulator CPU log into the trace recording, if active.
+   */
+  private async captureTrace() {
+    try {
+      await this.traceManager?.capture();
+    } catch (error) {
+      console.warn("Failed to capture CPU trace:", error);
+    }
+  }
+
   /**
    * Converts an error to a string representation.
    *
@@ -1236,6 +2278,10 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     });
   }
 
+  public isEmulatorRunning(): boolean {
+    return this.isRunning;
+  }
+
   public getStackManager(): StackManager {
     if (!this.stackManager) {
       throw new Error("Not initialized");
@@ -1271,6 +2317,20 @@ export class VamigaDebugAdapter extends LoggingDebugSession {
     return this.evaluateManager;
   }
 
+  public getTraceManager(): TraceManager {
+    if (!this.traceManager) {
+      throw new Error("Not initialized");
+    }
+    return this.traceManager;
+  }
+
+  public getProfileManager(): ProfileManager {
+    if (!this.profileManager) {
+      throw new Error("Not initialized");
+    }
+    return this.profileManager;
+  }
+
   public getSourceMap(): SourceMap {
     if (!this.sourceMap) {
       throw new Error("Not initialized");
@@ -17,6 +17,18 @@ import {
 } from "./numbers";
 import * as registerParsers from "./amigaRegisterParsers";
 import { DisassemblyValue, MemoryArrayValue } from "./evaluateManager";
+import {
+  DwarfType,
+  DwarfVariable,
+  DwarfVariables,
+  VariableLocation,
+  formatString,
+  formatTypedValue,
+  isCharType,
+  readMember,
+} from "./dwarfVariables";
+import { FrameState } from "./stackManager";
+import { ExceptionFrame, FORMAT_NAMES } from "./exceptionFrame";
 
 /**
  * Manages variable inspection and scoping for the debug adapter.
@@ -25,6 +37,8 @@ import { DisassemblyValue, MemoryArrayValue } from "./evaluateManager";
  * - CPU registers (data, address, status, and special registers)
  * - Custom chip registers with bit-field breakdowns
  * - Interrupt vectors with address resolution
+ * - Local variables and parameters of C stack frames, from DWARF debug info
+ * - Exception stack frame when stopped on an exception
  * - Source symbols with pointer dereferencing
  * - Memory segments information
  */
@@ -35,8 +49,41 @@ export interface ArrayValue {
   data: any;
 }
 
+// Locals scope for a stack frame
+interface FrameLocals {
+  type: "locals";
+  frame: FrameState;
+}
+
+// Struct, union or array in memory, or the target of a pointer
+interface TypedValue {
+  type: "typed";
+  valueType: DwarfType;
+  address: number;
+  /** Name of the pointer, for dereferenced values */
+  pointerName?: string;
+}
+
+// Exception scope for a stop on an exception
+interface ExceptionScope {
+  type: "exception";
+  frame: ExceptionFrame;
+}
+
+type VariableHandle =
+  | string
+  | ArrayValue
+  | FrameLocals
+  | TypedValue
+  | ExceptionScope;
+
+// Limit on array elements to read for expanding an array
+const MAX_ARRAY_ELEMENTS = 1000;
+// Bytes to read for a string preview of a char pointer
+const STRING_PREVIEW_LENGTH = 64;
+
 export class VariablesManager {
-  private variableHandles = new Handles<string | ArrayValue>();
+  private variableHandles = new Handles<VariableHandle>();
   private locationHandles = new Handles<Location>();
 
   /**
@@ -44,14 +91,25 @@ export class VariablesManager {
    *
    * @param vAmiga VAmiga instance for reading registers and memory
    * @param sourceMap Source map for symbol resolution and address formatting
+   * @param dwarfVariables Local variable info for C programs, from DWARF debug info
    */
   constructor(
     private vAmiga: VAmiga,
     private sourceMap: SourceMap,
+    private dwarfVariables?: DwarfVariables,
   ) {}
 
-  public getScopes(): DebugProtocol.Scope[] {
-    return [
+  /**
+   * Gets scopes for a stack frame.
+   *
+   * @param frame State of the selected frame, used to show a Locals scope when debug info is available
+   * @param exceptionFrame Stack frame pushed by an exception, shown in an Exception scope
+   */
+  public getScopes(
+    frame?: FrameState,
+    exceptionFrame?: ExceptionFrame,
+  ): DebugProtocol.Scope[] {
+    const scopes: DebugProtocol.Scope[] = [
       new Scope(
         "CPU Registers",
         this.variableHandles.create("registers"),
@@ -66,6 +124,28 @@ export class VariablesManager {
       new Scope("Symbols", this.variableHandles.create("symbols"), false),
       new Scope("Segments", this.variableHandles.create("segments"), false),
     ];
+    if (frame && this.dwarfVariables?.getVariables(frame.pc).length) {
+      const locals: DebugProtocol.Scope = new Scope(
+        "Locals",
+        this.variableHandles.create({ type: "locals", frame }),
+        false,
+      );
+      locals.presentationHint = "locals";
+      scopes.unshift(locals);
+    }
+    if (exceptionFrame) {
+      scopes.unshift(
+        new Scope(
+          "Exception",
+          this.variableHandles.create({
+            type: "exception",
+            frame: exceptionFrame,
+          }),
+          false,
+        ),
+      );
+    }
+    return scopes;
   }
 
   public async getVariables(
@@ -73,9 +153,18 @@ export class VariablesManager {
   ): Promise<DebugProtocol.Variable[]> {
     const id = this.variableHandles.get(variableReference);
 
-    // Check if this is an array value from evaluate manager
     if (typeof id === "object" && id !== null) {
-      return this.getArrayVariables(id as ArrayValue);
+      if (id.type === "locals") {
+        return this.localVariables(id.frame);
+      }
+      if (id.type === "typed") {
+        return this.typedChildren(id);
+      }
+      if (id.type === "exception") {
+        return this.exceptionVariables(id.frame);
+      }
+      // Array value from evaluate manager
+      return this.getArrayVariables(id);
     }
 
     if (id === "registers") {
@@ -295,11 +384,80 @@ export class VariablesManager {
     return variables;
   }
 
+  /**
+   * Gets the fields of an exception stack frame.
+   */
+  public exceptionVariables(frame: ExceptionFrame): DebugProtocol.Variable[] {
+    const readOnly = { attributes: ["readOnly"] };
+    const address = (name: string, value: number): DebugProtocol.Variable => ({
+      name,
+      value: formatAddress(value, this.sourceMap),
+      memoryReference: formatHex(value),
+      variablesReference: 0,
+      presentationHint: readOnly,
+    });
+    const variables: DebugProtocol.Variable[] = [
+      {
+        name: "vector",
+        value: `${frame.vector} (${vectors[frame.vector] ?? "unknown"})`,
+        variablesReference: 0,
+        presentationHint: readOnly,
+      },
+      {
+        name: "sr",
+        value: formatHex(frame.sr, 4),
+        variablesReference: 0,
+        presentationHint: readOnly,
+      },
+      address("pc", frame.pc),
+    ];
+    if (frame.format !== undefined) {
+      variables.push({
+        name: "format",
+        value: `${formatHex(frame.format, 1)} (${FORMAT_NAMES[frame.format]})`,
+        variablesReference: 0,
+        presentationHint: readOnly,
+      });
+    }
+    if (frame.instructionAddress !== undefined) {
+      variables.push(address("instructionAddress", frame.instructionAddress));
+    }
+    if (frame.accessAddress !== undefined) {
+      variables.push(address("accessAddress", frame.accessAddress));
+    }
+    if (frame.faultStatus !== undefined) {
+      const access = [
+        frame.read ? "read" : "write",
+        frame.instructionFetch ? "instruction" : "data",
+        `FC=${frame.functionCode}`,
+      ];
+      variables.push({
+        name: "faultStatus",
+        value: `${formatHex(frame.faultStatus, 4)} (${access.join(", ")})`,
+        variablesReference: 0,
+        presentationHint: readOnly,
+      });
+    }
+    if (frame.instructionRegister !== undefined) {
+      variables.push({
+        name: "instructionRegister",
+        value: formatHex(frame.instructionRegister, 4),
+        variablesReference: 0,
+        presentationHint: readOnly,
+      });
+    }
+    return variables;
+  }
+
   public async symbolVariables(): Promise<DebugProtocol.Variable[]> {
     const symbolLengths = this.sourceMap.getSymbolLengths();
     const symbols = this.sourceMap.getSymbols();
     const variables = await Promise.all(
       Object.keys(symbols).map(async (name) => {
+        const global = this.dwarfVariables?.getGlobal(name);
+        if (global?.type && global.address === symbols[name]) {
+          return this.globalVariable(name, global.type, global.address);
+        }
         let value = formatHex(symbols[name]);
         const length = symbolLengths?.[name] ?? 0;
         let variablesReference = 0;
@@ -346,6 +504,45 @@ export class VariablesManager {
     return variables;
   }
 
+  /**
+   * Creates a variable for a global with DWARF type information.
+   *
+   * @param name Variable name
+   * @param type Variable type
+   * @param address Memory address
+   */
+  public async globalVariable(
+    name: string,
+    type: DwarfType,
+    address: number,
+  ): Promise<DebugProtocol.Variable> {
+    // Only the start of large values is needed for the preview
+    const data = await this.vAmiga.readMemory(
+      address,
+      Math.min(type.size || 4, STRING_PREVIEW_LENGTH),
+    );
+    const variable = await this.typedVariable(name, type, data, address);
+    const loc = this.sourceMap?.lookupAddress(address);
+    if (loc) {
+      variable.declarationLocationReference = this.locationHandles.create(loc);
+    }
+    return variable;
+  }
+
+  /**
+   * Gets local variables and parameters in scope for a stack frame.
+   *
+   * @param frame Frame state from the stack manager
+   */
+  public async localVariables(
+    frame: FrameState,
+  ): Promise<DebugProtocol.Variable[]> {
+    const variables = this.dwarfVariables?.getVariables(frame.pc) ?? [];
+    return Promise.all(
+      variables.map((variable) => this.localVariable(variable, frame)),
+    );
+  }
+
   public symbolPointerVariables(id: string): DebugProtocol.Variable[] {
     const [_name, lengthStr, valueStr] = id
       .replace("symbol_ptr_", "")
@@ -399,7 +596,7 @@ export class VariablesManager {
     return variables;
   }
 
-  public getVariableReference(variableReference: number): string | ArrayValue {
+  public getVariableReference(variableReference: number): VariableHandle {
     return this.variableHandles.get(variableReference);
   }
 
@@ -428,6 +625,202 @@ export class VariablesManager {
     return [];
   }
 
+  private async localVariable(
+    variable: DwarfVariable,
+    frame: FrameState,
+  ): Promise<DebugProtocol.Variable> {
+    const result: DebugProtocol.Variable = {
+      name: variable.name,
+      value: "<optimized out>",
+      type: variable.type?.name,
+      variablesReference: 0,
+    };
+    if (!this.dwarfVariables) {
+      return result;
+    }
+    try {
+      const location = await this.dwarfVariables.getLocation(
+        variable,
+        frame.pc,
+        {
+          registers: frame.registers ?? [],
+          cfa: frame.cfa,
+          peek32: (address) => this.vAmiga.peek32(address),
+        },
+      );
+      if (location) {
+        const data = await this.readLocation(
+          location,
+          variable.type?.size || 4,
+          frame,
+        );
+        const address =
+          location.kind === "memory" ? location.address : undefined;
+        return await this.typedVariable(
+          variable.name,
+          variable.type,
+          data,
+          address,
+        );
+      }
+    } catch (error) {
+      result.value = `<${error instanceof Error ? error.message : String(error)}>`;
+    }
+    return result;
+  }
+
+  /**
+   * Creates a variable for a value with a DWARF type.
+   *
+   * Structs, unions and arrays in memory can be expanded to show their
+   * members, and valid pointers to show the value they point to.
+   *
+   * @param name Variable name
+   * @param type Value type
+   * @param data Value bytes, big endian
+   * @param address Memory address of the value, if it's in memory
+   */
+  public async typedVariable(
+    name: string,
+    type: DwarfType | undefined,
+    data: Buffer,
+    address?: number,
+  ): Promise<DebugProtocol.Variable> {
+    const variable: DebugProtocol.Variable = {
+      name,
+      value: formatTypedValue(data, type, this.sourceMap),
+      type: type?.name,
+      variablesReference: 0,
+    };
+    if (address !== undefined) {
+      variable.memoryReference = formatHex(address);
+    }
+    if (!type) {
+      return variable;
+    }
+
+    if (type.kind === "pointer" && data.length >= 4) {
+      // Pointers reference their target, like address registers
+      const target = data.readUInt32BE(0);
+      variable.memoryReference = formatHex(target);
+      if (
+        target !== 0 &&
+        type.target &&
+        type.target.kind !== "void" &&
+        type.target.kind !== "function" &&
+        this.vAmiga.isValidAddress(target)
+      ) {
+        variable.variablesReference = this.variableHandles.create({
+          type: "typed",
+          valueType: type.target,
+          address: target,
+          pointerName: name,
+        });
+        if (isCharType(type.target)) {
+          const str = await this.vAmiga.readMemory(
+            target,
+            STRING_PREVIEW_LENGTH,
+          );
+          variable.value += " " + formatString(str);
+        }
+      }
+    } else if (
+      address !== undefined &&
+      (type.kind === "struct" ||
+        type.kind === "union" ||
+        (type.kind === "array" && type.count))
+    ) {
+      variable.variablesReference = this.variableHandles.create({
+        type: "typed",
+        valueType: type,
+        address,
+      });
+    }
+    return variable;
+  }
+
+  /**
+   * Gets the members of a struct or union, elements of an array or the
+   * target of a pointer.
+   */
+  private async typedChildren(
+    value: TypedValue,
+  ): Promise<DebugProtocol.Variable[]> {
+    const { valueType, address, pointerName } = value;
+
+    if (valueType.kind === "struct" || valueType.kind === "union") {
+      const data = await this.vAmiga.readMemory(address, valueType.size);
+      return Promise.all(
+        (valueType.members ?? []).map((member) =>
+          this.typedVariable(
+            member.name,
+            member.type,
+            readMember(data, member),
+            member.bitSize === undefined ? address + member.offset : undefined,
+          ),
+        ),
+      );
+    }
+
+    if (valueType.kind === "array" && valueType.target && !pointerName) {
+      const element = valueType.target;
+      const count = Math.min(valueType.count ?? 0, MAX_ARRAY_ELEMENTS);
+      const data = await this.vAmiga.readMemory(address, count * element.size);
+      const variables: DebugProtocol.Variable[] = [];
+      for (let i = 0; i < count; i++) {
+        const offset = i * element.size;
+        variables.push(
+          await this.typedVariable(
+            `[${i}]`,
+            element,
+            data.subarray(offset, offset + element.size),
+            address + offset,
+          ),
+        );
+      }
+      return variables;
+    }
+
+    // Dereferenced pointer to a single value
+    const data = await this.vAmiga.readMemory(address, valueType.size || 4);
+    return [
+      await this.typedVariable(`*${pointerName}`, valueType, data, address),
+    ];
+  }
+
+  /**
+   * Reads the bytes of a value from its location.
+   *
+   * Values smaller than a register or expression result use the low-order bytes.
+   */
+  private async readLocation(
+    location: VariableLocation,
+    size: number,
+    frame: FrameState,
+  ): Promise<Buffer> {
+    let value: number;
+    switch (location.kind) {
+      case "memory":
+        return this.vAmiga.readMemory(location.address, size);
+      case "bytes":
+        return Buffer.from(location.bytes);
+      case "register": {
+        const registerValue = frame.registers?.[location.register];
+        if (registerValue === undefined) {
+          throw new Error("Register unavailable in this frame");
+        }
+        value = registerValue;
+        break;
+      }
+      case "value":
+        value = location.value;
+        break;
+    }
+    const data = Buffer.alloc(4);
+    data.writeUInt32BE(value >>> 0);
+    return size < 4 ? data.subarray(4 - size) : data;
+  }
+
   private castIntVar(
     value: number,
     fn: (v: number) => number,
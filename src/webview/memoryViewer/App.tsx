@@ -8,6 +8,7 @@ import { CopperView } from "./CopperView";
 import { DisassemblyView } from "./DisassemblyView";
 import "./App.css";
 import {
+  CopperState,
   GetSuggestionsMessage,
   MemoryDataMessage,
   MemoryRange,
@@ -46,6 +47,7 @@ export function App() {
     new Map(),
   );
   const [scrollResetTrigger, setScrollResetTrigger] = useState(0);
+  const [copperState, setCopperState] = useState<CopperState | undefined>();
 
   // Send ready message on mount
   useEffect(() => {
@@ -75,6 +77,9 @@ export function App() {
       }
       if (pendingUpdate.liveUpdate !== undefined)
         setLiveUpdate(pendingUpdate.liveUpdate);
+      if (pendingUpdate.copper !== undefined) {
+        setCopperState(pendingUpdate.copper);
+      }
       if (pendingUpdate.error !== undefined) {
         setError(pendingUpdate.error);
       }
@@ -226,6 +231,13 @@ export function App() {
     });
   }, []);
 
+  const toggleCopperBreakpoint = useCallback((address: number) => {
+    vscode.postMessage({
+      command: "toggleCopperBreakpoint",
+      address,
+    });
+  }, []);
+
   const handleRegionChange: React.FormEventHandler<HTMLSelectElement> = (e) => {
     const addressValue = Number((e.target as HTMLSelectElement).value);
     if (isNaN(addressValue)) {
@@ -393,6 +405,8 @@ export function App() {
                 memoryChunks={memoryChunks}
                 onRequestMemory={requestMemory}
                 scrollResetTrigger={scrollResetTrigger}
+                copperState={copperState}
+                onToggleBreakpoint={toggleCopperBreakpoint}
               />
             )}
           </vscode-tab-panel>
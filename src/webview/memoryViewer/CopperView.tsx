@@ -1,7 +1,7 @@
 import { useState, useRef, useEffect, useCallback } from "react";
 import { disassembleCopperInstruction, CopperInstruction } from "./copperDisassembler";
 import "./CopperView.css";
-import { MemoryRange } from "../../shared/memoryViewerTypes";
+import { CopperState, MemoryRange } from "../../shared/memoryViewerTypes";
 
 export interface CopperViewProps {
   target: MemoryRange;
@@ -11,12 +11,15 @@ export interface CopperViewProps {
   memoryChunks: Map<number, Uint8Array>;
   onRequestMemory: (range: MemoryRange) => void;
   scrollResetTrigger?: number;
+  copperState?: CopperState;
+  onToggleBreakpoint?: (address: number) => void;
 }
 
 const CHUNK_SIZE = 1024;
 const INSTRUCTION_SIZE = 4; // Copper instructions are always 4 bytes (2 words)
 const LINE_HEIGHT = 20;
 const BUFFER_LINES = 20;
+const GUTTER_WIDTH = 20;
 
 export function CopperView({
   target,
@@ -24,6 +27,8 @@ export function CopperView({
   memoryChunks,
   onRequestMemory,
   scrollResetTrigger,
+  copperState,
+  onToggleBreakpoint,
 }: CopperViewProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -105,6 +110,14 @@ export function CopperView({
     const numberColor =
       styles.getPropertyValue("--vscode-symbolIcon-numberForeground").trim() ||
       "#b5cea8";
+    const currentLineColor =
+      styles
+        .getPropertyValue("--vscode-editor-stackFrameHighlightBackground")
+        .trim() || "rgba(255, 255, 0, 0.2)";
+    const breakpointColor =
+      styles
+        .getPropertyValue("--vscode-debugIcon-breakpointForeground")
+        .trim() || "#e51400";
 
     const canvasHeight = (visibleRange.lastLine - visibleRange.firstLine) * LINE_HEIGHT;
     const canvasWidth = containerRef.current?.clientWidth || 800;
@@ -122,16 +135,31 @@ export function CopperView({
 
     for (let i = visibleRange.firstLine; i < visibleRange.lastLine; i++) {
       const y = (i - visibleRange.firstLine) * LINE_HEIGHT;
+      const address = startAddress + i * INSTRUCTION_SIZE;
+
+      // Highlight current copper instruction
+      if (copperState?.pc === address) {
+        ctx.fillStyle = currentLineColor;
+        ctx.fillRect(0, y, canvasWidth, LINE_HEIGHT);
+      }
+
+      if (copperState?.breakpoints.includes(address)) {
+        ctx.fillStyle = breakpointColor;
+        ctx.beginPath();
+        ctx.arc(GUTTER_WIDTH / 2, y + LINE_HEIGHT / 2, 5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+
       const instr = disassembleLine(i);
 
       if (!instr) {
         // Show placeholder for missing data
         ctx.fillStyle = commentColor;
-        ctx.fillText("???????? ????????", 10, y + 2);
+        ctx.fillText("???????? ????????", GUTTER_WIDTH, y + 2);
         continue;
       }
 
-      let x = 10;
+      let x = GUTTER_WIDTH;
 
       // Address
       ctx.fillStyle = commentColor;
@@ -157,12 +185,37 @@ export function CopperView({
       x += 200;
 
       // Comment
+      const comments = [];
       if (instr.comment) {
+        comments.push(instr.comment);
+      }
+      // Show start of copper lists
+      if (copperState?.cop1lc === address) {
+        comments.push("COP1LC");
+      }
+      if (copperState?.cop2lc === address) {
+        comments.push("COP2LC");
+      }
+      if (comments.length) {
         ctx.fillStyle = commentColor;
-        ctx.fillText("; " + instr.comment, x, y + 2);
+        ctx.fillText("; " + comments.join(", "), x, y + 2);
       }
     }
-  }, [visibleRange, disassembleLine]);
+  }, [visibleRange, disassembleLine, startAddress, copperState]);
+
+  // Toggle breakpoint on gutter click
+  const handleCanvasClick = useCallback(
+    (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!onToggleBreakpoint || e.nativeEvent.offsetX > GUTTER_WIDTH) {
+        return;
+      }
+      const line =
+        visibleRange.firstLine +
+        Math.floor(e.nativeEvent.offsetY / LINE_HEIGHT);
+      onToggleBreakpoint(startAddress + line * INSTRUCTION_SIZE);
+    },
+    [onToggleBreakpoint, visibleRange, startAddress],
+  );
 
   // Clear requested chunks on target address change
   useEffect(() => {
@@ -244,6 +297,7 @@ export function CopperView({
           <canvas
             ref={canvasRef}
             className="copper-canvas"
+            onClick={handleCanvasClick}
             style={{
               top: `${visibleRange.firstLine * LINE_HEIGHT}px`,
             }}
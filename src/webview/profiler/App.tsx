@@ -0,0 +1,232 @@
+import { useState, useEffect, useMemo } from "react";
+import "@vscode-elements/elements";
+import "./App.css";
+import {
+  FunctionHotspot,
+  LineHotspot,
+  ProfileReport,
+  UpdateProfileMessage,
+} from "../../shared/profilerTypes";
+
+const vscode = acquireVsCodeApi();
+
+interface Column<T> {
+  label: string;
+  numeric?: boolean;
+  value: (row: T) => string | number;
+  render?: (row: T) => React.ReactNode;
+}
+
+interface SortState {
+  column: number;
+  descending: boolean;
+}
+
+function percent(samples: number, total: number): string {
+  return ((samples / total) * 100).toFixed(1) + "%";
+}
+
+function basename(path: string): string {
+  return path.split(/[\\/]/).pop() ?? path;
+}
+
+function openLocation(path?: string, line?: number) {
+  if (path && line) {
+    vscode.postMessage({ command: "openLocation", path, line });
+  }
+}
+
+interface HotspotTableProps<T> {
+  rows: T[];
+  columns: Column<T>[];
+  defaultSort: SortState;
+  getLocation: (row: T) => { path?: string; line?: number };
+}
+
+function HotspotTable<T>({
+  rows,
+  columns,
+  defaultSort,
+  getLocation,
+}: HotspotTableProps<T>) {
+  const [sort, setSort] = useState<SortState>(defaultSort);
+
+  const sortedRows = useMemo(() => {
+    const { value } = columns[sort.column];
+    return [...rows].sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      const cmp =
+        typeof va === "number" && typeof vb === "number"
+          ? va - vb
+          : String(va).localeCompare(String(vb));
+      return sort.descending ? -cmp : cmp;
+    });
+  }, [rows, columns, sort]);
+
+  const handleSort = (column: number) => {
+    setSort((prev) =>
+      prev.column === column
+        ? { column, descending: !prev.descending }
+        : { column, descending: !!columns[column].numeric },
+    );
+  };
+
+  return (
+    <table className="hotspots">
+      <thead>
+        <tr>
+          {columns.map((col, i) => (
+            <th
+              key={col.label}
+              className={col.numeric ? "numeric" : undefined}
+              onClick={() => handleSort(i)}
+            >
+              {col.label}
+              {sort.column === i && (
+                <span
+                  className={`codicon codicon-chevron-${sort.descending ? "down" : "up"}`}
+                />
+              )}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {sortedRows.map((row, i) => {
+          const { path, line } = getLocation(row);
+          return (
+            <tr
+              key={i}
+              className={path ? "clickable" : undefined}
+              onClick={() => openLocation(path, line)}
+            >
+              {columns.map((col) => (
+                <td
+                  key={col.label}
+                  className={col.numeric ? "numeric" : "name"}
+                >
+                  {col.render ? col.render(row) : col.value(row)}
+                </td>
+              ))}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+export function App() {
+  const [report, setReport] = useState<ProfileReport | null>(null);
+
+  // Send ready message on mount
+  useEffect(() => {
+    vscode.postMessage({ command: "ready" });
+  }, []);
+
+  // Listen for messages from extension
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+
+      if (message.command === "updateProfile") {
+        const updateMessage = message as UpdateProfileMessage;
+        setReport(updateMessage.report);
+      }
+    };
+
+    window.addEventListener("message", handleMessage);
+    return () => {
+      window.removeEventListener("message", handleMessage);
+    };
+  }, []);
+
+  const total = report?.totalSamples || 1;
+
+  const functionColumns = useMemo<Column<FunctionHotspot>[]>(
+    () => [
+      { label: "Function", value: (row) => row.name },
+      {
+        label: "Self",
+        numeric: true,
+        value: (row) => row.selfSamples,
+        render: (row) => (
+          <>
+            <span
+              className="bar"
+              style={{ width: (row.selfSamples / total) * 100 + "px" }}
+            />
+            {percent(row.selfSamples, total)}
+          </>
+        ),
+      },
+      {
+        label: "Total",
+        numeric: true,
+        value: (row) => row.totalSamples,
+        render: (row) => percent(row.totalSamples, total),
+      },
+      { label: "Samples", numeric: true, value: (row) => row.selfSamples },
+    ],
+    [total],
+  );
+
+  const lineColumns = useMemo<Column<LineHotspot>[]>(
+    () => [
+      {
+        label: "Location",
+        value: (row) => `${basename(row.path)}:${row.line}`,
+      },
+      {
+        label: "Self",
+        numeric: true,
+        value: (row) => row.samples,
+        render: (row) => (
+          <>
+            <span
+              className="bar"
+              style={{ width: (row.samples / total) * 100 + "px" }}
+            />
+            {percent(row.samples, total)}
+          </>
+        ),
+      },
+      { label: "Samples", numeric: true, value: (row) => row.samples },
+    ],
+    [total],
+  );
+
+  return (
+    <div className="profiler">
+      {report ? (
+        <>
+          <div className="summary">{report.totalSamples} samples</div>
+          <vscode-tabs>
+            <vscode-tab-header>Functions</vscode-tab-header>
+            <vscode-tab-header>Lines</vscode-tab-header>
+
+            <vscode-tab-panel>
+              <HotspotTable
+                rows={report.functions}
+                columns={functionColumns}
+                defaultSort={{ column: 1, descending: true }}
+                getLocation={(row) => row}
+              />
+            </vscode-tab-panel>
+            <vscode-tab-panel>
+              <HotspotTable
+                rows={report.lines}
+                columns={lineColumns}
+                defaultSort={{ column: 1, descending: true }}
+                getLocation={(row) => row}
+              />
+            </vscode-tab-panel>
+          </vscode-tabs>
+        </>
+      ) : (
+        <div className="loading">No profile data</div>
+      )}
+    </div>
+  );
+}
@@ -1931,9 +1931,87 @@ function InitWrappers() {
     let attached = false;
     let allocMemAddr;
     let startSnapshot;
+    // Entry points of the exec functions which add tasks, libraries and devices, while watching for modules
+    let moduleHooks = [];
+    // Return address of a hooked call, to stop at once the new task or library is in the exec lists
+    let moduleReturn;
+
+    // Disk images from the launch options, which the program is loaded from
+    const hasDisks = function (params) {
+        return params.floppy_urls?.length > 0 || params.hdf_url || params.hd_folder;
+    }
+
+    const fetchFile = async function (url) {
+        const res = await fetch(url);
+        return new Uint8Array(await res.arrayBuffer());
+    }
+
+    // Insert disks into DF0-DF3 and attach a hard drive as DH0. The Amiga needs a reset afterwards to boot from them.
+    const insertDisks = async function (params) {
+        const floppyUrls = params.floppy_urls ?? [];
+        for (let drive = 0; drive < floppyUrls.length; drive++) {
+            const filename = decodeURIComponent(floppyUrls[drive].split('/').pop());
+            wasm_loadfile(filename, await fetchFile(floppyUrls[drive]), drive);
+        }
+        if (params.hdf_url) {
+            const filename = decodeURIComponent(params.hdf_url.split('/').pop());
+            wasm_loadfile(filename, await fetchFile(params.hdf_url), 0);
+        } else if (params.hd_folder) {
+            // Build a hard drive image from the folder contents, in the same way as importing a zip
+            await mount_folder(imported_hd_path);
+            deleteAllFiles(imported_hd_path);
+            let totalSize = 0;
+            for (const file of params.hd_folder.files) {
+                const data = await fetchFile(file.url);
+                const fsPath = imported_hd_path + '/' + file.path;
+                let dir = '';
+                for (const part of fsPath.split('/').slice(1, -1)) {
+                    dir += '/' + part;
+                    if (!FS.analyzePath(dir).exists) {
+                        FS.mkdir(dir);
+                    }
+                }
+                FS.writeFile(fsPath, data);
+                totalSize += data.length;
+            }
+            const hd = JSON.parse(wasm_export_disk(imported_hd_path, 4 + 1.2 * (totalSize / (1024 * 1024)), params.hd_folder.name));
+            const hdf = new Uint8Array(Module.HEAPU8.buffer, hd.address, hd.size).slice(0, hd.size);
+            deleteAllFiles(imported_hd_path);
+            await sync_fs();
+            wasm_loadfile(params.hd_folder.name + '.hdf', hdf, 0);
+        }
+        console.log('Disks inserted');
+    }
+
+    const bootFromDisks = async function () {
+        // Don't look for exec until booting from the disks
+        execReady = true;
+        await insertDisks(callParams);
+        wasm_reset();
+        execReady = false;
+        wasm_configure('WARP_MODE', 'ALWAYS');
+    }
+
+    if (hasDisks(callParams)) {
+        on_ready_to_run = () => {
+            on_ready_to_run = () => {};
+            bootFromDisks();
+        };
+    }
+
+    // Starting from a snapshot - stop straight away and wait for it to be loaded, instead of booting Kickstart
+    const waitForSnapshot = function () {
+        execReady = true;
+        wasm_halt(false);
+        wasm_configure('WARP_MODE', 'NEVER');
+        vscode.postMessage({ type: 'exec-ready' });
+    }
 
     // Check if exec vector is set, and install breakpoint at AllocMem if loading program
     const tryExec = function () {
+        if (callParams.snapshot) {
+            return waitForSnapshot();
+        }
         const execBase = wasm_peek32(4);
         allocMemAddr = execBase - 198; // _LV0_AllocMem
         const gfxBaseAddr = execBase + 156;
@@ -1948,8 +2026,14 @@ function InitWrappers() {
         ) {
             execReady = true;
             wasm_enable_cpu_logging(true);
-            const fastLoad = !callParams.url;
-            if (fastLoad) {
+            const fastLoad = !callParams.url && !callParams.process_name && !callParams.fixed_segments;
+            if (callParams.fixed_segments) {
+                // Program is loaded without AmigaDOS at known addresses - stop so breakpoints can be set before it loads
+                console.log('exec ready - stopping to attach at fixed addresses');
+                attached = true;
+                wasm_configure('WARP_MODE', 'NEVER');
+                wasm_halt(false);
+            } else if (fastLoad) {
                 // Fast load mode - emulator will inject program into RAM
                 console.log('exec ready - stopping for fastLoad mode');
                 attached = true;
@@ -1963,6 +2047,10 @@ function InitWrappers() {
                 wasm_delete_user_snapshot();
             } else {
                 // Normal load mode - install breakpoint in AllocMem to wait for our program
+                if (callParams.attach) {
+                    // Attach mode - keep running at normal speed while the user starts the program
+                    wasm_configure('WARP_MODE', 'NEVER');
+                }
                 console.log('Installing AllocMem breakpoint at ' + allocMemAddr);
                 wasm_set_breakpoint(allocMemAddr, 0);
             }
@@ -1970,12 +2058,57 @@ function InitWrappers() {
         }
     }
 
+    const readCString = function (address) {
+        let str = '';
+        for (let c; address && str.length < 256 && (c = wasm_peek8(address)); address++) {
+            str += String.fromCharCode(c);
+        }
+        return str;
+    }
+
+    // Processes started from Workbench have no CLI, so are found by task name rather than command.
+    // The ready list is checked as well as the current task, as a new process is added to it before it first runs.
+    const findWorkbenchProcess = function (processName) {
+        const execBase = wasm_peek32(4);
+        const tasks = [wasm_peek32(execBase + 0x114)]; // ThisTask
+        for (let node = wasm_peek32(execBase + 0x196); node && wasm_peek32(node); node = wasm_peek32(node)) {
+            tasks.push(node); // TaskReady
+        }
+        for (const task of tasks) {
+            // NT_PROCESS, with no pr_CLI
+            if (!task || wasm_peek8(task + 0x08) !== 13 || wasm_peek32(task + 0xac)) {
+                continue;
+            }
+            const name = readCString(wasm_peek32(task + 0x0a));
+            if (name.split(/[:/]/).pop().toLowerCase() !== processName) {
+                continue;
+            }
+            // pr_SegList points to an array of seglists, where the program's is the fourth entry
+            const segArray = wasm_peek32(task + 0x80) << 2;
+            const segments = [];
+            for (let seg = segArray && wasm_peek32(segArray + 12) << 2; seg && segments.length < 256; seg = wasm_peek32(seg) << 2) {
+                segments.push({ start: seg + 4, size: wasm_peek32(seg - 4) - 8 });
+            }
+            if (segments.length) {
+                return { command: name, segments };
+            }
+        }
+    }
+
     // Each time we hit the AllocMem breakpoint, check whether our process is running and has segment data.
     // We need to ignore a bunch of AllocMems, until our process is found.
+    // For a CLI command, the shell allocates its stack after loading it, so this stops before the program runs.
     const allocBpCheckProcess = function () {
-        const proc = JSON.parse(wasm_get_current_process());
-        // Command has a standard name of 'file' when vAmiga converts an exe to an ADF
-        if (proc.command === 'file' && proc.segments) {
+        let proc = JSON.parse(wasm_get_current_process());
+        // Command has a standard name of 'file' when vAmiga converts an exe to an ADF.
+        // When loaded from a disk, the command can include a path e.g. 'df0:c/game'.
+        const processName = (callParams.process_name ?? 'file').toLowerCase();
+        let command = proc.command?.split(/[:/]/).pop().toLowerCase();
+        if (command !== processName || !proc.segments) {
+            proc = findWorkbenchProcess(processName) ?? proc;
+            command = proc.command?.split(/[:/]/).pop().toLowerCase();
+        }
+        if (command === processName && proc.segments) {
             console.log('attached');
             console.log(proc);
             // Can remove the AllocMem breakpoint now
@@ -1991,15 +2124,60 @@ function InitWrappers() {
         return attached;
     };
 
-    // Take a snapshot for backward stepping
-    const takeStepSnapshot = function() {
+    // Break on AddTask, AddLibrary and AddDevice, so the debugger can look for its symbol modules as they're loaded
+    const watchModules = function () {
+        unwatchModules();
+        const execBase = wasm_peek32(4);
+        moduleHooks = [-282, -396, -432]
+            .filter((lvo) => wasm_peek16(execBase + lvo) === 0x4ef9) // jmp
+            .map((lvo) => wasm_peek32(execBase + lvo + 2));
+        for (const address of moduleHooks) {
+            wasm_set_breakpoint(address, 0);
+        }
+    }
+
+    const unwatchModules = function () {
+        for (const address of moduleHooks) {
+            wasm_remove_breakpoint(address);
+        }
+        moduleHooks = [];
+        if (moduleReturn !== undefined) {
+            wasm_remove_breakpoint(moduleReturn);
+            moduleReturn = undefined;
+        }
+    }
+
+    // Handles a stop at a module hook. Execution continues into the hooked call, and stops when it returns, for the
+    // debugger to look for modules before the new code runs.
+    const checkModuleHook = function () {
+        const { pc, a7 } = JSON.parse(wasm_get_cpu_info());
+        if (moduleHooks.includes(Number(pc))) {
+            if (moduleReturn !== undefined) {
+                wasm_remove_breakpoint(moduleReturn);
+            }
+            moduleReturn = wasm_peek32(Number(a7));
+            wasm_set_breakpoint(moduleReturn, 0);
+            return true;
+        }
+        if (Number(pc) === moduleReturn) {
+            wasm_remove_breakpoint(moduleReturn);
+            moduleReturn = undefined;
+            wasm_halt(false);
+            vscode.postMessage({ type: 'modules-changed' });
+            return true;
+        }
+        return false;
+    }
+
+    // Take a snapshot for backward stepping, with the IDs of any breakpoints reported for the stop
+    const takeStepSnapshot = function(breakpointIds = []) {
         try {
             const snap = JSON.parse(wasm_take_user_snapshot());
             const data = new Uint8Array(Module.HEAPU8.buffer, snap.address, snap.size).slice(0, snap.size);
-            const { pc } = JSON.parse(wasm_get_cpu_info());
+            const { pc, a7 } = JSON.parse(wasm_get_cpu_info());
 
             // Add to history with circular buffer behavior
-            snapshotHistory.push({ data, pc: Number(pc) });
+            snapshotHistory.push({ data, pc: Number(pc), sp: Number(a7), breakpointIds });
             if (snapshotHistory.length > MAX_SNAPSHOTS) {
                 snapshotHistory.shift(); // Remove oldest snapshot
             }
@@ -2018,9 +2196,12 @@ function InitWrappers() {
             // Still checking on AllocMem for process to start
             return allocBpCheckProcess();
         }
+        if (moduleHooks.length && checkModuleHook()) {
+            return;
+        }
         console.log("Execution stopped (breakpoint or exception):", e);
         wasm_halt(false);
-        takeStepSnapshot();
+        // The snapshot is taken on 'recordStop', as the adapter may resume without reporting the stop
 
         // Get current message for stop
         const message = JSON.parse(wasm_get_current_message());
@@ -2567,8 +2748,34 @@ postMessage({ type: 'ready' });
 
     vscode = acquireVsCodeApi();
 
-    // Track breakpoints for reverse continue
-    const breakpoints = new Set();
+    // Copper breakpoints and beamtraps aren't exposed directly by the wasm API, so they're managed via RetroShell.
+    // RetroShell deletes by index, so the full list is replaced on each change.
+    const retroShellGuards = function(cmd, formatArgs) {
+        const guards = new Set();
+        let count = 0;
+        const sync = function() {
+            for (let i = 0; i < count; i++) {
+                wasm_retro_shell(`${cmd} delete 0`);
+            }
+            for (const value of guards) {
+                wasm_retro_shell(`${cmd} at ${formatArgs(value)}`);
+            }
+            count = guards.size;
+        }
+        return {
+            add: function(value) { guards.add(value); sync(); },
+            delete: function(value) { guards.delete(value); sync(); },
+        };
+    }
+    const copperBreakpoints = retroShellGuards('cbreak', address => `$${address.toString(16)}`);
+    const copperWatchpoints = retroShellGuards('cwatch', address => `$${address.toString(16)}`);
+    // Beam positions are encoded as (vpos << 16) | hpos, matching the address reported by vAmiga when a beamtrap is reached
+    const beamtraps = retroShellGuards('btrap', position => `${position >> 16} ${position & 0xffff}`);
+
+    // CPU log items already collected by a read which cleared the log, most recent first.
+    // Other reads still see them after the items logged since, e.g. to find the instruction which caused an exception.
+    const CPU_TRACE_KEPT = 256;
+    let collectedCpuTrace = [];
 
     window.addEventListener('message', event => {
         // Debugger commands:
@@ -2594,15 +2801,24 @@ postMessage({ type: 'ready' });
                     break;
                 case 'run':
                     wasm_run();
-                    snapshotHistory = []; // Clear snapshot history
+                    break;
+                case 'recordStop':
+                    takeStepSnapshot(message.args.breakpointIds);
+                    break;
+                case 'clearStepHistory':
+                    snapshotHistory = [];
+                    break;
+                case 'watchModules':
+                    watchModules();
+                    break;
+                case 'unwatchModules':
+                    unwatchModules();
                     break;
                 case 'setBreakpoint':
                     wasm_set_breakpoint(message.args.address, message.args.ignores);
-                    breakpoints.add(message.args.address);
                     break;
                 case 'removeBreakpoint':
                     wasm_remove_breakpoint(message.args.address);
-                    breakpoints.delete(message.args.address);
                     break;
                 case 'setWatchpoint':
                     wasm_set_watchpoint(message.args.address, message.args.ignores);
@@ -2610,6 +2826,24 @@ postMessage({ type: 'ready' });
                 case 'removeWatchpoint':
                     wasm_remove_watchpoint(message.args.address);
                     break;
+                case 'setCopperBreakpoint':
+                    copperBreakpoints.add(message.args.address);
+                    break;
+                case 'removeCopperBreakpoint':
+                    copperBreakpoints.delete(message.args.address);
+                    break;
+                case 'setCopperWatchpoint':
+                    copperWatchpoints.add(message.args.address);
+                    break;
+                case 'removeCopperWatchpoint':
+                    copperWatchpoints.delete(message.args.address);
+                    break;
+                case 'setBeamtrap':
+                    beamtraps.add((message.args.vpos << 16) | message.args.hpos);
+                    break;
+                case 'removeBeamtrap':
+                    beamtraps.delete((message.args.vpos << 16) | message.args.hpos);
+                    break;
                 case 'setCatchpoint':
                     wasm_set_catchpoint(message.args.vector);
                     break;
@@ -2632,15 +2866,28 @@ postMessage({ type: 'ready' });
                     console.log("enableCpuLogging", message.args.enabled);
                     wasm_enable_cpu_logging(message.args.enabled);
                     break;
+                case 'clearCpuTrace':
+                    wasm_clear_cpu_trace();
+                    collectedCpuTrace = [];
+                    break;
                 case 'getCpuTrace':
-                    rpcRequest(() => JSON.parse(wasm_get_cpu_trace(message.args.count)));
+                    rpcRequest(() => {
+                        const trace = JSON.parse(wasm_get_cpu_trace(message.args.count));
+                        if (message.args.clear) {
+                            wasm_clear_cpu_trace();
+                            collectedCpuTrace = [...trace, ...collectedCpuTrace].slice(0, CPU_TRACE_KEPT);
+                            return trace;
+                        }
+                        return [...trace, ...collectedCpuTrace].slice(0, message.args.count);
+                    });
                     break;
                 case 'stepBack':
                     rpcRequest(() => {
-                        if (snapshotHistory.length >= 2) {
-                            // Remove current snapshot (the one we just took when stopping)
-                            snapshotHistory.pop();
-                            // Get and load the previous snapshot
+                        const count = message.args.count ?? 1;
+                        if (snapshotHistory.length > count) {
+                            // Remove current snapshot (the one we just took when stopping) and any others being stepped over
+                            snapshotHistory.splice(snapshotHistory.length - count);
+                            // Load the previous snapshot
                             const previousSnapshot = snapshotHistory[snapshotHistory.length - 1];
                             wasm_loadfile('stepback.vAmiga', previousSnapshot.data);
                             wasm_configure('WARP_MODE', 'NEVER'); // Prevents bug where warp is enabled after stepping back to first instruction
@@ -2650,33 +2897,37 @@ postMessage({ type: 'ready' });
                         }
                     });
                     break;
-                case 'continueReverse':
+                case 'getStepHistory':
+                    rpcRequest(() => ({
+                        stops: snapshotHistory.map(({ pc, sp, breakpointIds }) => ({ pc, sp, breakpointIds })),
+                        maxStops: MAX_SNAPSHOTS,
+                    }));
+                    break;
+                case 'saveSnapshot':
                     rpcRequest(() => {
-                        if (snapshotHistory.length >= 2) {
-                            // Remove current snapshot (the one we just took when stopping)
-                            snapshotHistory.pop();
-                            // keep stepping back until we hit a breakpoint, of run out of snapshots
-                            let previousSnapshot;
-                            while (true) {
-                                previousSnapshot = snapshotHistory[snapshotHistory.length - 1];
-                                if (breakpoints.has(previousSnapshot.pc) || snapshotHistory.length == 1) {
-                                    break;
-                                } else {
-                                    snapshotHistory.pop();
-                                }
-                            }
-                            // Load the previous snapshot
-                            wasm_loadfile('stepback.vAmiga', previousSnapshot.data);
-                            wasm_configure('WARP_MODE', 'NEVER');
-                            console.log(`Stepped back. PC: ${previousSnapshot.pc}, History size: ${snapshotHistory.length}`);
-                        } else {
-                            throw new Error("No previous snapshot available for stepping back");
-                        }
+                        const snap = JSON.parse(wasm_take_user_snapshot());
+                        const data = new Uint8Array(Module.HEAPU8.buffer, snap.address, snap.size).slice(0, snap.size);
+                        wasm_delete_user_snapshot();
+                        return { data };
+                    });
+                    break;
+                case 'loadSnapshot':
+                    rpcRequest(() => {
+                        wasm_loadfile('debug.vAmiga', message.args.data);
+                        wasm_halt(false);
+                        wasm_configure('WARP_MODE', 'NEVER');
+                        attached = true;
+                        // Earlier stops can't be stepped back to from the restored state
+                        snapshotHistory = [];
+                        takeStepSnapshot();
                     });
                     break;
                 case 'getCpuInfo':
                     rpcRequest(() => JSON.parse(wasm_get_cpu_info()));
                     break;
+                case 'getCopperInfo':
+                    rpcRequest(() => JSON.parse(wasm_get_copper_info()));
+                    break;
                 case 'getMemoryInfo':
                     rpcRequest(() => JSON.parse(wasm_get_memory_info()));
                     break;
@@ -2732,7 +2983,18 @@ postMessage({ type: 'ready' });
                 case 'load':
                     rpcRequest(async () => {
                         callParams = message.args;
-                        if (callParams.url) {
+                        if (callParams.snapshot) {
+                            attached = false;
+                            waitForSnapshot();
+                        } else if (callParams.attach) {
+                            // Attach to the running machine, without resetting it
+                            attached = false;
+                            execReady = false;
+                            wasm_run();
+                        } else if (hasDisks(callParams)) {
+                            attached = false;
+                            await bootFromDisks();
+                        } else if (callParams.url) {
                             // Load program exe/adf
                             attached = false;
                             execReady = false;